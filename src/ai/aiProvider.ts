@@ -0,0 +1,85 @@
+import {NamedSchema} from './jsonSchema';
+
+export interface NoteMetadata {
+    title: string;
+    hashtags: string[]; // With leading '#'
+    summary?: NoteSummary; // Only when requested with MetadataOptions.summary
+    tasks?: DetectedTask[]; // Only when requested with MetadataOptions.tasks
+}
+
+// Something the sender wants to be reminded of or has to do by a certain day
+export interface DetectedTask {
+    text: string; // Short imperative sentence, e.g. "Call the bank"
+    due: string; // YYYY-MM-DD
+}
+
+// Extended metadata for long content: what it says, what to do about it and who/what it mentions
+export interface NoteSummary {
+    tldr: string;
+    keyPoints: string[];
+    actionItems: string[]; // Written into the note as Obsidian tasks
+    people: string[];
+    organizations: string[];
+    dates: string[]; // "YYYY-MM-DD: what happens" where the date can be resolved
+    language: string; // ISO 639-1 code of the content
+}
+
+export interface MetadataOptions {
+    suggestedTags?: string[]; // Existing vault tags (with '#') the model should prefer
+    restrictToSuggestedTags?: boolean; // Only the suggested tags are allowed
+    language?: string; // ISO-639-1 code the title is written in; the content's language if omitted
+    instructions?: string; // Extra instructions from a prompt note in the vault
+    summary?: SummaryOptions; // Also produce a NoteSummary
+    tasks?: TaskDetectionOptions; // Also pick out tasks with a due date
+}
+
+export interface TaskDetectionOptions {
+    today: string; // E.g. "2026-10-19 (Monday)", to resolve "Friday" or "tomorrow"
+}
+
+export interface SummaryOptions {
+    chunkChars: number; // Content per request; longer content is summarized chunk by chunk first (map-reduce)
+    maxChunks: number; // Content beyond this many chunks is left out
+}
+
+// What a vision model reads from an image
+export interface ImageDescription {
+    text: string; // Text visible in the image with its line breaks, '' if there is none
+    description: string; // Alt text: what the image shows, in a sentence or two
+}
+
+export interface ImageDescriptionOptions {
+    extractText: boolean; // Transcribe the text in the image (OCR); otherwise only describe it
+    language?: string; // ISO-639-1 code of the description; the language of the image's text if omitted
+}
+
+// An image for a vision model
+export interface AiImage {
+    base64: string;
+    mimeType: string; // image/jpeg, image/png...
+}
+
+export interface CompletionRequest {
+    prompt: string;
+    images?: AiImage[]; // Ignored by providers without image support
+    imageDetail?: 'low' | 'high'; // Resolution the model sees the images in, where the API lets us choose; low by default
+    json?: boolean; // Ask the model for a JSON object if the backend supports it
+    schema?: NamedSchema; // JSON schema of the reply, enforced by backends that support it (AI_JSON_SCHEMA)
+    temperature?: number;
+    maxTokens?: number;
+}
+
+/**
+ * A backend for AI features. Model-backed providers implement `complete`; the offline provider
+ * only implements `generateNoteMetadata`, so features that need free-form completions must
+ * check for `complete` and degrade gracefully without it. The same goes for `embed`, which only
+ * OpenAI-style APIs offer, and `describeImage`, which also needs `supportsImages`.
+ */
+export interface AiProvider {
+    readonly name: string;
+    readonly supportsImages: boolean;
+    generateNoteMetadata(content: string, images?: AiImage[], options?: MetadataOptions): Promise<NoteMetadata>;
+    complete?(request: CompletionRequest): Promise<string>;
+    describeImage?(image: AiImage, options: ImageDescriptionOptions): Promise<ImageDescription>;
+    embed?(texts: string[]): Promise<number[][]>; // One vector per text, in order
+}
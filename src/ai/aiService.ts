@@ -0,0 +1,112 @@
+import {config} from '../config';
+import {logger} from '../utils/logger';
+import {getTagSuggestions, normalizeTags} from '../obsidian/tagVocabulary';
+import {formatMomentDate} from '../obsidian/dailyNoteService';
+import {VaultAiSettings, VaultSettings} from '../vaults/vaultSettings';
+import {AiImage, AiProvider, NoteMetadata} from './aiProvider';
+import {AnthropicProvider} from './providers/anthropicProvider';
+import {OfflineProvider} from './providers/offlineProvider';
+import {OpenAIProvider} from './providers/openAIProvider';
+
+const providers = new Map<string, AiProvider>(); // Per vault id
+let customProvider: AiProvider | undefined;
+
+function supportsImages(settings: VaultAiSettings, defaultValue: boolean): boolean {
+    return settings.supportsImages ?? config.AI_SUPPORTS_IMAGES ?? defaultValue;
+}
+
+// Vault settings override the AI_* variables; a vault switching provider doesn't inherit the global model
+function createProvider(settings: VaultAiSettings): AiProvider {
+    const providerName = settings.provider || config.AI_PROVIDER;
+    const sameProvider = providerName === config.AI_PROVIDER;
+    const model = settings.model || (sameProvider ? config.AI_MODEL : '');
+    const baseURL = settings.baseUrl || (sameProvider ? config.AI_BASE_URL : '');
+    switch (providerName) {
+        case 'openai':
+            return new OpenAIProvider({
+                name: 'openai',
+                apiKey: settings.apiKey || config.OPENAI_API_KEY,
+                model: model || 'gpt-3.5-turbo',
+                baseURL: baseURL || undefined,
+                supportsImages: supportsImages(settings, true),
+                supportsJsonMode: true,
+                supportsJsonSchema: config.AI_JSON_SCHEMA,
+                embeddingModel: settings.embeddingModel || config.EMBEDDING_MODEL || 'text-embedding-3-small',
+            });
+        case 'openai-compatible':
+            return new OpenAIProvider({
+                name: 'openai-compatible',
+                apiKey: settings.apiKey || config.AI_API_KEY,
+                model: model || 'llama3.1',
+                baseURL,
+                // Most local models are text-only; enable explicitly for llava and friends
+                supportsImages: supportsImages(settings, false),
+                supportsJsonMode: true,
+                supportsJsonSchema: config.AI_JSON_SCHEMA,
+                embeddingModel: settings.embeddingModel || config.EMBEDDING_MODEL || 'nomic-embed-text',
+            });
+        case 'anthropic':
+            return new AnthropicProvider({
+                apiKey: settings.apiKey || config.ANTHROPIC_API_KEY,
+                model: model || 'claude-3-5-haiku-latest',
+                baseURL: baseURL || undefined,
+            });
+        case 'none':
+            return new OfflineProvider();
+        default:
+            // config.ts and the vault settings reject unknown values at startup
+            throw new Error(`Unknown AI provider "${providerName}"`);
+    }
+}
+
+export function getAiProvider(vault: VaultSettings): AiProvider {
+    if (customProvider) {
+        return customProvider;
+    }
+    let provider = providers.get(vault.id);
+    if (!provider) {
+        provider = createProvider(vault.ai);
+        providers.set(vault.id, provider);
+        logger.info(`Using AI provider for vault "${vault.id}": ${provider.name}`);
+    }
+    return provider;
+}
+
+// Allows swapping in a custom or fake provider for all vaults, e.g. in tests
+export function setAiProvider(provider: AiProvider | undefined): void {
+    customProvider = provider;
+}
+
+export interface NoteMetadataRequest {
+    instructions?: string; // From a prompt note in the vault
+    summarize?: boolean; // Defaults to AI_SUMMARY: never, for content of AI_SUMMARY_MIN_CHARS or more, or always
+    detectTasks?: boolean; // Defaults to TASK_DETECTION
+}
+
+function shouldSummarize(content: string): boolean {
+    return config.AI_SUMMARY === 'all' || (config.AI_SUMMARY === 'long' && content.length >= config.AI_SUMMARY_MIN_CHARS);
+}
+
+// Title and tags for a note, with the tags mapped onto the vault's existing vocabulary, a summary for long content and dated tasks
+export async function generateNoteMetadata(vault: VaultSettings, content: string, images?: AiImage[], request: NoteMetadataRequest = {}): Promise<NoteMetadata> {
+    const activeProvider = getAiProvider(vault);
+    const suggestions = await getTagSuggestions(vault, content);
+    const summarize = request.summarize ?? shouldSummarize(content);
+    const metadata = await activeProvider.generateNoteMetadata(
+        content,
+        activeProvider.supportsImages ? images : undefined,
+        {
+            suggestedTags: suggestions.tags,
+            restrictToSuggestedTags: suggestions.restricted,
+            language: vault.language,
+            instructions: request.instructions,
+            summary: summarize ? {chunkChars: config.AI_CHUNK_CHARS, maxChunks: config.AI_MAX_CHUNKS} : undefined,
+            tasks: (request.detectTasks ?? config.TASK_DETECTION) ? {today: formatMomentDate(new Date(), 'YYYY-MM-DD (dddd)')} : undefined,
+        },
+    );
+    const hashtags = await normalizeTags(vault, metadata.hashtags);
+    if (hashtags.join() !== metadata.hashtags.join()) {
+        logger.info(`Normalized hashtags: ${metadata.hashtags.join(', ')} -> ${hashtags.join(', ')}`);
+    }
+    return {...metadata, hashtags};
+}
@@ -0,0 +1,95 @@
+import {execFile} from 'child_process';
+import {config} from '../config';
+import {logger} from '../utils/logger';
+import {VaultSettings} from '../vaults/vaultSettings';
+import {getAiProvider} from './aiService';
+import {AiImage} from './aiProvider';
+
+const TESSERACT_TIMEOUT_MS = 60000;
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024; // Larger images are rejected by vision APIs anyway
+// Formats every vision API we talk to accepts; GIF (animated ones are refused), SVG and HEIC are not sent
+const VISION_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Whether the image can go to a vision model at all
+export function isVisionImage(image: AiImage): boolean {
+    return VISION_IMAGE_TYPES.includes(image.mimeType.toLowerCase());
+}
+
+// What the note gets below an image embed; either part may be missing
+export interface ImageText {
+    text?: string; // OCR
+    description?: string; // Alt text
+}
+
+// Local OCR with the tesseract CLI (OCR_ENGINE=tesseract); the image goes in via stdin, the text comes out via stdout
+function runTesseract(image: Buffer): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const child = execFile(config.TESSERACT_PATH, ['stdin', 'stdout', '-l', config.OCR_LANGUAGES],
+            {timeout: TESSERACT_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024},
+            (error, stdout, stderr) => {
+                if (error) {
+                    reject(new Error(stderr.trim() || error.message));
+                    return;
+                }
+                resolve(stdout.trim());
+            });
+        child.stdin?.on('error', () => undefined); // Reported through the callback when tesseract exits early
+        child.stdin?.end(image);
+    });
+}
+
+/**
+ * Reads the text in a photo or screenshot (OCR_ENGINE) and describes it (IMAGE_DESCRIPTION).
+ * The vision model does both in one request; without a provider that takes images, only
+ * tesseract works. Failures only cost the text or the description, never the note.
+ */
+export async function extractImageText(vault: VaultSettings, image: Buffer, filename: string, mimeType: string): Promise<ImageText> {
+    const result: ImageText = {};
+    if (image.length > MAX_IMAGE_BYTES) {
+        logger.info(`Skipping OCR for ${filename}: ${image.length} bytes is too large.`);
+        return result;
+    }
+    const provider = getAiProvider(vault);
+    const aiImage: AiImage = {base64: image.toString('base64'), mimeType};
+    const supportedFormat = isVisionImage(aiImage);
+    if (!supportedFormat && (config.OCR_ENGINE === 'vision' || config.IMAGE_DESCRIPTION)) {
+        logger.info(`Not sending ${filename} to the vision model: ${mimeType} is not supported.`);
+    }
+    const canUseVision = !!provider.describeImage && provider.supportsImages && supportedFormat;
+    const visionText = config.OCR_ENGINE === 'vision' && canUseVision;
+    const visionDescription = config.IMAGE_DESCRIPTION && canUseVision;
+
+    if (config.OCR_ENGINE === 'tesseract') {
+        try {
+            result.text = await runTesseract(image);
+        } catch (error: any) {
+            logger.warn(`Tesseract OCR failed for ${filename}: ${error.message}`);
+        }
+    }
+    if (visionText || visionDescription) {
+        try {
+            const description = await provider.describeImage!(aiImage, {extractText: visionText, language: vault.language});
+            if (visionText) result.text = description.text;
+            if (visionDescription) result.description = description.description;
+        } catch (error: any) {
+            logger.warn(`Image description failed for ${filename}: ${error.message}`);
+        }
+    }
+    if (result.text || result.description) {
+        logger.info(`Read ${filename}: ${result.text?.length || 0} characters of text${result.description ? ', described' : ''}`);
+    }
+    return result;
+}
+
+// Markdown below the embed: the alt text as a caption and the image's text in a folded callout
+export function renderImageText(imageText: ImageText): string {
+    const parts: string[] = [];
+    if (imageText.description) {
+        parts.push(`*${imageText.description.replace(/\s+/g, ' ').replace(/\*/g, '\\*')}*`);
+    }
+    if (imageText.text) {
+        const lines = imageText.text.split(/\r?\n/).map(line => line.trim() ? `> ${line.trimEnd()}` : '>');
+        parts.push(['> [!quote]- Text in image', ...lines].join('\n'));
+    }
+    return parts.join('\n\n');
+}
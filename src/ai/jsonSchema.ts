@@ -0,0 +1,61 @@
+/**
+ * The subset of JSON Schema used for model replies. It stays within what OpenAI structured outputs
+ * accept (every property required, no additional properties), so the same schema can be sent to
+ * the model and used to check its reply.
+ */
+export type JsonSchema =
+    | { type: 'string', description?: string }
+    | { type: 'array', items: JsonSchema, description?: string }
+    | { type: 'object', properties: Record<string, JsonSchema>, required: string[], additionalProperties: false, description?: string };
+
+// Schema as sent to the model; the name identifies it in OpenAI requests (letters, digits, '_' and '-')
+export interface NamedSchema {
+    name: string;
+    schema: JsonSchema;
+}
+
+export class JsonSchemaError extends Error {
+    constructor(public readonly location: string, message: string) {
+        super(`${location}: ${message}`);
+        this.name = 'JsonSchemaError';
+    }
+}
+
+function describeType(value: unknown): string {
+    if (value === null) return 'null';
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+// Throws a JsonSchemaError naming the first value that doesn't match, e.g. "$.key_points[2]: expected string, got number"
+export function validateJson(value: unknown, schema: JsonSchema, location = '$'): void {
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') {
+                throw new JsonSchemaError(location, `expected string, got ${describeType(value)}`);
+            }
+            return;
+        case 'array':
+            if (!Array.isArray(value)) {
+                throw new JsonSchemaError(location, `expected array, got ${describeType(value)}`);
+            }
+            value.forEach((item, index) => validateJson(item, schema.items, `${location}[${index}]`));
+            return;
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                throw new JsonSchemaError(location, `expected object, got ${describeType(value)}`);
+            }
+            const record = value as Record<string, unknown>;
+            const missing = schema.required.filter(key => !(key in record));
+            if (missing.length > 0) {
+                throw new JsonSchemaError(location, `missing ${missing.map(key => `"${key}"`).join(', ')}`);
+            }
+            const unexpected = Object.keys(record).filter(key => !(key in schema.properties));
+            if (unexpected.length > 0) {
+                throw new JsonSchemaError(location, `unexpected ${unexpected.map(key => `"${key}"`).join(', ')}`);
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties)) {
+                validateJson(record[key], propertySchema, `${location}.${key}`);
+            }
+        }
+    }
+}
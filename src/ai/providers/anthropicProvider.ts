@@ -0,0 +1,74 @@
+import {CompletionRequest} from '../aiProvider';
+import {ChatAiProvider} from './chatProvider';
+
+const ANTHROPIC_API_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 1024;
+
+export interface AnthropicProviderOptions {
+    apiKey: string;
+    model: string;
+    baseURL?: string;
+}
+
+interface AnthropicMessageResponse {
+    content?: { type: string, text?: string }[];
+    error?: { message?: string };
+}
+
+function parseErrorMessage(responseText: string): string {
+    try {
+        return (JSON.parse(responseText) as AnthropicMessageResponse).error?.message || responseText.substring(0, 200);
+    } catch {
+        return responseText.substring(0, 200);
+    }
+}
+
+// Anthropic Messages API over plain fetch, so no extra SDK is needed
+export class AnthropicProvider extends ChatAiProvider {
+    readonly name = 'anthropic';
+    readonly supportsImages = true;
+
+    constructor(private readonly options: AnthropicProviderOptions) {
+        super();
+    }
+
+    async complete(request: CompletionRequest): Promise<string> {
+        const content: object[] = (request.images || []).map(image => ({
+            type: 'image',
+            source: {type: 'base64', media_type: image.mimeType, data: image.base64},
+        }));
+        content.push({type: 'text', text: request.prompt});
+
+        const baseURL = (this.options.baseURL || 'https://api.anthropic.com').replace(/\/+$/, '');
+        const response = await fetch(`${baseURL}/v1/messages`, {
+            method: 'POST',
+            headers: {
+                'content-type': 'application/json',
+                'x-api-key': this.options.apiKey,
+                'anthropic-version': ANTHROPIC_API_VERSION,
+            },
+            body: JSON.stringify({
+                model: this.options.model,
+                max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+                temperature: request.temperature,
+                messages: [{role: 'user', content}],
+            }),
+        });
+
+        // Proxies and gateways answer errors with HTML or plain text, so parse only after checking the status
+        const responseText = await response.text();
+        if (!response.ok) {
+            throw new Error(`Anthropic API error ${response.status}: ${parseErrorMessage(responseText) || response.statusText}`);
+        }
+        let body: AnthropicMessageResponse;
+        try {
+            body = JSON.parse(responseText);
+        } catch {
+            throw new Error(`Anthropic API returned invalid JSON: ${responseText.substring(0, 200)}`);
+        }
+        return (body.content || [])
+            .filter(block => block.type === 'text')
+            .map(block => block.text || '')
+            .join('');
+    }
+}
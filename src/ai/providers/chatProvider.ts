@@ -0,0 +1,271 @@
+import {logger} from '../../utils/logger';
+import {
+    AiImage,
+    AiProvider,
+    CompletionRequest,
+    DetectedTask,
+    ImageDescription,
+    ImageDescriptionOptions,
+    MetadataOptions,
+    NoteMetadata,
+    SummaryOptions
+} from '../aiProvider';
+import {JsonSchema, NamedSchema, validateJson} from '../jsonSchema';
+import {
+    buildChunkPrompt,
+    buildSummaryGuidance,
+    CHUNK_NOTES_SCHEMA,
+    ChunkNotesReply,
+    formatChunkNotes,
+    splitIntoChunks,
+    SUMMARY_PROPERTIES,
+    SummaryReply,
+    toNoteSummary
+} from './summaryPrompts';
+
+const MAX_RETRIES = 3;
+const INITIAL_RETRY_DELAY_MS = 1000;
+const METADATA_INPUT_CHARS = 5000; // Title and tags only need the beginning
+const MAX_REDUCE_ROUNDS = 3; // Chunk notes too long for one request are summarized again, at most this often
+
+const METADATA_PROPERTIES: Record<string, JsonSchema> = {
+    title: {type: 'string'},
+    hashtags: {type: 'array', items: {type: 'string'}},
+};
+const TASK_PROPERTIES: Record<string, JsonSchema> = {
+    text: {type: 'string'},
+    due: {type: 'string'},
+};
+const TASKS_PROPERTIES: Record<string, JsonSchema> = {
+    tasks: {
+        type: 'array',
+        items: {type: 'object', properties: TASK_PROPERTIES, required: Object.keys(TASK_PROPERTIES), additionalProperties: false},
+    },
+};
+const IMAGE_DESCRIPTION_PROPERTIES: Record<string, JsonSchema> = {
+    text: {type: 'string'},
+    description: {type: 'string'},
+};
+const IMAGE_DESCRIPTION_SCHEMA: NamedSchema = {
+    name: 'image_description',
+    schema: {
+        type: 'object',
+        properties: IMAGE_DESCRIPTION_PROPERTIES,
+        required: Object.keys(IMAGE_DESCRIPTION_PROPERTIES),
+        additionalProperties: false,
+    },
+};
+
+// Title and hashtags, plus the summary and task fields where requested, e.g. "note_metadata_with_summary_and_tasks"
+function getMetadataSchema(options: MetadataOptions): NamedSchema {
+    const properties = {
+        ...METADATA_PROPERTIES,
+        ...(options.summary ? SUMMARY_PROPERTIES : {}),
+        ...(options.tasks ? TASKS_PROPERTIES : {}),
+    };
+    return {
+        name: `note_metadata${options.summary ? '_with_summary' : ''}${options.tasks ? '_and_tasks' : ''}`,
+        schema: {type: 'object', properties, required: Object.keys(properties), additionalProperties: false},
+    };
+}
+
+function buildTagGuidance(options: MetadataOptions): string {
+    if (!options.suggestedTags || options.suggestedTags.length === 0) {
+        return '';
+    }
+    if (options.restrictToSuggestedTags) {
+        return `\nUse ONLY hashtags from this list: ${options.suggestedTags.join(', ')}\n`;
+    }
+    return `\nThese hashtags already exist in the knowledge base. Reuse them when they fit and only add a new hashtag for a topic none of them covers: ${options.suggestedTags.join(', ')}\n`;
+}
+
+function buildTaskGuidance(today: string): string {
+    return `Also list tasks with a due date: things the sender wants to be reminded of or has to do by a certain day, e.g. "remind me Friday to call the bank" or "the report is due on the 30th". Today is ${today}.
+- "tasks": [{"text": "...", "due": "YYYY-MM-DD"}], each text a short imperative sentence in the language of the content; [] if there are none. Leave out tasks whose date can't be resolved.
+`;
+}
+
+// Tasks without a usable date or text are dropped rather than failing the whole reply
+function toDetectedTasks(tasks: DetectedTask[]): DetectedTask[] {
+    return tasks
+        .map(task => ({text: task.text.replace(/^(?:[-*•]\s+)?(?:\[[ x]]\s+)?/i, '').trim(), due: task.due.trim()}))
+        .filter(task => task.text && /^\d{4}-\d{2}-\d{2}$/.test(task.due) && !isNaN(Date.parse(task.due)));
+}
+
+/**
+ * Prompt for title and hashtags, plus the fields of a NoteSummary with `options.summary` and
+ * dated tasks with `options.tasks`.
+ * `fromChunks` means the content is not the text itself but notes on its parts (map-reduce).
+ */
+export function buildMetadataPrompt(content: string, options: MetadataOptions = {}, fromChunks = false): string {
+    const summarize = !!options.summary;
+    const fields = summarize
+        ? '"title": "Your Concise Title", "hashtags": ["#tag1", "#tag2"], "tldr": "...", "key_points": ["..."], "action_items": ["..."], "people": ["..."], "organizations": ["..."], "dates": ["YYYY-MM-DD: ..."], "language": "en"'
+        : '"title": "Your Concise Title", "hashtags": ["#tag1", "#tag2", "#relevantHashtag"]';
+    const format = `{${fields}${options.tasks ? ', "tasks": [{"text": "Call the bank", "due": "YYYY-MM-DD"}]' : ''}}`;
+    return `Analyze the following content and generate a concise, filesystem-friendly title (max 10 words, avoid special characters like /\\:*?"<>|) and a list of relevant hashtags (e.g., ["#topic1", "#topic2"]).
+
+${fromChunks ? 'The content is too long to show in full. These are notes on each of its parts, in order:' : 'Content:'}
+"""
+${summarize ? content.substring(0, options.summary!.chunkChars) : content.substring(0, METADATA_INPUT_CHARS)}
+"""
+
+Hashtags a.k.a categories should always be on English and start with a # symbol. If companies, products, or people are mentioned, they should be included as hashtags.${buildTagGuidance(options)}
+${options.language ? `Title should be in the language with ISO 639-1 code "${options.language}", whatever the language of the content,` : 'Title should be on the same language as the content'} and should be concise and descriptive.
+${summarize ? `${buildSummaryGuidance(options.language)}\n` : ''}${options.tasks ? buildTaskGuidance(options.tasks.today) : ''}${options.instructions ? `\nAdditional instructions:\n${options.instructions}\n\n` : ''}Respond ONLY with a valid JSON object in the following format:
+${format}`;
+}
+
+export function buildImageDescriptionPrompt(options: ImageDescriptionOptions): string {
+    const language = options.language
+        ? `in the language with ISO 639-1 code "${options.language}"`
+        : 'in the language of the text in the image, or in English if there is none';
+    return `Describe the attached image for a note archive.
+${options.extractText
+        ? '"text": all text visible in the image, transcribed exactly as written (original language, line breaks kept, reading order top to bottom); "" if there is none.'
+        : '"text": always "".'}
+"description": alt text saying what the image shows in one or two sentences ${language}. For screenshots, name the app or website and what is going on.
+Respond ONLY with a valid JSON object in the following format:
+{"text": "...", "description": "..."}`;
+}
+
+// Parses a JSON object from a model reply, tolerating explanations around it
+export function parseJsonResponse<T>(responseText: string): T {
+    try {
+        return JSON.parse(responseText);
+    } catch (parseError) {
+        logger.error(`Failed to parse AI JSON response: ${responseText}`, parseError);
+        // Attempt to extract JSON from potentially padded response (sometimes models add explanations)
+        const jsonMatch = responseText.match(/{[\s\S]*}/);
+        if (jsonMatch) {
+            try {
+                const parsed = JSON.parse(jsonMatch[0]);
+                logger.warn(`Successfully parsed JSON after extraction: ${jsonMatch[0]}`);
+                return parsed;
+            } catch (nestedParseError) {
+                throw new Error(`Failed to parse extracted JSON: ${jsonMatch[0]}`);
+            }
+        }
+        throw new Error(`Response was not valid JSON: ${responseText}`);
+    }
+}
+
+// Retries an AI call with exponential backoff
+export async function withRetries<T>(description: string, call: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+        try {
+            return await call();
+        } catch (error: any) {
+            logger.warn(`${description} failed (attempt ${attempt}/${MAX_RETRIES}): ${error.message}`, {error});
+            if (attempt === MAX_RETRIES) {
+                logger.error(`${description} failed after multiple retries.`);
+                throw error; // Re-throw the last error
+            }
+            // Exponential backoff for retries
+            await new Promise(resolve => setTimeout(resolve, INITIAL_RETRY_DELAY_MS * Math.pow(2, attempt - 1)));
+        }
+    }
+    // Should not be reachable if MAX_RETRIES > 0, but satisfies TypeScript
+    throw new Error(`${description} failed after all retries.`);
+}
+
+// Hashtags always start with '#'
+function normalizeHashtags(hashtags: string[]): string[] {
+    return hashtags.map(tag => tag.trim()).filter(Boolean).map(tag => tag.startsWith('#') ? tag : `#${tag}`);
+}
+
+/**
+ * Base for providers backed by a chat model: metadata comes from a JSON prompt sent via `complete`.
+ * Every reply is checked against its schema and asked for again if it doesn't match.
+ */
+export abstract class ChatAiProvider implements AiProvider {
+    abstract readonly name: string;
+    abstract readonly supportsImages: boolean;
+
+    abstract complete(request: CompletionRequest): Promise<string>;
+
+    private async requestJson<T>(description: string, prompt: string, schema: NamedSchema, images?: AiImage[], imageDetail?: 'low' | 'high'): Promise<T> {
+        logger.debug(`Sending prompt to ${this.name}: ${prompt.substring(0, 100)}...`);
+        return withRetries(`${this.name} ${description}`, async () => {
+            const responseText = await this.complete({
+                prompt,
+                images: this.supportsImages ? images : undefined,
+                imageDetail,
+                json: true,
+                schema,
+                temperature: 0.5, // Lower temperature for more deterministic results
+            });
+            if (!responseText) {
+                throw new Error(`${this.name} response text was empty.`);
+            }
+            logger.debug(`Raw ${this.name} response: ${responseText}`);
+
+            const parsedResponse = parseJsonResponse<unknown>(responseText);
+            try {
+                validateJson(parsedResponse, schema.schema);
+            } catch (error: any) {
+                throw new Error(`Parsed ${this.name} response did not match expected format: ${error.message}`);
+            }
+            return parsedResponse as T;
+        });
+    }
+
+    // Map step: content longer than one request becomes notes per chunk, repeated while the notes are still too long
+    private async condense(content: string, summary: SummaryOptions, options: MetadataOptions): Promise<string> {
+        let text = content;
+        for (let round = 0; round < MAX_REDUCE_ROUNDS && text.length > summary.chunkChars; round++) {
+            let chunks = splitIntoChunks(text, summary.chunkChars);
+            if (chunks.length > summary.maxChunks) {
+                logger.warn(`Content of ${text.length} characters has ${chunks.length} chunks, summarizing the first ${summary.maxChunks}.`);
+                chunks = chunks.slice(0, summary.maxChunks);
+            }
+            const notes: string[] = [];
+            // One request at a time, so long documents don't run into rate limits
+            for (const [index, chunk] of chunks.entries()) {
+                const reply = await this.requestJson<ChunkNotesReply>(`chunk ${index + 1}/${chunks.length}`,
+                    buildChunkPrompt(chunk, index, chunks.length, options), CHUNK_NOTES_SCHEMA);
+                notes.push(formatChunkNotes(reply, index, chunks.length));
+            }
+            logger.info(`Summarized ${text.length} characters in ${chunks.length} chunks (round ${round + 1}).`);
+            text = notes.join('\n\n');
+        }
+        return text;
+    }
+
+    private async generateSummaryMetadata(content: string, summary: SummaryOptions, images?: AiImage[], options: MetadataOptions = {}): Promise<NoteMetadata> {
+        const condensed = await this.condense(content, summary, options);
+        const reply = await this.requestJson<SummaryReply & { title: string, hashtags: string[], tasks?: DetectedTask[] }>('summary',
+            buildMetadataPrompt(condensed, options, condensed !== content), getMetadataSchema(options), images);
+        const metadata = {
+            title: reply.title,
+            hashtags: normalizeHashtags(reply.hashtags),
+            summary: toNoteSummary(reply),
+            tasks: reply.tasks && toDetectedTasks(reply.tasks),
+        };
+        logger.info(`Generated metadata with summary - Title: "${metadata.title}", Hashtags: ${metadata.hashtags.join(', ')}, ${metadata.summary.keyPoints.length} key point(s), ${metadata.summary.actionItems.length} action item(s)${metadata.tasks ? `, ${metadata.tasks.length} task(s)` : ''}`);
+        return metadata;
+    }
+
+    async generateNoteMetadata(content: string, images?: AiImage[], options: MetadataOptions = {}): Promise<NoteMetadata> {
+        if (options.summary) {
+            try {
+                return await this.generateSummaryMetadata(content, options.summary, images, options);
+            } catch (error: any) {
+                // A note with title and tags is better than none; if the model is unreachable, the fallback fails too
+                logger.warn(`${this.name} summary failed, generating title and tags only: ${error.message}`);
+            }
+        }
+        const metadataOptions = {...options, summary: undefined};
+        const reply = await this.requestJson<NoteMetadata>('API call', buildMetadataPrompt(content, metadataOptions), getMetadataSchema(metadataOptions), images);
+        const metadata = {title: reply.title, hashtags: normalizeHashtags(reply.hashtags), tasks: reply.tasks && toDetectedTasks(reply.tasks)};
+        logger.info(`Generated metadata - Title: "${metadata.title}", Hashtags: ${metadata.hashtags.join(', ')}${metadata.tasks ? `, ${metadata.tasks.length} task(s)` : ''}`);
+        return metadata;
+    }
+
+    async describeImage(image: AiImage, options: ImageDescriptionOptions): Promise<ImageDescription> {
+        // High detail, small print in screenshots is unreadable at the low resolution used for metadata
+        const reply = await this.requestJson<ImageDescription>('image description', buildImageDescriptionPrompt(options),
+            IMAGE_DESCRIPTION_SCHEMA, [image], 'high');
+        return {text: options.extractText ? reply.text.trim() : '', description: reply.description.trim()};
+    }
+}
@@ -0,0 +1,71 @@
+import {AiImage, AiProvider, MetadataOptions, NoteMetadata} from '../aiProvider';
+
+const MAX_TITLE_WORDS = 10;
+const MAX_TAGS = 5;
+const MIN_TAG_LENGTH = 4;
+
+// Common English function words plus chat filler; anything shorter than MIN_TAG_LENGTH is dropped anyway
+const STOP_WORDS = new Set([
+    'about', 'above', 'after', 'again', 'against', 'also', 'because', 'been', 'before', 'being', 'below', 'between',
+    'both', 'could', 'does', 'doing', 'down', 'during', 'each', 'even', 'every', 'from', 'further', 'have', 'having',
+    'here', 'into', 'just', 'like', 'made', 'make', 'many', 'more', 'most', 'much', 'must', 'only', 'other', 'over',
+    'really', 'same', 'should', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they',
+    'thing', 'things', 'this', 'those', 'through', 'under', 'until', 'very', 'want', 'were', 'what', 'when', 'where',
+    'which', 'while', 'will', 'with', 'would', 'your', 'yours', 'https', 'http', 'www', 'media', 'attached', 'file',
+]);
+
+function stripUrls(text: string): string {
+    return text.replace(/https?:\/\/\S+/g, ' ');
+}
+
+function buildTitle(content: string): string {
+    const firstLine = stripUrls(content)
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .find(line => line.length > 0) || '';
+    const firstSentence = firstLine.split(/(?<=[.!?])\s/)[0];
+    const words = firstSentence.replace(/[/\\:*?"<>|#]/g, ' ').split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+        // Content was only a link or a media placeholder
+        const url = content.match(/https?:\/\/([^/\s]+)/);
+        return url ? `Link from ${url[1]}` : 'Untitled Note';
+    }
+    return words.slice(0, MAX_TITLE_WORDS).join(' ').replace(/[.,;!?]+$/, '');
+}
+
+// Suggested vault tags whose words all occur in the content
+function matchSuggestedTags(content: string, suggestedTags: string[]): string[] {
+    const words = new Set(stripUrls(content).toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+    return suggestedTags.filter(tag => {
+        const tagWords = tag.replace(/^#/, '').toLowerCase().split(/[\s_/-]+/).filter(Boolean);
+        return tagWords.length > 0 && tagWords.every(word => words.has(word));
+    });
+}
+
+function buildTags(content: string, options: MetadataOptions): string[] {
+    const suggested = matchSuggestedTags(content, options.suggestedTags || []);
+    if (options.restrictToSuggestedTags) {
+        return suggested.slice(0, MAX_TAGS);
+    }
+    const explicitTags = (content.match(/#[\p{L}\p{N}_-]+/gu) || []).map(tag => tag.toLowerCase());
+    const counts = new Map<string, number>();
+    for (const word of stripUrls(content).toLowerCase().match(/[\p{L}][\p{L}\p{N}-]*/gu) || []) {
+        if (word.length < MIN_TAG_LENGTH || STOP_WORDS.has(word)) continue;
+        counts.set(word, (counts.get(word) || 0) + 1);
+    }
+    // Most frequent first; ties broken alphabetically so the result is deterministic
+    const keywords = Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([word]) => `#${word}`);
+    return Array.from(new Set([...explicitTags, ...suggested, ...keywords])).slice(0, MAX_TAGS);
+}
+
+// No model at all: keyword-based titles and tags. For setups without cloud AI access, and for tests.
+export class OfflineProvider implements AiProvider {
+    readonly name = 'none';
+    readonly supportsImages = false;
+
+    async generateNoteMetadata(content: string, images?: AiImage[], options: MetadataOptions = {}): Promise<NoteMetadata> {
+        return {title: buildTitle(content), hashtags: buildTags(content, options)};
+    }
+}
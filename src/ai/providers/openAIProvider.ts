@@ -0,0 +1,80 @@
+import OpenAI from 'openai';
+import {CompletionRequest} from '../aiProvider';
+import {ChatAiProvider} from './chatProvider';
+
+export interface OpenAIProviderOptions {
+    name: string;
+    apiKey: string;
+    model: string;
+    baseURL?: string; // Any OpenAI-compatible server (Ollama, llama.cpp server, LM Studio...)
+    supportsImages: boolean;
+    supportsJsonMode: boolean; // response_format: json_object, not implemented by every compatible server
+    supportsJsonSchema: boolean; // response_format: json_schema (structured outputs), for newer models only
+    embeddingModel: string; // For semantic search
+}
+
+export class OpenAIProvider extends ChatAiProvider {
+    readonly name: string;
+    readonly supportsImages: boolean;
+    private readonly client: OpenAI;
+
+    constructor(private readonly options: OpenAIProviderOptions) {
+        super();
+        this.name = options.name;
+        this.supportsImages = options.supportsImages;
+        this.client = new OpenAI({
+            // Local servers usually ignore the key, but the SDK requires one
+            apiKey: options.apiKey || 'not-needed',
+            baseURL: options.baseURL || undefined,
+        });
+    }
+
+    async complete(request: CompletionRequest): Promise<string> {
+        const content: OpenAI.Chat.Completions.ChatCompletionContentPart[] = [
+            {
+                type: 'text',
+                text: request.prompt,
+            }
+        ];
+
+        if (request.images && this.supportsImages) {
+            request.images.forEach((image) => {
+                content.push({
+                    type: 'image_url',
+                    image_url: {
+                        url: `data:${image.mimeType};base64,${image.base64}`,
+                        detail: request.imageDetail || 'low'
+                    }
+                });
+            });
+        }
+
+        const completion = await this.client.chat.completions.create({
+            messages: [
+                {
+                    role: 'user',
+                    content
+                }
+            ],
+            model: this.options.model,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            response_format: this.getResponseFormat(request),
+        });
+
+        return completion.choices[0]?.message?.content || '';
+    }
+
+    private getResponseFormat(request: CompletionRequest): OpenAI.Chat.Completions.ChatCompletionCreateParams['response_format'] {
+        if (request.schema && this.options.supportsJsonSchema) {
+            // The reply is still validated against the schema; strict mode just makes a mismatch unlikely
+            return {type: 'json_schema', json_schema: {name: request.schema.name, schema: request.schema.schema as Record<string, unknown>, strict: true}};
+        }
+        return (request.json || request.schema) && this.options.supportsJsonMode ? {type: 'json_object'} : undefined;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const response = await this.client.embeddings.create({model: this.options.embeddingModel, input: texts});
+        return response.data.sort((a, b) => a.index - b.index).map(item => item.embedding);
+    }
+}
@@ -0,0 +1,155 @@
+import {MetadataOptions, NoteSummary} from '../aiProvider';
+import {JsonSchema, NamedSchema} from '../jsonSchema';
+
+const MAX_KEY_POINTS = 7;
+const MAX_LIST_ITEMS = 20;
+
+const STRING_LIST: JsonSchema = {type: 'array', items: {type: 'string'}};
+
+// Summary part of the metadata reply; the chunk notes of the map step have the same fields except the language
+const CHUNK_PROPERTIES: Record<string, JsonSchema> = {
+    tldr: {type: 'string'},
+    key_points: STRING_LIST,
+    action_items: STRING_LIST,
+    people: STRING_LIST,
+    organizations: STRING_LIST,
+    dates: STRING_LIST,
+};
+export const SUMMARY_PROPERTIES: Record<string, JsonSchema> = {...CHUNK_PROPERTIES, language: {type: 'string'}};
+
+export const CHUNK_NOTES_SCHEMA: NamedSchema = {
+    name: 'chunk_notes',
+    schema: {
+        type: 'object',
+        properties: CHUNK_PROPERTIES,
+        required: Object.keys(CHUNK_PROPERTIES),
+        additionalProperties: false,
+    },
+};
+
+const FIELD_GUIDANCE = [
+    '- "tldr": the gist in 1-3 sentences',
+    `- "key_points": up to ${MAX_KEY_POINTS} of the most important points or facts`,
+    '- "action_items": tasks the reader is asked to or should do, each a short imperative sentence; [] if there are none',
+    '- "people": people who play a role; "organizations": companies, products and institutions that play a role',
+    '- "dates": dates of events, deadlines or appointments as "YYYY-MM-DD: what happens" (keep the wording if the date can\'t be resolved); [] if there are none',
+];
+
+function describeSummaryLanguage(language?: string): string {
+    return language
+        ? `Write the summary in the language with ISO 639-1 code "${language}".`
+        : 'Write the summary in the language of the content.';
+}
+
+export interface ChunkNotesReply {
+    tldr: string;
+    key_points: string[];
+    action_items: string[];
+    people: string[];
+    organizations: string[];
+    dates: string[];
+}
+
+export interface SummaryReply extends ChunkNotesReply {
+    language: string;
+}
+
+export function buildSummaryGuidance(language?: string): string {
+    return [
+        'Also summarize the content:',
+        ...FIELD_GUIDANCE,
+        '- "language": ISO 639-1 code of the language of the content',
+        describeSummaryLanguage(language),
+    ].join('\n');
+}
+
+// Map step: notes on one part of a long text, which are then summarized together
+export function buildChunkPrompt(chunk: string, index: number, count: number, options: MetadataOptions = {}): string {
+    return `This is part ${index + 1} of ${count} of a long text. Take notes on this part so it can be summarized together with the others.
+
+Part ${index + 1}:
+"""
+${chunk}
+"""
+
+${FIELD_GUIDANCE.join('\n')}
+${describeSummaryLanguage(options.language)} Keep what matters for the whole text and leave out what only repeats earlier parts.${options.instructions ? `\n\nAdditional instructions:\n${options.instructions}` : ''}
+Respond ONLY with a valid JSON object in the following format:
+{"tldr": "...", "key_points": ["..."], "action_items": [], "people": ["..."], "organizations": [], "dates": []}`;
+}
+
+// Models sometimes add their own bullets or checkboxes to list items
+function stripListMarker(item: string): string {
+    return item.trim().replace(/^(?:[-*•]\s+)?(?:\[[ x]]\s+)?/i, '');
+}
+
+// Chunk notes as plain text for the reduce step
+export function formatChunkNotes(notes: ChunkNotesReply, index: number, count: number): string {
+    const lines = [`Part ${index + 1} of ${count}: ${notes.tldr}`];
+    const list = (label: string, items: string[]) => {
+        if (items.length > 0) lines.push(`${label}:\n${items.map(item => `- ${stripListMarker(item)}`).join('\n')}`);
+    };
+    list('Key points', notes.key_points);
+    list('Action items', notes.action_items);
+    list('People', notes.people);
+    list('Organizations', notes.organizations);
+    list('Dates', notes.dates);
+    return lines.join('\n');
+}
+
+// Paragraphs longer than a chunk are cut at the last sentence or word end that fits
+function splitParagraph(paragraph: string, maxChars: number): string[] {
+    const pieces: string[] = [];
+    let rest = paragraph;
+    while (rest.length > maxChars) {
+        const window = rest.slice(0, maxChars);
+        const breakAt = Math.max(window.lastIndexOf('. '), window.lastIndexOf('\n'), window.lastIndexOf(' '));
+        const end = breakAt > maxChars / 2 ? breakAt + 1 : maxChars;
+        pieces.push(rest.slice(0, end).trim());
+        rest = rest.slice(end);
+    }
+    return rest.trim() ? [...pieces, rest.trim()] : pieces;
+}
+
+// Splits text into chunks of at most `maxChars`, keeping paragraphs together where possible
+export function splitIntoChunks(text: string, maxChars: number): string[] {
+    const chunks: string[] = [];
+    let current = '';
+    for (const paragraph of text.split(/\n\s*\n/)) {
+        for (const piece of splitParagraph(paragraph.trim(), maxChars)) {
+            if (current && current.length + piece.length + 2 > maxChars) {
+                chunks.push(current);
+                current = '';
+            }
+            current = current ? `${current}\n\n${piece}` : piece;
+        }
+    }
+    return current ? [...chunks, current] : chunks;
+}
+
+function cleanList(items: string[], limit: number): string[] {
+    const seen = new Set<string>();
+    return items
+        .map(stripListMarker)
+        .filter(item => {
+            const key = item.toLowerCase();
+            if (!item || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .slice(0, limit);
+}
+
+// Validated reply -> NoteSummary; list items lose bullets the model added and duplicates
+export function toNoteSummary(reply: SummaryReply): NoteSummary {
+    const language = reply.language.trim().toLowerCase().match(/^([a-z]{2})(?:[-_][a-z]+)?$/)?.[1] || '';
+    return {
+        tldr: reply.tldr.trim(),
+        keyPoints: cleanList(reply.key_points, MAX_KEY_POINTS),
+        actionItems: cleanList(reply.action_items, MAX_LIST_ITEMS),
+        people: cleanList(reply.people, MAX_LIST_ITEMS),
+        organizations: cleanList(reply.organizations, MAX_LIST_ITEMS),
+        dates: cleanList(reply.dates, MAX_LIST_ITEMS),
+        language,
+    };
+}
@@ -0,0 +1,86 @@
+import OpenAI, {toFile} from 'openai';
+import {config} from '../config';
+import {logger} from '../utils/logger';
+
+export interface TranscriptionProvider {
+    name: string;
+    transcribe(audio: Buffer, filename: string, mimeType?: string, language?: string): Promise<string>;
+}
+
+// Any Whisper-compatible endpoint: OpenAI itself, or a self-hosted server via TRANSCRIPTION_BASE_URL
+class WhisperTranscriptionProvider implements TranscriptionProvider {
+    name = 'whisper';
+    private client: OpenAI;
+
+    constructor() {
+        this.client = new OpenAI({
+            apiKey: config.TRANSCRIPTION_API_KEY || config.OPENAI_API_KEY,
+            baseURL: config.TRANSCRIPTION_BASE_URL || undefined,
+        });
+    }
+
+    async transcribe(audio: Buffer, filename: string, mimeType?: string, language?: string): Promise<string> {
+        const file = await toFile(audio, filename, mimeType ? {type: mimeType} : undefined);
+        const result = await this.client.audio.transcriptions.create({
+            file,
+            model: config.TRANSCRIPTION_MODEL,
+            language: language || config.TRANSCRIPTION_LANGUAGE || undefined,
+        });
+        return result.text.trim();
+    }
+}
+
+// Offline stand-in for tests and local runs: returns a fixed transcript without calling any API
+class StubTranscriptionProvider implements TranscriptionProvider {
+    name = 'stub';
+
+    async transcribe(audio: Buffer, filename: string): Promise<string> {
+        return config.TRANSCRIPTION_STUB_TEXT || `Transcript of ${filename} (${audio.length} bytes)`;
+    }
+}
+
+let provider: TranscriptionProvider | null | undefined;
+
+export function getTranscriptionProvider(): TranscriptionProvider | null {
+    if (provider !== undefined) {
+        return provider;
+    }
+    switch (config.TRANSCRIPTION_PROVIDER) {
+        case 'whisper':
+            if (!config.TRANSCRIPTION_API_KEY && !config.OPENAI_API_KEY && !config.TRANSCRIPTION_BASE_URL) {
+                logger.warn('No TRANSCRIPTION_API_KEY or OPENAI_API_KEY set, transcription disabled.');
+                provider = null;
+                break;
+            }
+            provider = new WhisperTranscriptionProvider();
+            break;
+        case 'stub':
+            provider = new StubTranscriptionProvider();
+            break;
+        case 'none':
+            provider = null;
+            break;
+        default:
+            logger.warn(`Unknown TRANSCRIPTION_PROVIDER "${config.TRANSCRIPTION_PROVIDER}", transcription disabled.`);
+            provider = null;
+    }
+    return provider;
+}
+
+// Allows swapping the provider (e.g. a stub in tests)
+export function setTranscriptionProvider(customProvider: TranscriptionProvider | null): void {
+    provider = customProvider;
+}
+
+// Returns null when transcription is disabled; throws if the provider fails. `language` is a hint (the vault's language).
+export async function transcribeAudio(audio: Buffer, filename: string, mimeType?: string, language?: string): Promise<string | null> {
+    const activeProvider = getTranscriptionProvider();
+    if (!activeProvider) {
+        logger.info(`Transcription disabled, skipping ${filename}`);
+        return null;
+    }
+    logger.info(`Transcribing ${filename} (${audio.length} bytes) with ${activeProvider.name} provider`);
+    const transcript = await activeProvider.transcribe(audio, filename, mimeType, language);
+    logger.info(`Transcription finished for ${filename}: ${transcript.length} characters`);
+    return transcript;
+}
@@ -0,0 +1,21 @@
+import {bot} from './telegramHandler';
+import {config} from '../config';
+import {logger} from '../utils/logger';
+import {VaultSettings} from '../vaults/vaultSettings';
+
+/**
+ * Tells the operator about problems the bot can't fix by itself (e.g. a git conflict in a note
+ * edited elsewhere). Goes to ADMIN_CHAT_ID, or to the vault's first user.
+ */
+export async function notifyAdmin(vault: VaultSettings, text: string): Promise<void> {
+    const chatId = config.ADMIN_CHAT_ID || vault.users[0];
+    if (!chatId) {
+        logger.warn(`No admin chat to notify (set ADMIN_CHAT_ID): ${text}`);
+        return;
+    }
+    try {
+        await bot.sendMessage(chatId, `⚠️ Vault "${vault.id}": ${text}`);
+    } catch (error: any) {
+        logger.error(`Failed to notify admin chat ${chatId}: ${error.message}`);
+    }
+}
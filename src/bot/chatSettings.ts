@@ -0,0 +1,124 @@
+import path from 'path';
+import fs from 'fs';
+import TelegramBot from 'node-telegram-bot-api';
+import {config} from '../config';
+import {logger} from '../utils/logger';
+import {findVaultForUser, getVault, Vault} from '../vaults/vaultRegistry';
+
+/**
+ * Settings of a group, supergroup or channel the bot captures from, from CHAT_SETTINGS_PATH.
+ * Chats without an entry are ignored; private chats are governed by the users of each vault only.
+ * A relative CHAT_SETTINGS_PATH is resolved against the default (first) vault.
+ *
+ * Example:
+ * [{ "chat": -1001234567890, "name": "research", "vault": "team", "capture": "mention", "folder": "Research/Inbox",
+ *    "tagPrefix": "research/", "allowedMembers": [123456789, "alice"], "admins": [123456789] },
+ *  { "chat": "@some_channel", "capture": "all", "folder": "Channels/{{source_channel}}" }]
+ */
+export interface ChatSettings {
+    chat: number | string; // Chat id, or @username of a public group/channel
+    name?: string;
+    vault?: string; // Id of the vault the notes go to (VAULTS_CONFIG_PATH); the default vault if omitted
+    capture?: 'all' | 'mention'; // 'mention' (default): only messages mentioning the bot, and replies with /save
+    folder?: string; // Vault-relative folder used when no routing rule matches
+    tagPrefix?: string; // Prepended to every generated tag, e.g. "research/"
+    allowedMembers?: (number | string)[]; // User ids or usernames allowed to trigger saves; everyone if omitted
+    admins?: (number | string)[]; // User ids or usernames allowed to manage notes with commands (/undo, /move...); the vault's users if omitted
+}
+
+let cachedSettings: { path: string, mtimeMs: number, settings: ChatSettings[] } | null = null;
+
+// Read synchronously since it is needed while routing updates; re-read whenever the file changes
+function loadChatSettings(): ChatSettings[] {
+    if (!config.CHAT_SETTINGS_PATH) {
+        return [];
+    }
+    const settingsPath = path.resolve(getVault().settings.path, config.CHAT_SETTINGS_PATH);
+    try {
+        const {mtimeMs} = fs.statSync(settingsPath);
+        if (cachedSettings && cachedSettings.path === settingsPath && cachedSettings.mtimeMs === mtimeMs) {
+            return cachedSettings.settings;
+        }
+        const settings = JSON.parse(fs.readFileSync(settingsPath, 'utf8'));
+        if (!Array.isArray(settings)) {
+            throw new Error('Chat settings file must contain a JSON array.');
+        }
+        cachedSettings = {path: settingsPath, mtimeMs, settings};
+        logger.info(`Loaded settings for ${settings.length} group/channel chats from ${settingsPath}`);
+        return settings;
+    } catch (error: any) {
+        logger.error(`Failed to load chat settings from ${settingsPath}, groups and channels are ignored: ${error.message}`);
+        cachedSettings = null;
+        return [];
+    }
+}
+
+function normalize(value: number | string): string {
+    return String(value).trim().replace(/^@/, '').toLowerCase();
+}
+
+export function getChatSettings(chat: TelegramBot.Chat): ChatSettings | undefined {
+    if (chat.type === 'private') {
+        return undefined;
+    }
+    const candidates = [String(chat.id), chat.username].filter((value): value is string => !!value).map(normalize);
+    return loadChatSettings().find(settings => settings.chat !== undefined && candidates.includes(normalize(settings.chat)));
+}
+
+function isListed(members: (number | string)[], user: TelegramBot.User): boolean {
+    const candidates = [String(user.id), user.username].filter((value): value is string => !!value).map(normalize);
+    return members.some(member => candidates.includes(normalize(member)));
+}
+
+export function isMemberAllowed(settings: ChatSettings, user: TelegramBot.User | undefined): boolean {
+    if (!settings.allowedMembers) {
+        return true;
+    }
+    return !!user && isListed(settings.allowedMembers, user);
+}
+
+// Commands that change or reveal notes need more than capture permissions: the chat's admins, or else the vault's own users
+export function isChatAdmin(settings: ChatSettings, user: TelegramBot.User | undefined): boolean {
+    if (!user) {
+        return false;
+    }
+    if (settings.admins) {
+        return isListed(settings.admins, user);
+    }
+    try {
+        return getVault(settings.vault).settings.users.includes(String(user.id));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Vault that messages of a chat go to: the configured vault of a group/channel, or the sender's
+ * own vault in private chats. Undefined if the chat or sender has none (i.e. is not authorized).
+ */
+export function resolveChatVault(chat: TelegramBot.Chat, user: TelegramBot.User | undefined): Vault | undefined {
+    if (chat.type === 'private') {
+        return findVaultForUser(user?.id);
+    }
+    const settings = getChatSettings(chat);
+    if (!settings) {
+        return undefined;
+    }
+    try {
+        return getVault(settings.vault);
+    } catch (error: any) {
+        logger.error(`Chat ${chat.id} is configured with an unknown vault "${settings.vault}"`);
+        return undefined;
+    }
+}
+
+// Link to a message in a group/channel: public chats by username, private supergroups/channels via t.me/c
+export function buildChatMessageLink(chat: TelegramBot.Chat, messageId: number): string | undefined {
+    if (chat.username) {
+        return `https://t.me/${chat.username}/${messageId}`;
+    }
+    if (String(chat.id).startsWith('-100')) {
+        return `https://t.me/c/${String(chat.id).slice(4)}/${messageId}`;
+    }
+    return undefined; // Basic groups have no message links
+}
@@ -0,0 +1,276 @@
+import path from 'path';
+import {Message} from 'node-telegram-bot-api';
+import {bot} from './telegramHandler';
+import {config} from '../config';
+import {logger} from '../utils/logger';
+import {getLastTaskError, getQueueLength, getScheduledRetryCount, retryDeadLetterTask} from '../queue/messageQueue';
+import {getDeadLetterTasks} from '../queue/taskStore';
+import {normalizeTag} from '../obsidian/frontmatter';
+import {findLatestNoteInChat, findNoteByMessage, getUnsharedAssetPaths, removeNoteRecord, SavedNoteRecord} from '../obsidian/noteRegistry';
+import {moveSavedNote, retitleSavedNote, setSavedNoteTags, unlinkSavedNote} from '../obsidian/noteOperations';
+import {appendTasks, findOpenTasks, formatTaskLine, NewTask, parseTaskText} from '../obsidian/taskService';
+import {getVault, Vault} from '../vaults/vaultRegistry';
+import {resolveChatVault} from './chatSettings';
+import {handleSearch} from './searchHandler';
+import {completeVaultTask, sendTaskList} from './reminderService';
+import {cancelReviewOfNote} from './reviewService';
+
+export type CommandHandler = (msg: Message, args: string) => Promise<void>;
+
+const HELP_TEXT = [
+    'Send or forward anything to save it as a note. Commands:',
+    '/undo - delete the last saved note (or the one you reply to) and its assets',
+    '/retitle <new title> - rename the note of the message you reply to',
+    '/tag +tag -tag - add/remove tags on the note of the message you reply to',
+    '/move <folder> - move the last saved note (or the one you reply to) to a vault folder',
+    '/daily <text> - append to today\'s daily note (or reply to a message with /daily)',
+    '/search <words or #tags> - find notes; buttons send a note or its files back',
+    '/remind <when> <what> - add a task with a due date, e.g. /remind Friday call the bank',
+    '/todo <task> - add a task, optionally with a date; both go to the tasks note, or to the note you reply to',
+    '/done [words] - check off a task: the matching one, or pick from the open tasks',
+    '/status - queue length, last sync and last error',
+    '/retry [id] - list messages that failed for good, or queue one again',
+    '/save - in groups: reply to a message to save it',
+    '/help - this message',
+].join('\n');
+
+function formatTime(date: Date | null | undefined): string {
+    return date ? date.toISOString().replace('T', ' ').replace(/\.\d{3}Z$/, ' UTC') : 'never';
+}
+
+async function reply(msg: Message, text: string): Promise<void> {
+    await bot.sendMessage(msg.chat.id, text, {reply_to_message_id: msg.message_id});
+}
+
+// The note a command applies to: the replied-to message's note, or the latest one if allowed
+async function resolveTargetNote(msg: Message, allowLatest: boolean): Promise<SavedNoteRecord | undefined> {
+    if (msg.reply_to_message) {
+        const record = findNoteByMessage(msg.chat.id, msg.reply_to_message.message_id);
+        if (!record) {
+            await reply(msg, 'No saved note found for that message (it may still be processing).');
+        }
+        return record;
+    }
+    if (!allowLatest) {
+        await reply(msg, 'Reply to a saved message to use this command.');
+        return undefined;
+    }
+    const record = findLatestNoteInChat(msg.chat.id);
+    if (!record) {
+        await reply(msg, 'No saved notes yet.');
+    }
+    return record;
+}
+
+async function handleUndo(msg: Message): Promise<void> {
+    const record = await resolveTargetNote(msg, true);
+    if (!record) return;
+
+    const vault = getVault(record.vaultId);
+    const assetPaths = getUnsharedAssetPaths(record); // Assets other notes embed too are kept
+    await cancelReviewOfNote(record);
+    const linkingPaths = await unlinkSavedNote(vault, record);
+    const deletedPaths = await vault.files.deleteVaultFiles([record.notePath, ...assetPaths]);
+    removeNoteRecord(record);
+    if (deletedPaths.length > 0 || linkingPaths.length > 0) {
+        await vault.sync.pushChanges([...deletedPaths, ...linkingPaths], `Remove note: ${record.title.substring(0, 50)}`);
+    }
+    await reply(msg, `🗑 Removed "${record.title}"${assetPaths.length > 0 ? ` and ${assetPaths.length} asset(s)` : ''}.`);
+}
+
+async function handleRetitle(msg: Message, args: string): Promise<void> {
+    const newTitle = args.trim();
+    if (!newTitle) {
+        await reply(msg, 'Usage: reply to a saved message with /retitle <new title>');
+        return;
+    }
+    const record = await resolveTargetNote(msg, false);
+    if (!record) return;
+
+    const vault = getVault(record.vaultId);
+    const changedPaths = await retitleSavedNote(vault, record, newTitle);
+    await vault.sync.pushChanges(changedPaths, `Rename note: ${newTitle.substring(0, 50)}`);
+    await reply(msg, `✏️ Renamed to "${newTitle}".`);
+}
+
+async function handleTag(msg: Message, args: string): Promise<void> {
+    const tokens = args.split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) {
+        await reply(msg, 'Usage: reply to a saved message with /tag +add -remove');
+        return;
+    }
+    const record = await resolveTargetNote(msg, false);
+    if (!record) return;
+
+    const toRemove = tokens.filter(token => token.startsWith('-')).map(token => normalizeTag(token.slice(1)).toLowerCase());
+    const toAdd = tokens.filter(token => !token.startsWith('-')).map(token => normalizeTag(token.replace(/^\+/, ''))).filter(Boolean);
+    const tags = record.hashtags.map(normalizeTag).filter(tag => !toRemove.includes(tag.toLowerCase()));
+    toAdd.forEach(tag => {
+        if (!tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+    });
+
+    const vault = getVault(record.vaultId);
+    const changedPaths = await setSavedNoteTags(vault, record, tags);
+    await vault.sync.pushChanges(changedPaths, `Update tags: ${record.title.substring(0, 50)}`);
+    await reply(msg, `🏷 Tags: ${tags.length > 0 ? tags.map(tag => `#${tag}`).join(' ') : '(none)'}`);
+}
+
+async function handleMove(msg: Message, args: string): Promise<void> {
+    const folder = args.trim();
+    if (!folder) {
+        await reply(msg, 'Usage: /move <folder> (reply to a saved message, or applies to the last note)');
+        return;
+    }
+    const record = await resolveTargetNote(msg, true);
+    if (!record) return;
+
+    const vault = getVault(record.vaultId);
+    const changedPaths = await moveSavedNote(vault, record, folder);
+    if (changedPaths.length === 0) {
+        await reply(msg, `"${record.title}" is already in ${folder}.`);
+        return;
+    }
+    await vault.sync.pushChanges(changedPaths, `Move note: ${record.title.substring(0, 50)} -> ${folder}`);
+    await reply(msg, `📁 Moved "${record.title}" to ${path.dirname(record.notePath)}.`);
+}
+
+// Adds a task to the note of the replied-to message, else to TASKS_NOTE (the latest note if that is empty)
+async function addTask(msg: Message, task: NewTask): Promise<void> {
+    let vault: Vault;
+    let notePath: string;
+    if (msg.reply_to_message || !config.TASKS_NOTE) {
+        const record = await resolveTargetNote(msg, true);
+        if (!record) return;
+        vault = getVault(record.vaultId);
+        notePath = record.notePath;
+    } else {
+        vault = resolveChatVault(msg.chat, msg.from) || getVault();
+        notePath = config.TASKS_NOTE;
+    }
+    const fullPath = await appendTasks(vault, notePath, [formatTaskLine(task)]);
+    await vault.sync.pushChanges([fullPath], `Add task: ${task.text.substring(0, 50)}`);
+    await reply(msg, `☑️ Added to ${vault.files.toRelativePath(fullPath)}: ${task.text}${task.due ? ` (📅 ${task.due})` : ''}`);
+}
+
+async function handleRemind(msg: Message, args: string): Promise<void> {
+    const task = parseTaskText(args);
+    if (!task.text || !task.due) {
+        await reply(msg, 'Usage: /remind <when> <what>, e.g. /remind Friday call the bank or /remind 2026-10-23 renew passport');
+        return;
+    }
+    await addTask(msg, task);
+}
+
+async function handleTodo(msg: Message, args: string): Promise<void> {
+    const task = parseTaskText(args);
+    if (!task.text) {
+        await reply(msg, 'Usage: /todo <task>, optionally with a date, e.g. /todo buy stamps tomorrow');
+        return;
+    }
+    await addTask(msg, task);
+}
+
+// With words, checks off the one open task matching all of them; otherwise lists open tasks with buttons, due ones first
+async function handleDone(msg: Message, args: string): Promise<void> {
+    const vault = resolveChatVault(msg.chat, msg.from) || getVault();
+    const words = args.toLowerCase().split(/\s+/).filter(Boolean);
+    const tasks = (await findOpenTasks(vault.settings))
+        .filter(task => words.every(word => task.description.toLowerCase().includes(word)))
+        .sort((a, b) => (a.due || '9999').localeCompare(b.due || '9999'));
+    if (tasks.length === 0) {
+        await reply(msg, words.length > 0 ? `No open task matches "${args.trim()}".` : 'No open tasks.');
+        return;
+    }
+    if (words.length > 0 && tasks.length === 1) {
+        const [task] = tasks;
+        if (!await completeVaultTask(vault, task)) {
+            await reply(msg, 'That task was just changed, try again.');
+            return;
+        }
+        await reply(msg, `✅ Done: ${task.description}`);
+        return;
+    }
+    await sendTaskList(msg.chat.id, words.length > 0 ? `${tasks.length} open tasks match, pick one:` : 'Open tasks:', tasks, msg.message_id);
+}
+
+// Queue counters cover all vaults; sync status is that of the chat's vault
+async function handleStatus(msg: Message): Promise<void> {
+    const vault = resolveChatVault(msg.chat, msg.from) || getVault();
+    const syncStatus = vault.sync.getSyncStatus();
+    const syncName = vault.sync.name;
+    const lastTaskError = getLastTaskError();
+    const deadLettered = getDeadLetterTasks().length;
+    const lines = [
+        `Vault: ${vault.settings.id} (sync: ${syncName})`,
+        `Queue: ${getQueueLength()} waiting, ${getScheduledRetryCount()} scheduled for retry, ${deadLettered} dead-lettered${deadLettered > 0 ? ' (see /retry)' : ''}`,
+    ];
+    if (syncName !== 'none') {
+        lines.push(`Last ${syncName} push: ${formatTime(syncStatus.lastPushAt)}`);
+    }
+    if (syncName === 'git') {
+        lines.push(`Last git pull: ${formatTime(syncStatus.lastPullAt)}`);
+    }
+    if (syncStatus.lastError) {
+        lines.push(`Last ${syncName} error (${formatTime(syncStatus.lastError.at)}): ${syncStatus.lastError.message.substring(0, 200)}`);
+    }
+    if (lastTaskError) {
+        lines.push(`Last processing error (${formatTime(lastTaskError.at)}, message ${lastTaskError.messageId}): ${lastTaskError.message.substring(0, 200)}`);
+    }
+    await reply(msg, lines.join('\n'));
+}
+
+// Dead-lettered messages of the chat's vault; "/retry <id>" (or the start of the id) queues one again
+async function handleRetry(msg: Message, args: string): Promise<void> {
+    const vault = resolveChatVault(msg.chat, msg.from) || getVault();
+    const tasks = getDeadLetterTasks().filter(entry => (entry.task.vaultId || getVault().settings.id) === vault.settings.id);
+    const id = args.trim();
+    if (!id) {
+        if (tasks.length === 0) {
+            await reply(msg, 'No failed messages.');
+            return;
+        }
+        const lines = tasks.slice(-10).map(entry =>
+            `${entry.id.substring(0, 8)} - message ${entry.task.messageId}, ${entry.attempts} attempt(s): ${(entry.lastError || 'unknown error').substring(0, 100)}`);
+        await reply(msg, [`${tasks.length} failed message(s), retry one with /retry <id>:`, ...lines].join('\n'));
+        return;
+    }
+    const matches = tasks.filter(entry => entry.id.startsWith(id));
+    if (matches.length !== 1) {
+        await reply(msg, matches.length === 0 ? `No failed message with id ${id}.` : `Id ${id} is ambiguous, give more of it.`);
+        return;
+    }
+    retryDeadLetterTask(matches[0].id);
+    await reply(msg, `🔁 Message ${matches[0].task.messageId} is queued again.`);
+}
+
+async function handleHelp(msg: Message): Promise<void> {
+    await reply(msg, HELP_TEXT);
+}
+
+// Commands that change or reveal vault content or sync errors; in groups only for admins (isChatAdmin)
+export const MANAGEMENT_COMMANDS = new Set(['undo', 'retitle', 'tag', 'move', 'status', 'retry', 'search', 'remind', 'todo', 'done']);
+
+export const commandHandlers: Record<string, CommandHandler> = {
+    start: handleHelp,
+    help: handleHelp,
+    undo: handleUndo,
+    retitle: handleRetitle,
+    tag: handleTag,
+    move: handleMove,
+    status: handleStatus,
+    retry: handleRetry,
+    search: handleSearch,
+    remind: handleRemind,
+    todo: handleTodo,
+    done: handleDone,
+};
+
+// Runs a command handler, reporting failures to the chat instead of throwing
+export async function runCommand(handler: CommandHandler, msg: Message, args: string): Promise<void> {
+    try {
+        await handler(msg, args);
+    } catch (error: any) {
+        logger.error(`Command failed in chat ${msg.chat.id}: ${error.message}`, {stack: error.stack});
+        await reply(msg, `❌ Command failed: ${error.message.substring(0, 200)}`).catch(() => undefined);
+    }
+}
@@ -0,0 +1,138 @@
+import path from 'path';
+import TelegramBot, {CallbackQuery} from 'node-telegram-bot-api';
+import {bot} from './telegramHandler';
+import {config, dataPath} from '../config';
+import {logger} from '../utils/logger';
+import {readJsonFile, writeJsonFileAtomic} from '../utils/jsonFile';
+import {completeTask, findOpenTasks, formatTaskDate, VaultTask} from '../obsidian/taskService';
+import {getVaults, Vault} from '../vaults/vaultRegistry';
+import {resolveChatVault} from './chatSettings';
+
+// Reminders: the vaults are scanned for open tasks due today or earlier, and each vault's users
+// get a message listing them with a button per task to check it off. Which tasks were reminded
+// of is persisted, so a restart doesn't send them again.
+
+const CALLBACK_PREFIX = 'td';
+const BUTTON_LIMIT = 10;
+const remindersFile = path.join(dataPath, 'reminders.json');
+
+let reminded: Record<string, string> | null = null; // "vaultId:taskId" -> date the reminder was sent
+let reminderTimer: NodeJS.Timeout | null = null;
+let checking = false;
+
+function getReminded(): Record<string, string> {
+    if (!reminded) {
+        reminded = readJsonFile<Record<string, string>>(remindersFile, {});
+    }
+    return reminded;
+}
+
+function formatTask(task: VaultTask): string {
+    return `${task.description}${task.due ? ` (📅 ${task.due})` : ''}`;
+}
+
+function buildTaskKeyboard(tasks: VaultTask[]): TelegramBot.InlineKeyboardButton[][] {
+    return tasks.slice(0, BUTTON_LIMIT).map(task => [{text: `✅ ${task.description.substring(0, 40)}`, callback_data: `${CALLBACK_PREFIX}:${task.id}`}]);
+}
+
+// A message listing tasks, with a "done" button for each
+export async function sendTaskList(chatId: number, text: string, tasks: VaultTask[], replyToMessageId?: number): Promise<void> {
+    const lines = tasks.slice(0, BUTTON_LIMIT).map(task => `• ${formatTask(task)}\n   ${task.path}`);
+    if (tasks.length > BUTTON_LIMIT) {
+        lines.push(`…and ${tasks.length - BUTTON_LIMIT} more`);
+    }
+    await bot.sendMessage(chatId, [text, ...lines].join('\n'), {
+        reply_to_message_id: replyToMessageId,
+        reply_markup: {inline_keyboard: buildTaskKeyboard(tasks)},
+    });
+}
+
+// Checks the task off in its note and commits; returns false if it was already done or changed
+export async function completeVaultTask(vault: Vault, task: VaultTask): Promise<boolean> {
+    const fullPath = await completeTask(vault, task);
+    if (!fullPath) return false;
+    await vault.sync.pushChanges([fullPath], `Complete task: ${task.description.substring(0, 50)}`);
+    return true;
+}
+
+function isReminderTimeReached(now: Date): boolean {
+    const [hours, minutes] = config.REMINDER_TIME.split(':').map(Number);
+    return now.getHours() * 60 + now.getMinutes() >= hours * 60 + minutes;
+}
+
+async function remindVaultUsers(vault: Vault, today: string): Promise<void> {
+    const state = getReminded();
+    const prefix = `${vault.settings.id}:`;
+    const dueTasks = (await findOpenTasks(vault.settings)).filter(task => task.due && task.due <= today);
+    const dueKeys = new Set(dueTasks.map(task => prefix + task.id));
+    // Completed, changed or deleted tasks are forgotten; a task whose date moves counts as new
+    const forgotten = Object.keys(state).filter(key => key.startsWith(prefix) && !dueKeys.has(key));
+    forgotten.forEach(key => delete state[key]);
+
+    const newTasks = dueTasks.filter(task => !state[prefix + task.id]);
+    if (newTasks.length > 0) {
+        const overdue = newTasks.some(task => task.due! < today);
+        for (const userId of vault.settings.users) {
+            try {
+                await sendTaskList(Number(userId), `⏰ ${overdue ? 'Due tasks' : 'Due today'}:`, newTasks);
+            } catch (error: any) {
+                logger.warn(`Failed to send reminder to user ${userId} of vault "${vault.settings.id}": ${error.message}`);
+            }
+        }
+        newTasks.forEach(task => state[prefix + task.id] = today);
+        logger.info(`Sent reminders for ${newTasks.length} task(s) of vault "${vault.settings.id}" to ${vault.settings.users.length} user(s)`);
+    }
+    if (newTasks.length > 0 || forgotten.length > 0) {
+        writeJsonFileAtomic(remindersFile, state);
+    }
+}
+
+// One scan of every vault; nothing is sent before REMINDER_TIME
+async function checkDueTasks(): Promise<void> {
+    const now = new Date();
+    if (checking || !isReminderTimeReached(now)) return;
+    checking = true;
+    try {
+        for (const vault of getVaults().filter(candidate => candidate.settings.users.length > 0)) {
+            try {
+                await remindVaultUsers(vault, formatTaskDate(now));
+            } catch (error: any) {
+                logger.error(`Reminder check of vault "${vault.settings.id}" failed: ${error.message}`, {stack: error.stack});
+            }
+        }
+    } finally {
+        checking = false;
+    }
+}
+
+export function startReminders(): void {
+    if (!config.REMINDERS || reminderTimer) return;
+    reminderTimer = setInterval(() => void checkDueTasks(), config.REMINDER_CHECK_INTERVAL_MS);
+    void checkDueTasks();
+    logger.info(`Reminders for due tasks from ${config.REMINDER_TIME}, checking every ${Math.round(config.REMINDER_CHECK_INTERVAL_MS / 1000)} s`);
+}
+
+export function stopReminders(): void {
+    if (reminderTimer) {
+        clearInterval(reminderTimer);
+        reminderTimer = null;
+    }
+}
+
+// "Done" button under a reminder or /done list: checks the task off and removes its button
+export async function handleTaskCallback(query: CallbackQuery): Promise<void> {
+    const [, id] = (query.data || '').split(':');
+    const message = query.message;
+    const vault = message ? resolveChatVault(message.chat, query.from) : undefined;
+    const task = vault && (await findOpenTasks(vault.settings)).find(candidate => candidate.id === id);
+    if (!message || !vault || !task || !await completeVaultTask(vault, task)) {
+        await bot.answerCallbackQuery(query.id, {text: 'This task is already done or was changed.'});
+        return;
+    }
+    await bot.answerCallbackQuery(query.id, {text: `✅ Done: ${task.description.substring(0, 150)}`});
+    const keyboard = message.reply_markup?.inline_keyboard
+        .map(row => row.filter(button => button.callback_data !== query.data))
+        .filter(row => row.length > 0) || [];
+    await bot.editMessageReplyMarkup({inline_keyboard: keyboard}, {chat_id: message.chat.id, message_id: message.message_id})
+        .catch((error: any) => logger.debug(`Could not update task buttons: ${error.message}`));
+}
@@ -0,0 +1,277 @@
+import path from 'path';
+import crypto from 'crypto';
+import TelegramBot, {CallbackQuery, Message} from 'node-telegram-bot-api';
+import {bot} from './telegramHandler';
+import {config, dataPath} from '../config';
+import {logger} from '../utils/logger';
+import {readJsonFile, writeJsonFileAtomic} from '../utils/jsonFile';
+import {generateNoteMetadata} from '../ai/aiService';
+import {findNoteByMessage, SavedNoteRecord} from '../obsidian/noteRegistry';
+import {normalizeTag} from '../obsidian/frontmatter';
+import {retitleSavedNote, setSavedNoteTags} from '../obsidian/noteOperations';
+import {prefixTags} from '../obsidian/tagVocabulary';
+import {updateSearchIndex} from '../obsidian/searchIndex';
+import {PendingCommit, QueueTask} from '../queue/taskTypes';
+import {getVault, Vault} from '../vaults/vaultRegistry';
+
+// Review mode: the note is written to the vault right away, but only committed once the user
+// accepts the AI title/tags (or REVIEW_TIMEOUT_MS passes). Reviews are persisted so a restart
+// doesn't leave notes uncommitted.
+
+interface PendingReview {
+    id: string;
+    vaultId?: string; // Vault the note was saved to
+    chatId: number;
+    messageId: number; // Message the note was created from
+    reviewMessageId?: number; // Bot message carrying the inline keyboard
+    pendingCommit: PendingCommit;
+    aiInput: string; // Text sent to the model, for "Regenerate"
+    aiInstructions?: string; // From the prompt note used for the note
+    tagPrefix?: string; // Group/channel tag prefix applied to regenerated tags
+    expiresAt: number; // ms timestamp
+}
+
+const CALLBACK_PREFIX = 'rv';
+const reviewsFile = path.join(dataPath, 'pending-reviews.json');
+
+let reviews: PendingReview[] | null = null;
+const reviewTimers = new Map<string, NodeJS.Timeout>();
+const titlePrompts = new Map<number, string>(); // "Edit title" prompt message id -> review id
+
+function getReviews(): PendingReview[] {
+    if (!reviews) {
+        reviews = readJsonFile<PendingReview[]>(reviewsFile, []);
+    }
+    return reviews;
+}
+
+function saveReviews(): void {
+    writeJsonFileAtomic(reviewsFile, getReviews());
+}
+
+function findReview(id: string): PendingReview | undefined {
+    return getReviews().find(review => review.id === id);
+}
+
+function removeReview(review: PendingReview): void {
+    reviews = getReviews().filter(existing => existing.id !== review.id);
+    saveReviews();
+    const timer = reviewTimers.get(review.id);
+    if (timer) {
+        clearTimeout(timer);
+        reviewTimers.delete(review.id);
+    }
+}
+
+function scheduleTimeout(review: PendingReview): void {
+    const existing = reviewTimers.get(review.id);
+    if (existing) clearTimeout(existing);
+    const timer = setTimeout(() => {
+        reviewTimers.delete(review.id);
+        finalizeReview(review, 'timeout').catch(error => logger.error(`[Review] Auto-accept of review ${review.id} failed: ${error.message}`));
+    }, Math.max(0, review.expiresAt - Date.now()));
+    reviewTimers.set(review.id, timer);
+}
+
+function renderReview(review: PendingReview, record: SavedNoteRecord): { text: string, options: TelegramBot.EditMessageTextOptions } {
+    const tags = record.hashtags.map(normalizeTag);
+    const text = [
+        '📝 Review the saved note:',
+        `Title: ${record.title}`,
+        `Tags: ${tags.length > 0 ? tags.map(tag => `#${tag}`).join(' ') : '(none)'}`,
+        `Auto-accepted in ${Math.max(1, Math.round((review.expiresAt - Date.now()) / 60000))} min.`,
+    ].join('\n');
+
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = [
+        [
+            {text: '✅ Accept', callback_data: `${CALLBACK_PREFIX}:${review.id}:ok`},
+            {text: '🔄 Regenerate', callback_data: `${CALLBACK_PREFIX}:${review.id}:re`},
+        ],
+        [{text: '✏️ Edit title', callback_data: `${CALLBACK_PREFIX}:${review.id}:et`}],
+    ];
+    for (let i = 0; i < tags.length; i += 3) {
+        keyboard.push(tags.slice(i, i + 3).map((tag, offset) => ({
+            text: `❌ #${tag}`,
+            callback_data: `${CALLBACK_PREFIX}:${review.id}:rt:${i + offset}`,
+        })));
+    }
+    return {text, options: {chat_id: review.chatId, message_id: review.reviewMessageId, reply_markup: {inline_keyboard: keyboard}}};
+}
+
+async function refreshReviewMessage(review: PendingReview, record: SavedNoteRecord): Promise<void> {
+    const {text, options} = renderReview(review, record);
+    await bot.editMessageText(text, options);
+}
+
+// Tracks files changed by review actions so the final commit includes them
+function addChangedPaths(review: PendingReview, changedPaths: string[]): void {
+    review.pendingCommit.filePaths = Array.from(new Set([...review.pendingCommit.filePaths, ...changedPaths]));
+    saveReviews();
+}
+
+async function finalizeReview(review: PendingReview, reason: 'accepted' | 'timeout'): Promise<void> {
+    const record = findNoteByMessage(review.chatId, review.messageId);
+    const title = record?.title || 'note';
+    try {
+        updateSearchIndex(getVault(review.vaultId).settings, review.pendingCommit.filePaths);
+        // The title may have changed during review, so the commit message is built from the current one
+        await getVault(review.vaultId).sync.pushChanges(review.pendingCommit.filePaths, `Add note: ${title.substring(0, 50)}${title.length > 50 ? '...' : ''}`);
+    } catch (error: any) {
+        // Keep the review so the commit is attempted again on the next Accept or timeout
+        logger.error(`[Review] Commit for review ${review.id} failed: ${error.message}`);
+        review.expiresAt = Date.now() + config.REVIEW_TIMEOUT_MS;
+        saveReviews();
+        scheduleTimeout(review);
+        await bot.sendMessage(review.chatId, `❌ Failed to commit "${title}": ${error.message.substring(0, 100)}. Will retry.`);
+        return;
+    }
+    removeReview(review);
+    logger.info(`[Review] Review ${review.id} ${reason}, note committed.`);
+    if (review.reviewMessageId) {
+        const prefix = reason === 'accepted' ? '✅ Saved' : '⏱ Auto-accepted';
+        await bot.editMessageText(`${prefix}: ${title}`, {chat_id: review.chatId, message_id: review.reviewMessageId})
+            .catch((error: any) => logger.warn(`[Review] Failed to update review message: ${error.message}`));
+    }
+}
+
+export async function startReview(vault: Vault, task: QueueTask, pendingCommit: PendingCommit, aiInput: string, aiInstructions?: string): Promise<void> {
+    const record = findNoteByMessage(task.chatId, task.messageId);
+    if (!record) {
+        throw new Error(`No saved note for messageId ${task.messageId}`);
+    }
+    const review: PendingReview = {
+        id: crypto.randomBytes(4).toString('hex'), // Short, callback_data is limited to 64 bytes
+        vaultId: vault.settings.id,
+        chatId: task.chatId,
+        messageId: task.messageId,
+        pendingCommit,
+        aiInput,
+        aiInstructions,
+        tagPrefix: task.tagPrefix,
+        expiresAt: Date.now() + config.REVIEW_TIMEOUT_MS,
+    };
+    getReviews().push(review);
+    saveReviews();
+
+    const {text, options} = renderReview(review, record);
+    let sent: Message;
+    try {
+        sent = await bot.sendMessage(task.chatId, text, {reply_markup: options.reply_markup, reply_to_message_id: task.messageId});
+    } catch (error) {
+        removeReview(review); // Caller commits directly instead
+        throw error;
+    }
+    review.reviewMessageId = sent.message_id;
+    saveReviews();
+    scheduleTimeout(review);
+    logger.info(`[Review] Waiting for review ${review.id} of "${record.title}"`);
+}
+
+export async function handleReviewCallback(query: CallbackQuery): Promise<void> {
+    const [, reviewId, action, argument] = (query.data || '').split(':');
+    const review = findReview(reviewId);
+    const record = review && findNoteByMessage(review.chatId, review.messageId);
+    if (!review || !record) {
+        await bot.answerCallbackQuery(query.id, {text: 'This review is no longer pending.'});
+        return;
+    }
+
+    const vault = getVault(review.vaultId);
+    switch (action) {
+        case 'ok':
+            await bot.answerCallbackQuery(query.id, {text: 'Saving...'});
+            await finalizeReview(review, 'accepted');
+            return;
+        case 're': {
+            await bot.answerCallbackQuery(query.id, {text: 'Regenerating...'});
+            // Only title and tags are reviewed; the summary stays as it is
+            const metadata = await generateNoteMetadata(vault.settings, review.aiInput, undefined, {instructions: review.aiInstructions, summarize: false, detectTasks: false});
+            if (metadata.title !== record.title) {
+                addChangedPaths(review, await retitleSavedNote(vault, record, metadata.title));
+            }
+            addChangedPaths(review, await setSavedNoteTags(vault, record, prefixTags(metadata.hashtags, review.tagPrefix)));
+            await refreshReviewMessage(review, record);
+            return;
+        }
+        case 'et': {
+            await bot.answerCallbackQuery(query.id);
+            const prompt = await bot.sendMessage(review.chatId, `Reply with the new title for "${record.title}":`, {reply_markup: {force_reply: true}});
+            titlePrompts.set(prompt.message_id, review.id);
+            return;
+        }
+        case 'rt': {
+            const index = parseInt(argument, 10);
+            const tag = record.hashtags[index];
+            if (tag === undefined) {
+                await bot.answerCallbackQuery(query.id, {text: 'Tag already removed.'});
+                return;
+            }
+            await bot.answerCallbackQuery(query.id, {text: `Removed ${tag}`});
+            addChangedPaths(review, await setSavedNoteTags(vault, record, record.hashtags.filter((_, i) => i !== index)));
+            await refreshReviewMessage(review, record);
+            return;
+        }
+        default:
+            await bot.answerCallbackQuery(query.id, {text: 'Unknown action.'});
+    }
+}
+
+// Handles the reply to an "Edit title" prompt; returns false if the message is not such a reply
+export function handleTitleReply(msg: Message): boolean {
+    const reviewId = msg.reply_to_message && titlePrompts.get(msg.reply_to_message.message_id);
+    if (!reviewId) {
+        return false;
+    }
+    titlePrompts.delete(msg.reply_to_message!.message_id);
+    const review = findReview(reviewId);
+    const record = review && findNoteByMessage(review.chatId, review.messageId);
+    const newTitle = (msg.text || '').trim();
+    if (!review || !record || !newTitle) {
+        bot.sendMessage(msg.chat.id, 'This review is no longer pending.');
+        return true;
+    }
+    retitleSavedNote(getVault(review.vaultId), record, newTitle)
+        .then(changedPaths => {
+            addChangedPaths(review, changedPaths);
+            return refreshReviewMessage(review, record);
+        })
+        .catch((error: any) => {
+            logger.error(`[Review] Failed to retitle note for review ${review.id}: ${error.message}`);
+            bot.sendMessage(msg.chat.id, `❌ Failed to rename the note: ${error.message.substring(0, 100)}`);
+        });
+    return true;
+}
+
+// /undo of a note still under review: drops the review, so accepting or timing it out can't commit the deleted files
+export async function cancelReviewOfNote(record: SavedNoteRecord): Promise<void> {
+    const review = getReviews().find(candidate => candidate.chatId === record.chatId && record.messageIds.includes(candidate.messageId));
+    if (!review) return;
+    removeReview(review);
+    logger.info(`[Review] Review ${review.id} cancelled, note removed.`);
+    if (review.reviewMessageId) {
+        await bot.editMessageText(`🗑 Removed: ${record.title}`, {chat_id: review.chatId, message_id: review.reviewMessageId})
+            .catch((error: any) => logger.warn(`[Review] Failed to update review message: ${error.message}`));
+    }
+}
+
+// Files of notes still waiting for review in a vault (full paths); they must not be committed yet
+export function getPendingReviewFilePaths(vaultId: string): string[] {
+    const defaultVaultId = getVault().settings.id;
+    return getReviews()
+        .filter(review => (review.vaultId || defaultVaultId) === vaultId)
+        .flatMap(review => review.pendingCommit.filePaths);
+}
+
+// Re-arms timeouts for reviews left over from a previous run
+export function restorePendingReviews(): void {
+    const pending = getReviews();
+    if (pending.length > 0) {
+        logger.info(`[Review] Restoring ${pending.length} pending review(s).`);
+    }
+    pending.forEach(review => scheduleTimeout(review));
+}
+
+export function stopReviewTimers(): void {
+    reviewTimers.forEach(timer => clearTimeout(timer));
+    reviewTimers.clear();
+}
@@ -0,0 +1,169 @@
+import path from 'path';
+import fs from 'fs/promises';
+import TelegramBot, {CallbackQuery, InlineQuery, Message} from 'node-telegram-bot-api';
+import {bot} from './telegramHandler';
+import {config} from '../config';
+import {parseFrontmatter} from '../obsidian/frontmatter';
+import {findNotePathById, getNotePathId, searchVault, SearchResult} from '../obsidian/searchIndex';
+import {findVaultForUser, Vault} from '../vaults/vaultRegistry';
+import {getChatSettings, isChatAdmin, resolveChatVault} from './chatSettings';
+
+const CALLBACK_PREFIX = 'sr';
+const MESSAGE_LIMIT = 4000; // Telegram allows 4096 characters; longer notes are sent as a file
+const INLINE_RESULT_LIMIT = 20;
+const ASSET_LIMIT = 10;
+const PHOTO_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp']);
+
+function formatResult(result: SearchResult, index: number): string {
+    const tags = result.tags.length > 0 ? ` · ${result.tags.map(tag => `#${tag}`).join(' ')}` : '';
+    return [`${index + 1}. ${result.title}`, `   ${result.path}${tags}`, result.snippet ? `   ${result.snippet}` : ''].filter(Boolean).join('\n');
+}
+
+// The vault a user may search from a chat: their own in private chats, the chat's vault in groups for its admins only
+function resolveSearchVault(chat: TelegramBot.Chat, user: TelegramBot.User | undefined): Vault | undefined {
+    const settings = getChatSettings(chat);
+    if (settings && !isChatAdmin(settings, user)) {
+        return undefined;
+    }
+    return resolveChatVault(chat, user);
+}
+
+export async function handleSearch(msg: Message, args: string): Promise<void> {
+    const query = args.trim();
+    if (!query) {
+        await bot.sendMessage(msg.chat.id, 'Usage: /search <words or #tags>', {reply_to_message_id: msg.message_id});
+        return;
+    }
+    const vault = resolveSearchVault(msg.chat, msg.from);
+    if (!vault) {
+        await bot.sendMessage(msg.chat.id, 'You are not allowed to search this vault.', {reply_to_message_id: msg.message_id});
+        return;
+    }
+    const results = await searchVault(vault.settings, query, config.SEARCH_RESULT_LIMIT);
+    if (results.length === 0) {
+        await bot.sendMessage(msg.chat.id, `🔎 No notes found for "${query}".`, {reply_to_message_id: msg.message_id});
+        return;
+    }
+
+    const text = [`🔎 ${results.length} note(s) for "${query}":`, ...results.map(formatResult)].join('\n\n');
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = results.map((result, index) => {
+        const id = getNotePathId(result.path);
+        return [
+            {text: `📄 ${index + 1}. ${result.title.substring(0, 40)}`, callback_data: `${CALLBACK_PREFIX}:${id}:note`},
+            {text: '📎 Files', callback_data: `${CALLBACK_PREFIX}:${id}:assets`},
+        ];
+    });
+    await bot.sendMessage(msg.chat.id, text.substring(0, MESSAGE_LIMIT), {
+        reply_to_message_id: msg.message_id,
+        reply_markup: {inline_keyboard: keyboard},
+    });
+}
+
+// Files embedded in a note (![[name]] or ![](path)), resolved like Obsidian: assets folder, note folder, vault root
+async function findEmbeddedAssets(vault: Vault, notePath: string, content: string): Promise<string[]> {
+    const targets = [
+        ...Array.from(content.matchAll(/!\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]/g), match => match[1].trim()),
+        ...Array.from(content.matchAll(/!\[[^\]]*\]\(<?([^)>\s]+)>?(?:\s+"[^"]*")?\)/g), match => decodeURI(match[1])),
+    ].filter(target => !/^https?:/i.test(target) && path.extname(target) && path.extname(target) !== '.md');
+
+    const found: string[] = [];
+    for (const target of Array.from(new Set(targets))) {
+        const candidates = [path.join(vault.settings.assetsFolder, target), path.join(path.dirname(notePath), target), target];
+        for (const candidate of candidates) {
+            try {
+                const fullPath = vault.files.resolveVaultPath(candidate);
+                await fs.access(fullPath);
+                found.push(fullPath);
+                break;
+            } catch {
+                // Outside the vault or not there; try the next location
+            }
+        }
+    }
+    return found;
+}
+
+async function sendNote(chatId: number, vault: Vault, notePath: string): Promise<void> {
+    const fullPath = vault.files.resolveVaultPath(notePath);
+    const content = await fs.readFile(fullPath, 'utf8');
+    const body = parseFrontmatter(content).body.trim();
+    const text = `📄 ${notePath}\n\n${body}`;
+    if (text.length <= MESSAGE_LIMIT) {
+        await bot.sendMessage(chatId, text, {disable_web_page_preview: true});
+        return;
+    }
+    await bot.sendDocument(chatId, Buffer.from(content, 'utf8'), {caption: notePath.substring(0, 1000)}, {
+        filename: path.basename(notePath),
+        contentType: 'text/markdown',
+    });
+}
+
+async function sendAssets(chatId: number, vault: Vault, notePath: string): Promise<number> {
+    const content = await fs.readFile(vault.files.resolveVaultPath(notePath), 'utf8');
+    const assets = (await findEmbeddedAssets(vault, notePath, content)).slice(0, ASSET_LIMIT);
+    for (const asset of assets) {
+        const fileOptions = {filename: path.basename(asset), contentType: 'application/octet-stream'};
+        const buffer = await fs.readFile(asset);
+        if (PHOTO_EXTENSIONS.has(path.extname(asset).toLowerCase())) {
+            await bot.sendPhoto(chatId, buffer, {}, fileOptions);
+        } else {
+            await bot.sendDocument(chatId, buffer, {}, fileOptions);
+        }
+    }
+    return assets.length;
+}
+
+// Buttons under a /search result: send the note's text or its embedded files
+export async function handleSearchCallback(query: CallbackQuery): Promise<void> {
+    const [, id, action] = (query.data || '').split(':');
+    const chat = query.message?.chat;
+    const vault = chat ? resolveSearchVault(chat, query.from) : undefined;
+    if (chat && !vault) {
+        await bot.answerCallbackQuery(query.id, {text: 'You are not allowed to do this.'});
+        return;
+    }
+    const notePath = vault && await findNotePathById(vault.settings, id);
+    if (!chat || !vault || !notePath) {
+        await bot.answerCallbackQuery(query.id, {text: 'This note no longer exists.'});
+        return;
+    }
+
+    if (action === 'note') {
+        await bot.answerCallbackQuery(query.id);
+        await sendNote(chat.id, vault, notePath);
+        return;
+    }
+    if (action === 'assets') {
+        await bot.answerCallbackQuery(query.id);
+        const count = await sendAssets(chat.id, vault, notePath);
+        if (count === 0) {
+            await bot.sendMessage(chat.id, `No files embedded in ${notePath}.`);
+        }
+        return;
+    }
+    await bot.answerCallbackQuery(query.id, {text: 'Unknown action.'});
+}
+
+// "@bot query" in any chat: picking a result posts the note's text there
+export async function handleInlineQuery(query: InlineQuery): Promise<void> {
+    const vault = findVaultForUser(query.from.id);
+    const text = query.query.trim();
+    if (!vault || !text) {
+        await bot.answerInlineQuery(query.id, [], {cache_time: 0, is_personal: true});
+        return;
+    }
+
+    const results = await searchVault(vault.settings, text, INLINE_RESULT_LIMIT);
+    const articles: TelegramBot.InlineQueryResultArticle[] = await Promise.all(results.map(async result => {
+        const content = await fs.readFile(vault.files.resolveVaultPath(result.path), 'utf8').catch(() => '');
+        const body = parseFrontmatter(content).body.trim() || result.title;
+        return {
+            type: 'article' as const,
+            id: getNotePathId(result.path),
+            title: result.title,
+            description: result.snippet || result.path,
+            input_message_content: {message_text: body.substring(0, MESSAGE_LIMIT), disable_web_page_preview: true},
+        };
+    }));
+    await bot.answerInlineQuery(query.id, articles, {cache_time: 10, is_personal: true});
+}
@@ -1,17 +1,41 @@
-import TelegramBot, {Message} from 'node-telegram-bot-api';
+import TelegramBot, {CallbackQuery, InlineQuery, Message} from 'node-telegram-bot-api';
 import {config} from '../config';
 import {logger} from '../utils/logger';
 import {Request, Response} from 'express';
 import {enqueueTask} from '../queue/messageQueue'; // Import enqueueTask
-import {QueueTask, MediaInfo} from '../queue/taskTypes'; // Import task types
+import {QueueTask, MediaInfo, ForwardSource, TextEntity} from '../queue/taskTypes'; // Import task types
+import {commandHandlers, MANAGEMENT_COMMANDS, runCommand} from './commands';
+import {handleReviewCallback, handleTitleReply} from './reviewService';
+import {handleInlineQuery, handleSearchCallback} from './searchHandler';
+import {handleTaskCallback} from './reminderService';
+import {buildChatMessageLink, ChatSettings, getChatSettings, isChatAdmin, isMemberAllowed, resolveChatVault} from './chatSettings';
+import {findVaultForUser} from '../vaults/vaultRegistry';
+import {startPolling, stopPolling} from './updatePoller';
 
 let bot: TelegramBot;
+let botUser: TelegramBot.User | undefined; // Needed to recognise mentions in groups
+
+// Albums arrive as separate messages sharing a media_group_id; they are buffered and merged into one task
+interface PendingMediaGroup {
+    task: QueueTask; // First item received; carries chat, sender and forward info
+    items: { messageId: number, media: MediaInfo[] }[];
+    capture: boolean; // In groups capturing only mentions: whether any item mentioned the bot
+    timer: NodeJS.Timeout;
+}
+const pendingMediaGroups = new Map<string, PendingMediaGroup>();
 
-// --- initializeBot and handleWebhook remain the same ---
 export async function initializeBot(): Promise<void> {
     logger.info('Initializing Telegram Bot...');
     bot = new TelegramBot(config.TELEGRAM_BOT_TOKEN);
 
+    if (config.BOT_MODE === 'polling') {
+        botUser = await bot.getMe();
+        logger.info(`Bot identity: @${botUser.username} (${botUser.id})`);
+        attachMessageListener();
+        await startPolling(bot, dispatchUpdate);
+        return;
+    }
+
     const webhookUrl = config.SERVER_URL; // This includes the full path with token
     logger.info(`Setting webhook URL to: ${webhookUrl}`);
 
@@ -42,6 +66,9 @@ export async function initializeBot(): Promise<void> {
             logger.error('Telegram Webhook Error:', {code: error.name, message: error.message});
         });
 
+        botUser = await bot.getMe();
+        logger.info(`Bot identity: @${botUser.username} (${botUser.id})`);
+
         // --- Attach message listener HERE ---
         attachMessageListener();
 
@@ -52,23 +79,15 @@ export async function initializeBot(): Promise<void> {
     }
 }
 
-export function handleWebhook(req: Request, res: Response): void {
-    const update: TelegramBot.Update = req.body;
-    logger.debug('Received update:', update); // Log the raw update in debug mode
-
-    if (config.ALLOWED_USER_IDS) {
-        const userId = update.message?.from?.id;
-        if (!userId || !config.ALLOWED_USER_IDS.includes(userId.toString())) {
-            logger.warn(`Unauthorized user tried to access: ${userId}. Message: ${update.message?.text}`);
-            if (userId)
-                bot.sendMessage(userId, `Please contact the admin (@paneelmaja) to get access.`);
-            res.sendStatus(200); // Acknowledge receipt to Telegram quickly
-            return;
-        }
+export function stopBot(): void {
+    if (config.BOT_MODE === 'polling') {
+        stopPolling();
     }
+}
 
+export function handleWebhook(req: Request, res: Response): void {
     try {
-        bot.processUpdate(update);
+        dispatchUpdate(req.body);
         res.sendStatus(200); // Acknowledge receipt to Telegram quickly
     } catch (error: any) {
         logger.error('Error processing update in bot instance:', {error: error.message, stack: error.stack});
@@ -76,6 +95,40 @@ export function handleWebhook(req: Request, res: Response): void {
     }
 }
 
+// Drops updates from unauthorized users and unconfigured groups, hands the rest to the bot's listeners
+function dispatchUpdate(update: TelegramBot.Update): void {
+    logger.debug('Received update:', update); // Log the raw update in debug mode
+
+    // Groups and channels are authorized by their chat settings; members are checked per message
+    const groupChat = (update.message || update.edited_message || update.channel_post || update.edited_channel_post || update.callback_query?.message)?.chat;
+    if (groupChat && groupChat.type !== 'private') {
+        const settings = getChatSettings(groupChat);
+        if (!settings || !resolveChatVault(groupChat, undefined)) {
+            logger.info(`Ignoring update from unconfigured ${groupChat.type}: ${groupChat.id} (${groupChat.title || 'No Title'})`);
+            return;
+        }
+        // Search results and task buttons act on the vault like their commands do
+        const callbackPrefix = update.callback_query?.data?.split(':')[0];
+        if (update.callback_query && (!isMemberAllowed(settings, update.callback_query.from)
+            || ((callbackPrefix === 'sr' || callbackPrefix === 'td') && !isChatAdmin(settings, update.callback_query.from)))) {
+            bot.answerCallbackQuery(update.callback_query.id, {text: 'You are not allowed to do this.'}).catch(() => undefined);
+            return;
+        }
+    } else {
+        // Private chats: only users that have a vault
+        const message = update.message || update.edited_message;
+        const userId = message?.from?.id || update.callback_query?.from?.id || update.inline_query?.from?.id;
+        if (!userId || !findVaultForUser(userId)) {
+            logger.warn(`Unauthorized user tried to access: ${userId}. Message: ${message?.text}`);
+            if (userId && !update.inline_query)
+                bot.sendMessage(userId, `Please contact the admin (@paneelmaja) to get access.`);
+            return;
+        }
+    }
+
+    bot.processUpdate(update);
+}
+
 // --- Message Processing Logic ---
 
 function attachMessageListener(): void {
@@ -84,102 +137,407 @@ function attachMessageListener(): void {
         const messageId = msg.message_id;
         logger.info(`Received message from chat ID: ${chatId}`, {messageId: messageId, type: msg.chat.type});
 
-        // Ignore messages from groups/channels unless configured otherwise
+        // Groups are only captured when configured in CHAT_SETTINGS_PATH
         if (msg.chat.type !== 'private') {
-            logger.info(`Ignoring message from non-private chat: ${msg.chat.id} (${msg.chat.title || 'No Title'})`);
-            // Optionally reply or handle group messages differently
-            // bot.sendMessage(chatId, "Sorry, I currently only process messages in private chats.");
+            handleGroupMessage(msg);
             return;
         }
 
-        // --- Parse Message Content ---
-        let textContent: string | undefined = msg.text || msg.caption;
-        let mediaInfo: MediaInfo | undefined = undefined;
-        let forwardSourceLink: string | undefined = undefined;
+        // Replies to an "Edit title" prompt from review mode
+        if (handleTitleReply(msg)) {
+            return;
+        }
 
-        // Identify Media (prioritize photo/video over document if caption exists)
-        if (msg.photo) {
-            // Get the largest photo
-            const photo = msg.photo[msg.photo.length - 1];
-            mediaInfo = {
-                fileId: photo.file_id,
-                fileName: `photo_${messageId}.jpg`, // Create a generic filename
-                type: 'photo',
-            };
-        } else if (msg.video) {
-            mediaInfo = {
-                fileId: msg.video.file_id,
-                fileName: `video_${messageId}_${msg.video.file_id}.${msg.video.mime_type?.split('/')[1] || 'mp4'}`,
-                mimeType: msg.video.mime_type,
-                type: 'video',
-            };
-        } else if (msg.document) {
-            // Only treat as media if there's no text content (or maybe allowlist certain document types)
-            // Avoid saving random documents unless explicitly intended.
-            if (!textContent || (msg.document.mime_type?.startsWith('image/') || msg.document.mime_type?.startsWith('video/'))) {
-                mediaInfo = {
-                    fileId: msg.document.file_id,
-                    fileName: msg.document.file_name || `document_${messageId}`,
-                    mimeType: msg.document.mime_type,
-                    type: 'document',
-                };
-            } else {
-                logger.info(`Ignoring document '${msg.document.file_name}' as text content is present.`);
-            }
-
-        }
-
-        // Check for Forwarded Message
-        if (msg.forward_from_chat) {
-            // Try to construct a source link (best effort)
-            if (msg.forward_from_chat?.type === 'channel' && msg.forward_from_chat?.username && msg.forward_from_chat.id) {
-                forwardSourceLink = `https://t.me/${msg.forward_from_chat.username}/${msg.forward_from_message_id}`;
-            } else if (msg.forward_from_chat?.type === 'private') {
-                const name = `${msg.forward_from_chat.first_name || ''} ${msg.forward_from_chat.last_name || ''}`.trim();
-                const username = msg.forward_from_chat.username ? `@${msg.forward_from_chat.username}` : '';
-                forwardSourceLink = `Forwarded from ${name} (${username || 'private chat'})`.trim();
-            } else if (msg.forward_from_chat?.type === 'group') { // public group?
-                forwardSourceLink = `Forwarded from group ${msg.forward_from_chat.title || msg.forward_from_chat.id}`;
-            }
-            // Add more cases if needed (user, private group - no link possible)
-            logger.info(`Message is forwarded. Source link generated: ${forwardSourceLink || 'Not available'}`);
-        }
-
-
-        // --- Create Task Object ---
-        const task: QueueTask = {
-            chatId: chatId,
-            messageId: messageId,
-            text: textContent,
-            media: mediaInfo,
-            forwardSourceLink: forwardSourceLink,
-            userId: msg.from?.id,
-            username: msg.from?.username || `${msg.from?.first_name || ''} ${msg.from?.last_name || ''}`.trim(),
-            messageDate: msg.forward_date || msg.edit_date || msg.date,
-        };
+        // A note the user just posted via inline search is already in the vault
+        if ((msg as Message & { via_bot?: TelegramBot.User }).via_bot?.id === botUser?.id) {
+            return;
+        }
 
-        // --- Enqueue Task ---
+        // Commands are handled right away and never become notes
+        const command = parseCommand(msg);
+        if (command?.name === 'daily') {
+            submitDailyCapture(msg, command.args);
+            return;
+        }
+        if (command) {
+            routeCommand(msg, command.name, command.args);
+            return;
+        }
+
+        const task = buildTaskFromMessage(msg);
+
+        if (msg.media_group_id) {
+            bufferMediaGroupMessage(msg.media_group_id, task);
+            return;
+        }
+
+        submitTask(task);
+    });
+
+    bot.on('channel_post', (msg: Message) => {
+        logger.info(`Received channel post from chat ID: ${msg.chat.id}`, {messageId: msg.message_id});
+        handleGroupMessage(msg);
+    });
+
+    const handleEdit = (msg: Message) => {
+        logger.info(`Received edit of message ${msg.message_id} in chat ID: ${msg.chat.id}`);
+        const settings = getChatSettings(msg.chat);
+        if (msg.chat.type !== 'private' && (!settings || (msg.chat.type !== 'channel' && !isMemberAllowed(settings, msg.from)))) {
+            return;
+        }
         try {
-            enqueueTask(task);
-            // Optional: Send immediate feedback
-            // bot.sendMessage(chatId, `Got it! Adding message ${messageId} to the processing queue.`);
-            // @ts-expect-error: setMessageReaction is not in the type definitions
-            bot.setMessageReaction(chatId, messageId, {reaction: [{type: 'emoji', emoji: '💯'}]});
+            // The queue keeps edits in order with the message that created the note; edits of uncaptured messages are ignored there
+            enqueueTask({...buildTaskFromMessage(msg, settings), isEdit: true});
         } catch (error: any) {
-            logger.error(`Failed to enqueue task for message ${messageId}: ${error.message}`, {stack: error.stack});
-            bot.sendMessage(chatId, `❌ Sorry, there was an error adding your message ${messageId} to the queue.`);
+            logger.error(`Failed to enqueue edit of message ${msg.message_id}: ${error.message}`, {stack: error.stack});
+        }
+    };
+    bot.on('edited_message', handleEdit);
+    bot.on('edited_channel_post', handleEdit);
+
+    bot.on('callback_query', (query: CallbackQuery) => {
+        const callbackHandlers: Record<string, (query: CallbackQuery) => Promise<void>> = {rv: handleReviewCallback, sr: handleSearchCallback, td: handleTaskCallback};
+        const handler = callbackHandlers[query.data?.split(':')[0] || ''];
+        if (!handler) {
+            bot.answerCallbackQuery(query.id);
+            return;
         }
+        handler(query).catch((error: any) => {
+            logger.error(`Failed to handle button action: ${error.message}`, {stack: error.stack});
+            bot.answerCallbackQuery(query.id, {text: `Failed: ${error.message.substring(0, 100)}`}).catch(() => undefined);
+        });
+    });
+
+    bot.on('inline_query', (query: InlineQuery) => {
+        handleInlineQuery(query).catch((error: any) => {
+            // No chat to report to; an empty answer at least stops the client's spinner
+            logger.error(`Inline search failed: ${error.message}`, {stack: error.stack});
+            bot.answerInlineQuery(query.id, [], {cache_time: 0}).catch(() => undefined);
+        });
     });
 
-    // Add listeners for other events if needed (e.g., 'edited_message')
     bot.on('polling_error', (error) => {
-        // This shouldn't happen with webhooks, but good to have
-        logger.error('Polling Error (should not occur with webhook):', error);
+        // The library's own polling is never started (see updatePoller), but good to have
+        logger.error('Polling Error:', error);
     });
 }
 
-// Remove webhook on exit
-process.on('SIGINT', async () => {
+// Whether a group message addresses the bot: an @mention or a text_mention of the bot user
+function mentionsBot(msg: Message): boolean {
+    if (!botUser) return false;
+    const text = msg.text || msg.caption || '';
+    return (msg.entities || msg.caption_entities || []).some(entity =>
+        (entity.type === 'mention' && text.substring(entity.offset + 1, entity.offset + entity.length).toLowerCase() === botUser!.username?.toLowerCase())
+        || (entity.type === 'text_mention' && entity.user?.id === botUser!.id));
+}
+
+// Removes the bot mention so it doesn't end up in the note; entities after it are shifted accordingly
+function stripBotMention(task: QueueTask): QueueTask {
+    const mention = `@${botUser?.username}`;
+    const index = task.text?.toLowerCase().indexOf(mention.toLowerCase()) ?? -1;
+    if (!task.text || !botUser?.username || index === -1) {
+        return task;
+    }
+    const removedLength = mention.length + (task.text[index + mention.length] === ' ' ? 1 : 0);
+    const entities = task.entities
+        ?.filter(entity => entity.offset + entity.length <= index || entity.offset >= index + removedLength)
+        .map(entity => entity.offset >= index + removedLength ? {...entity, offset: entity.offset - removedLength} : entity);
+    return {...task, text: task.text.slice(0, index) + task.text.slice(index + removedLength), entities};
+}
+
+// Group, supergroup and channel messages: captured per the chat's settings, only from allowed members
+function handleGroupMessage(msg: Message): void {
+    const settings = getChatSettings(msg.chat);
+    if (!settings) {
+        logger.info(`Ignoring message from unconfigured chat: ${msg.chat.id} (${msg.chat.title || 'No Title'})`);
+        return;
+    }
+    // Channel posts have no sender user; being configured is enough
+    if (msg.chat.type !== 'channel' && !isMemberAllowed(settings, msg.from)) {
+        logger.info(`Ignoring message ${msg.message_id} in ${msg.chat.id}: sender ${msg.from?.id} is not an allowed member`);
+        return;
+    }
+    if (handleTitleReply(msg)) {
+        return;
+    }
+
+    const command = parseCommand(msg);
+    if (command?.name === 'save') {
+        if (!msg.reply_to_message) {
+            bot.sendMessage(msg.chat.id, 'Reply to a message with /save to capture it.', {reply_to_message_id: msg.message_id})
+                .catch((error: any) => logger.warn(`Could not answer /save in chat ${msg.chat.id}: ${error.message}`));
+            return;
+        }
+        submitTask(buildTaskFromMessage(msg.reply_to_message, settings));
+        return;
+    }
+    if (command?.name === 'daily') {
+        submitDailyCapture(msg, command.args, settings);
+        return;
+    }
+    if (command) {
+        if (MANAGEMENT_COMMANDS.has(command.name) && !isChatAdmin(settings, msg.from)) {
+            logger.info(`Ignoring /${command.name} in ${msg.chat.id}: sender ${msg.from?.id} is not an admin of the chat`);
+            bot.sendMessage(msg.chat.id, `Only admins of this chat's vault can use /${command.name} here.`, {reply_to_message_id: msg.message_id})
+                .catch((error: any) => logger.warn(`Could not answer /${command.name} in chat ${msg.chat.id}: ${error.message}`));
+            return;
+        }
+        routeCommand(msg, command.name, command.args);
+        return;
+    }
+
+    const captureAll = settings.capture === 'all';
+    // Only one album item carries the caption with the mention, in no fixed order: every item is
+    // buffered and the whole album is captured if any of them mentions the bot
+    if (msg.media_group_id) {
+        const mentioned = !captureAll && mentionsBot(msg);
+        const task = buildTaskFromMessage(msg, settings);
+        bufferMediaGroupMessage(msg.media_group_id, mentioned ? stripBotMention(task) : task, captureAll || mentioned);
+        return;
+    }
+    if (!captureAll && !mentionsBot(msg)) {
+        return;
+    }
+    let task = buildTaskFromMessage(msg, settings);
+    if (!captureAll) {
+        task = stripBotMention(task);
+        // A bare mention in reply to a message captures the replied-to message, like /save
+        if (!task.text?.trim() && !task.media && msg.reply_to_message) {
+            submitTask(buildTaskFromMessage(msg.reply_to_message, settings));
+            return;
+        }
+    }
+    submitTask(task);
+}
+
+// "/cmd@BotName args" -> {name: 'cmd', args: 'args'}; forwarded messages are never treated as commands
+function parseCommand(msg: Message): { name: string, args: string } | null {
+    const entity = msg.entities?.[0];
+    if (!msg.text || msg.forward_date || !entity || entity.type !== 'bot_command' || entity.offset !== 0) {
+        return null;
+    }
+    const name = msg.text.substring(1, entity.length).split('@')[0].toLowerCase();
+    return {name, args: msg.text.substring(entity.length).trim()};
+}
+
+// "/daily <text>" appends the text to the daily note; a bare /daily in reply to a message appends that message
+function submitDailyCapture(msg: Message, args: string, chatSettings?: ChatSettings): void {
+    if (!args) {
+        if (!msg.reply_to_message) {
+            bot.sendMessage(msg.chat.id, 'Usage: /daily <text>, or reply to a message with /daily', {reply_to_message_id: msg.message_id});
+            return;
+        }
+        submitTask({...buildTaskFromMessage(msg.reply_to_message, chatSettings), daily: true});
+        return;
+    }
+    const task = buildTaskFromMessage(msg, chatSettings);
+    const text = task.text || '';
+    const commandLength = text.length - text.substring(msg.entities![0].length).trimStart().length;
+    const entities = task.entities
+        ?.filter(entity => entity.offset >= commandLength)
+        .map(entity => ({...entity, offset: entity.offset - commandLength}));
+    submitTask({...task, text: text.slice(commandLength), entities, daily: true});
+}
+
+function routeCommand(msg: Message, name: string, args: string): void {
+    logger.info(`Received command /${name} in chat ${msg.chat.id}`);
+    const handler = commandHandlers[name];
+    if (!handler) {
+        bot.sendMessage(msg.chat.id, `Unknown command /${name}. Send /help for the list of commands.`)
+            .catch((error: any) => logger.warn(`Could not answer /${name} in chat ${msg.chat.id}: ${error.message}`));
+        return;
+    }
+    runCommand(handler, msg, args);
+}
+
+// Keeps only the entity fields note rendering needs, so the queue journal stays small
+function toTextEntities(entities?: TelegramBot.MessageEntity[]): TextEntity[] | undefined {
+    if (!entities || entities.length === 0) return undefined;
+    return entities.map(({type, offset, length, url, language, user}) => ({type, offset, length, url, language, userId: user?.id}));
+}
+
+function buildTaskFromMessage(msg: Message, chatSettings?: ChatSettings): QueueTask {
+    const chatId = msg.chat.id;
+    const messageId = msg.message_id;
+
+    // --- Parse Message Content ---
+    let textContent: string | undefined = msg.text || msg.caption;
+    let mediaInfo: MediaInfo | undefined = undefined;
+    let forwardSourceLink: string | undefined = undefined;
+    let forwardSource: ForwardSource | undefined = undefined;
+
+    // Identify Media (prioritize photo/video over document if caption exists)
+    if (msg.photo) {
+        // Get the largest photo
+        const photo = msg.photo[msg.photo.length - 1];
+        mediaInfo = {
+            fileId: photo.file_id,
+            fileUniqueId: photo.file_unique_id,
+            fileName: `photo_${messageId}.jpg`, // Create a generic filename
+            type: 'photo',
+        };
+    } else if (msg.video) {
+        mediaInfo = {
+            fileId: msg.video.file_id,
+            fileUniqueId: msg.video.file_unique_id,
+            fileName: `video_${messageId}_${msg.video.file_id}.${msg.video.mime_type?.split('/')[1] || 'mp4'}`,
+            mimeType: msg.video.mime_type,
+            type: 'video',
+        };
+    } else if (msg.voice) {
+        mediaInfo = {
+            fileId: msg.voice.file_id,
+            fileUniqueId: msg.voice.file_unique_id,
+            fileName: `voice_${messageId}.${msg.voice.mime_type?.split('/')[1] || 'ogg'}`,
+            mimeType: msg.voice.mime_type,
+            type: 'voice',
+        };
+    } else if (msg.audio) {
+        mediaInfo = {
+            fileId: msg.audio.file_id,
+            fileUniqueId: msg.audio.file_unique_id,
+            // file_name is sent by Telegram but missing from the type definitions
+            fileName: (msg.audio as TelegramBot.Audio & { file_name?: string }).file_name || `audio_${messageId}.${msg.audio.mime_type?.split('/')[1] || 'mp3'}`,
+            mimeType: msg.audio.mime_type,
+            type: 'audio',
+        };
+    } else if (msg.video_note) {
+        mediaInfo = {
+            fileId: msg.video_note.file_id,
+            fileUniqueId: msg.video_note.file_unique_id,
+            fileName: `video_note_${messageId}.mp4`, // Round videos are always mp4
+            mimeType: 'video/mp4',
+            type: 'video_note',
+        };
+    } else if (msg.document) {
+        // Only treat as media if there's no text content (or maybe allowlist certain document types)
+        // Avoid saving random documents unless explicitly intended.
+        if (!textContent || (msg.document.mime_type?.startsWith('image/') || msg.document.mime_type?.startsWith('video/'))) {
+            mediaInfo = {
+                fileId: msg.document.file_id,
+                fileUniqueId: msg.document.file_unique_id,
+                fileName: msg.document.file_name || `document_${messageId}`,
+                mimeType: msg.document.mime_type,
+                type: 'document',
+            };
+        } else {
+            logger.info(`Ignoring document '${msg.document.file_name}' as text content is present.`);
+        }
+
+    }
+
+    // Check for Forwarded Message
+    if (msg.forward_from_chat) {
+        forwardSource = {
+            chatId: msg.forward_from_chat.id,
+            messageId: msg.forward_from_message_id,
+            type: msg.forward_from_chat.type,
+            username: msg.forward_from_chat.username,
+            title: msg.forward_from_chat.title,
+        };
+        // Try to construct a source link (best effort)
+        if (msg.forward_from_chat?.type === 'channel' && msg.forward_from_chat?.username && msg.forward_from_chat.id) {
+            forwardSourceLink = `https://t.me/${msg.forward_from_chat.username}/${msg.forward_from_message_id}`;
+        } else if (msg.forward_from_chat?.type === 'private') {
+            const name = `${msg.forward_from_chat.first_name || ''} ${msg.forward_from_chat.last_name || ''}`.trim();
+            const username = msg.forward_from_chat.username ? `@${msg.forward_from_chat.username}` : '';
+            forwardSourceLink = `Forwarded from ${name} (${username || 'private chat'})`.trim();
+        } else if (msg.forward_from_chat?.type === 'group') { // public group?
+            forwardSourceLink = `Forwarded from group ${msg.forward_from_chat.title || msg.forward_from_chat.id}`;
+        }
+        // Add more cases if needed (user, private group - no link possible)
+        logger.info(`Message is forwarded. Source link generated: ${forwardSourceLink || 'Not available'}`);
+    } else if (msg.chat.type !== 'private') {
+        // Captured from a group/channel: link back to the message there
+        forwardSourceLink = buildChatMessageLink(msg.chat, messageId);
+    }
+
+    // --- Create Task Object ---
+    return {
+        chatId: chatId,
+        messageId: messageId,
+        text: textContent,
+        entities: toTextEntities(msg.text ? msg.entities : msg.caption_entities),
+        media: mediaInfo ? [mediaInfo] : undefined,
+        forwardSourceLink: forwardSourceLink,
+        forwardSource: forwardSource,
+        userId: msg.from?.id,
+        username: msg.from?.username || `${msg.from?.first_name || ''} ${msg.from?.last_name || ''}`.trim() || msg.author_signature,
+        messageDate: msg.forward_date || msg.edit_date || msg.date,
+        sentDate: msg.date,
+        targetFolder: chatSettings?.folder,
+        tagPrefix: chatSettings?.tagPrefix,
+        vaultId: resolveChatVault(msg.chat, msg.from)?.settings.id,
+    };
+}
+
+function submitTask(task: QueueTask): void {
+    const messageIds = task.groupMessageIds || [task.messageId];
+    try {
+        enqueueTask(task);
+        // Optional: Send immediate feedback
+        // bot.sendMessage(chatId, `Got it! Adding message ${messageId} to the processing queue.`);
+        messageIds.forEach(messageId => {
+            // @ts-expect-error: setMessageReaction is not in the type definitions
+            bot.setMessageReaction(task.chatId, messageId, {reaction: [{type: 'emoji', emoji: '💯'}]}).catch((error: any) => logger.warn(`Could not react to message ${messageId}: ${error.message}`)); // Groups may restrict reactions
+        });
+    } catch (error: any) {
+        logger.error(`Failed to enqueue task for message ${task.messageId}: ${error.message}`, {stack: error.stack});
+        bot.sendMessage(task.chatId, `❌ Sorry, there was an error adding your message ${task.messageId} to the queue.`);
+    }
+}
+
+// Collects album items until no new item arrived for MEDIA_GROUP_WINDOW_MS, then enqueues them as one task
+function bufferMediaGroupMessage(mediaGroupId: string, task: QueueTask, capture: boolean = true): void {
+    const item = {messageId: task.messageId, media: task.media || []};
+    const pending = pendingMediaGroups.get(mediaGroupId);
+    if (pending) {
+        clearTimeout(pending.timer);
+        pending.items.push(item);
+        pending.capture = pending.capture || capture;
+        // Only one item of an album carries the caption
+        if (!pending.task.text && task.text) {
+            pending.task.text = task.text;
+            pending.task.entities = task.entities;
+            pending.task.captionMessageId = task.messageId;
+        }
+        pending.timer = setTimeout(() => flushMediaGroup(mediaGroupId), config.MEDIA_GROUP_WINDOW_MS);
+        logger.info(`Added message ${task.messageId} to media group ${mediaGroupId} (${pending.items.length} items)`);
+        return;
+    }
+
+    pendingMediaGroups.set(mediaGroupId, {
+        task: {...task, mediaGroupId, captionMessageId: task.text ? task.messageId : undefined},
+        items: [item],
+        capture,
+        timer: setTimeout(() => flushMediaGroup(mediaGroupId), config.MEDIA_GROUP_WINDOW_MS),
+    });
+    logger.info(`Buffering media group ${mediaGroupId} starting with message ${task.messageId}`);
+}
+
+function flushMediaGroup(mediaGroupId: string): void {
+    const pending = pendingMediaGroups.get(mediaGroupId);
+    if (!pending) return;
+    pendingMediaGroups.delete(mediaGroupId);
+    if (!pending.capture) {
+        logger.debug(`Ignoring media group ${mediaGroupId}: no item mentions the bot`);
+        return;
+    }
+
+    // Telegram may deliver album items out of order; keep the note layout in album order
+    const items = [...pending.items].sort((a, b) => a.messageId - b.messageId);
+    const task: QueueTask = {
+        ...pending.task,
+        messageId: items[0].messageId,
+        media: items.flatMap(item => item.media),
+        groupMessageIds: items.map(item => item.messageId),
+    };
+    logger.info(`Media group ${mediaGroupId} complete with ${task.media?.length || 0} items`);
+    submitTask(task);
+}
+
+// Remove webhook on exit (Ctrl+C); the server's shutdown awaits it before exiting
+export async function removeWebhook(): Promise<void> {
     logger.info('Exiting... Removing webhook.');
     try {
         await bot.deleteWebHook();
@@ -187,7 +545,6 @@ process.on('SIGINT', async () => {
     } catch (error: any) {
         logger.error('Failed to remove webhook:', {error: error.message, stack: error.stack});
     }
-    process.exit(0);
-});
+}
 
 export {bot};
\ No newline at end of file
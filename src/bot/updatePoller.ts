@@ -0,0 +1,79 @@
+import path from 'path';
+import TelegramBot from 'node-telegram-bot-api';
+import {config, dataPath} from '../config';
+import {logger} from '../utils/logger';
+import {readJsonFile, writeJsonFileAtomic} from '../utils/jsonFile';
+
+/**
+ * Long polling for BOT_MODE=polling: fetches updates with getUpdates instead of waiting for
+ * Telegram to call the webhook, so the bot runs behind NAT without a public HTTPS endpoint.
+ * The offset is saved after every batch, so a restart neither loses nor replays updates.
+ */
+
+interface OffsetState {
+    offset: number; // update_id of the next update to fetch
+}
+
+const offsetFile = path.join(dataPath, 'update-offset.json');
+const ERROR_BACKOFF_MS = 5000;
+
+let running = false;
+let backoffTimer: NodeJS.Timeout | null = null;
+
+function loadOffset(): number | undefined {
+    return readJsonFile<OffsetState | null>(offsetFile, null)?.offset;
+}
+
+function saveOffset(offset: number): void {
+    writeJsonFileAtomic(offsetFile, {offset});
+}
+
+export async function startPolling(bot: TelegramBot, dispatch: (update: TelegramBot.Update) => void): Promise<void> {
+    // getUpdates is refused while a webhook is set; pending updates stay queued on Telegram's side
+    await bot.deleteWebHook();
+    let offset = loadOffset();
+    logger.info(`Polling for updates${offset ? ` from update ${offset}` : ''}...`);
+    running = true;
+
+    const poll = async (): Promise<void> => {
+        backoffTimer = null;
+        while (running) {
+            let updates: TelegramBot.Update[];
+            try {
+                updates = await bot.getUpdates({offset, timeout: config.POLLING_TIMEOUT_SECONDS});
+            } catch (error: any) {
+                // 409: another instance polls with the same token, or a webhook was set again
+                logger.error(`Failed to fetch updates, retrying in ${ERROR_BACKOFF_MS / 1000}s: ${error.message}`);
+                if (running) {
+                    backoffTimer = setTimeout(pollSafely, ERROR_BACKOFF_MS);
+                }
+                return;
+            }
+            if (!running) return; // Not acknowledged: fetched again on the next start
+
+            for (const update of updates) {
+                try {
+                    dispatch(update);
+                } catch (error: any) {
+                    logger.error(`Error processing update ${update.update_id}:`, {error: error.message, stack: error.stack});
+                }
+                offset = update.update_id + 1;
+            }
+            if (updates.length > 0) {
+                saveOffset(offset!);
+            }
+        }
+    };
+    const pollSafely = () => {
+        poll().catch((error: any) => logger.error(`Polling stopped: ${error.message}`, {stack: error.stack}));
+    };
+    pollSafely();
+}
+
+export function stopPolling(): void {
+    running = false;
+    if (backoffTimer) {
+        clearTimeout(backoffTimer);
+        backoffTimer = null;
+    }
+}
@@ -3,13 +3,28 @@ import path from 'path';
 
 dotenv.config();
 
-function getEnvVar(key: string, required: boolean = true): string {
+// `defaultValue` only applies while the variable is unset, so setting it empty can turn a feature off
+function getEnvVar(key: string, required: boolean = true, defaultValue: string = ''): string {
     const value = process.env[key];
     if (required && (value === undefined || value === null || value === '')) {
         console.error(`FATAL ERROR: Environment variable ${key} is not set.`);
         process.exit(1);
     }
-    return value || '';
+    return value ?? defaultValue;
+}
+
+function getEnvVarAsBool(key: string, defaultValue: boolean): boolean {
+    const value = process.env[key];
+    if (value === undefined || value === null || value === '') {
+        return defaultValue;
+    }
+    return ['1', 'true', 'yes', 'on'].includes(value.toLowerCase());
+}
+
+// Undefined while the variable is unset, for settings whose default depends on something else
+function getEnvVarAsOptionalBool(key: string): boolean | undefined {
+    const value = process.env[key];
+    return value === undefined || value === '' ? undefined : getEnvVarAsBool(key, false);
 }
 
 function getEnvVarAsInt(key: string, required: boolean = true, defaultValue?: number): number {
@@ -29,50 +44,210 @@ function getEnvVarAsInt(key: string, required: boolean = true, defaultValue?: nu
     return parsed;
 }
 
+const botMode = (process.env.BOT_MODE || 'webhook').toLowerCase();
+
+// With a vaults file, users and vault locations come from there instead of the single-vault variables below
+const hasVaultsFile = !!process.env.VAULTS_CONFIG_PATH;
+
 export const config = {
     TELEGRAM_BOT_TOKEN: getEnvVar('TELEGRAM_BOT_TOKEN'),
-    ALLOWED_USER_IDS: getEnvVar('ALLOWED_USER_IDS').split(','),
-    SERVER_URL: getEnvVar('SERVER_URL'),
+    VAULTS_CONFIG_PATH: getEnvVar('VAULTS_CONFIG_PATH', false), // Optional JSON mapping users to their own vaults
+    ALLOWED_USER_IDS: getEnvVar('ALLOWED_USER_IDS', !hasVaultsFile).split(',').map(id => id.trim()).filter(Boolean),
+    BOT_MODE: botMode, // webhook | polling (getUpdates, no public HTTPS endpoint needed)
+    SERVER_URL: getEnvVar('SERVER_URL', botMode === 'webhook'),
+    POLLING_TIMEOUT_SECONDS: getEnvVarAsInt('POLLING_TIMEOUT_SECONDS', false, 30), // How long one getUpdates request waits for updates
+    HTTP_SERVER: getEnvVarAsBool('HTTP_SERVER', botMode === 'webhook'), // Serve /health in polling mode too
     WEBHOOK_SECRET_TOKEN: getEnvVar('WEBHOOK_SECRET_TOKEN', false), // Optional
-    OPENAI_API_KEY: getEnvVar('OPENAI_API_KEY'),
-    OBSIDIAN_VAULT_PATH: getEnvVar('OBSIDIAN_VAULT_PATH'),
-    NOTES_FOLDER_NAME: getEnvVar('NOTES_FOLDER_NAME'),
-    ASSETS_FOLDER_NAME: getEnvVar('ASSETS_FOLDER_NAME'),
+    AI_PROVIDER: (getEnvVar('AI_PROVIDER', false) || 'openai').toLowerCase(), // openai | openai-compatible | anthropic | none
+    OPENAI_API_KEY: getEnvVar('OPENAI_API_KEY', (process.env.AI_PROVIDER || 'openai').toLowerCase() === 'openai'),
+    ANTHROPIC_API_KEY: getEnvVar('ANTHROPIC_API_KEY', false),
+    AI_API_KEY: getEnvVar('AI_API_KEY', false), // Optional key for openai-compatible servers
+    AI_BASE_URL: getEnvVar('AI_BASE_URL', false), // e.g. http://localhost:11434/v1 for Ollama
+    AI_MODEL: getEnvVar('AI_MODEL', false) || getEnvVar('OPENAI_MODEL', false), // Defaults depend on the provider
+    AI_SUPPORTS_IMAGES: getEnvVarAsOptionalBool('AI_SUPPORTS_IMAGES'), // Override whether images are sent to the model; unset: the provider's default
+    AI_JSON_SCHEMA: getEnvVarAsBool('AI_JSON_SCHEMA', false), // Send the reply schema to OpenAI-style APIs (structured outputs)
+    AI_SUMMARY: (getEnvVar('AI_SUMMARY', false) || 'off').toLowerCase(), // off | long | all: TL;DR, key points, action items, entities
+    AI_SUMMARY_MIN_CHARS: getEnvVarAsInt('AI_SUMMARY_MIN_CHARS', false, 2000), // "long": content from this length on
+    AI_CHUNK_CHARS: getEnvVarAsInt('AI_CHUNK_CHARS', false, 12000), // Content per request; longer content is summarized in chunks
+    AI_MAX_CHUNKS: getEnvVarAsInt('AI_MAX_CHUNKS', false, 10), // Chunks summarized per note, the rest is left out
+    AI_PROMPT_NOTE_NAME: getEnvVar('AI_PROMPT_NOTE_NAME', false, '_ai-prompt.md'), // Prompt note applying to its folder and subfolders, empty to disable
+    OBSIDIAN_VAULT_PATH: getEnvVar('OBSIDIAN_VAULT_PATH', !hasVaultsFile),
+    NOTES_FOLDER_NAME: getEnvVar('NOTES_FOLDER_NAME', !hasVaultsFile), // Default for vaults that don't set their own
+    ASSETS_FOLDER_NAME: getEnvVar('ASSETS_FOLDER_NAME', !hasVaultsFile),
+    SYNC_BACKEND: (getEnvVar('SYNC_BACKEND', false) || 'git').toLowerCase(), // git | webdav | none; vaults may choose their own
+    WEBDAV_URL: getEnvVar('WEBDAV_URL', false), // Folder on the WebDAV server the vault is uploaded to
+    WEBDAV_USERNAME: getEnvVar('WEBDAV_USERNAME', false),
+    WEBDAV_PASSWORD: getEnvVar('WEBDAV_PASSWORD', false),
+    WEBDAV_TIMEOUT_MS: getEnvVarAsInt('WEBDAV_TIMEOUT_MS', false, 60000), // Per request; a stalled server fails the upload, which is retried later
     GIT_PULL_INTERVAL_MS: getEnvVarAsInt('GIT_PULL_INTERVAL_MS', true, 300000), // Default 5 mins
+    GIT_PULL_STRATEGY: (getEnvVar('GIT_PULL_STRATEGY', false) || 'rebase').toLowerCase(), // rebase | merge, for pulls and before every push
+    GIT_PUSH_RETRIES: getEnvVarAsInt('GIT_PUSH_RETRIES', false, 3), // Pull and push again when the remote moved in between
+    GIT_SWEEP_INTERVAL_MS: getEnvVarAsInt('GIT_SWEEP_INTERVAL_MS', false, 600000), // Commit leftover bot files every 10 mins, 0 disables
+    // Vault-relative folders only the bot writes to; git conflicts there (except in notes) are resolved with the bot's version. None by default.
+    GIT_BOT_PATHS: getEnvVar('GIT_BOT_PATHS', false).split(',').map(folder => folder.trim()).filter(Boolean),
+    GIT_COMMIT_STRATEGY: (getEnvVar('GIT_COMMIT_STRATEGY', false) || 'per-note').toLowerCase(), // per-note | batch | scheduled
+    GIT_BATCH_DELAY_MS: getEnvVarAsInt('GIT_BATCH_DELAY_MS', false, 30000), // batch: commit once no change came in for this long
+    GIT_COMMIT_INTERVAL_MS: getEnvVarAsInt('GIT_COMMIT_INTERVAL_MS', false, 600000), // scheduled: commit this long after the first change; batch: at the latest
+    GIT_COMMIT_MESSAGE_TEMPLATE: getEnvVar('GIT_COMMIT_MESSAGE_TEMPLATE', false) || '{{message}}', // {{message}} {{vault}} {{date}} {{time}}
+    GIT_BATCH_COMMIT_MESSAGE_TEMPLATE: getEnvVar('GIT_BATCH_COMMIT_MESSAGE_TEMPLATE', false) || 'Add {{count}} changes from Telegram\n\n{{#each messages}}- {{this}}\n{{/each}}',
+    GIT_AUTHOR_NAME: getEnvVar('GIT_AUTHOR_NAME', false), // Author/committer of bot commits; the repository's git config if unset
+    GIT_AUTHOR_EMAIL: getEnvVar('GIT_AUTHOR_EMAIL', false),
+    GIT_SIGN_COMMITS: getEnvVarAsBool('GIT_SIGN_COMMITS', false), // Needs a signing key usable without a passphrase prompt
+    GIT_SIGNING_KEY: getEnvVar('GIT_SIGNING_KEY', false), // Key id, or the public key file for ssh signing
+    GIT_SIGNING_FORMAT: getEnvVar('GIT_SIGNING_FORMAT', false), // openpgp (git's default) | ssh | x509
+    ADMIN_CHAT_ID: getEnvVar('ADMIN_CHAT_ID', false), // Gets git problems that need manual fixing; defaults to the vault's first user
     PORT: getEnvVarAsInt('PORT', true, 3000), // Default port 3000
     LOG_LEVEL: getEnvVar('LOG_LEVEL', false) || 'info',
+    DATA_DIR: getEnvVar('DATA_DIR', false) || 'data', // Bot state (queue journal, dead letters), kept outside the vault
+    QUEUE_MAX_ATTEMPTS: getEnvVarAsInt('QUEUE_MAX_ATTEMPTS', false, 5),
+    QUEUE_RETRY_BASE_DELAY_MS: getEnvVarAsInt('QUEUE_RETRY_BASE_DELAY_MS', false, 5000), // Default 5 seconds
+    MEDIA_GROUP_WINDOW_MS: getEnvVarAsInt('MEDIA_GROUP_WINDOW_MS', false, 1500), // How long to wait for the rest of an album
+    TRANSCRIPTION_PROVIDER: getEnvVar('TRANSCRIPTION_PROVIDER', false) || 'whisper', // whisper | stub | none
+    TRANSCRIPTION_BASE_URL: getEnvVar('TRANSCRIPTION_BASE_URL', false), // Optional, for self-hosted Whisper-compatible servers
+    TRANSCRIPTION_API_KEY: getEnvVar('TRANSCRIPTION_API_KEY', false), // Optional, defaults to OPENAI_API_KEY
+    TRANSCRIPTION_MODEL: getEnvVar('TRANSCRIPTION_MODEL', false) || 'whisper-1',
+    TRANSCRIPTION_LANGUAGE: getEnvVar('TRANSCRIPTION_LANGUAGE', false), // Optional ISO-639-1 hint, e.g. 'en'
+    TRANSCRIPTION_STUB_TEXT: getEnvVar('TRANSCRIPTION_STUB_TEXT', false), // Fixed transcript returned by the stub provider
+    OCR_ENGINE: (getEnvVar('OCR_ENGINE', false) || 'none').toLowerCase(), // vision | tesseract | none: text in photos and screenshots
+    OCR_LANGUAGES: getEnvVar('OCR_LANGUAGES', false) || 'eng', // Tesseract languages, e.g. eng+deu
+    TESSERACT_PATH: getEnvVar('TESSERACT_PATH', false) || 'tesseract',
+    IMAGE_DESCRIPTION: getEnvVarAsBool('IMAGE_DESCRIPTION', false), // Alt text for images from the vision model
+    // Frontmatter properties to write, in order; "field" or "field:propertyName" to rename a property
+    FRONTMATTER_FIELDS: getEnvVar('FRONTMATTER_FIELDS', false) || 'title,created,original_date,source,telegram_chat_id,telegram_message_id,author,tags,aliases',
+    NOTE_TEMPLATE_PATH: getEnvVar('NOTE_TEMPLATE_PATH', false), // Optional vault-relative template note
+    ROUTING_RULES_PATH: getEnvVar('ROUTING_RULES_PATH', false), // Optional JSON rules file (absolute or relative to the vault)
+    // Line separating the bot-generated body from the user's own additions, which survive message edits. Empty to disable.
+    MANUAL_EDITS_MARKER: getEnvVar('MANUAL_EDITS_MARKER', false, '%% Notes below this line are kept when the Telegram message is edited %%'),
+    EDIT_SYNC_REGENERATE_METADATA: getEnvVarAsBool('EDIT_SYNC_REGENERATE_METADATA', false), // Re-run AI title/tags on edits
+    REVIEW_MODE: getEnvVarAsBool('REVIEW_MODE', false), // Ask for confirmation of AI title/tags before committing
+    REVIEW_TIMEOUT_MS: getEnvVarAsInt('REVIEW_TIMEOUT_MS', false, 600000), // Auto-accept after 10 mins
+    LINK_UNFURL: getEnvVarAsBool('LINK_UNFURL', false), // Fetch linked pages and append their content to the note; only public addresses are fetched
+    LINK_MAX_LINKS: getEnvVarAsInt('LINK_MAX_LINKS', false, 3), // Per message
+    LINK_FETCH_TIMEOUT_MS: getEnvVarAsInt('LINK_FETCH_TIMEOUT_MS', false, 15000),
+    LINK_MAX_BYTES: getEnvVarAsInt('LINK_MAX_BYTES', false, 5000000), // Larger pages/images are skipped
+    LINK_CONTENT_MAX_CHARS: getEnvVarAsInt('LINK_CONTENT_MAX_CHARS', false, 30000), // Article text kept per link, 0 for no limit
+    LINK_SAVE_IMAGES: getEnvVarAsBool('LINK_SAVE_IMAGES', true), // Save og:image previews as assets
+    LINK_USER_AGENT: getEnvVar('LINK_USER_AGENT', false) || 'Mozilla/5.0 (compatible; obsidian-telegram-bot)',
+    CHAT_SETTINGS_PATH: getEnvVar('CHAT_SETTINGS_PATH', false), // Optional JSON with the groups/channels to capture from (absolute or relative to the vault)
+    TAG_VOCABULARY_PATH: getEnvVar('TAG_VOCABULARY_PATH', false), // Optional JSON with tag synonyms and allow-list (absolute or relative to the vault)
+    TAG_PROMPT_LIMIT: getEnvVarAsInt('TAG_PROMPT_LIMIT', false, 30), // Existing vault tags suggested to the AI, 0 to disable
+    TAG_CASE: getEnvVar('TAG_CASE', false) || 'lower', // lower | preserve, for tags not yet in the vault
+    TAG_SEPARATOR: getEnvVar('TAG_SEPARATOR', false) || '-', // - | _ | camel, joins words of new tags
+    DAILY_NOTE_MODE: (getEnvVar('DAILY_NOTE_MODE', false) || 'off').toLowerCase(), // off | all | short; /daily always appends
+    DAILY_NOTE_SHORT_MAX_CHARS: getEnvVarAsInt('DAILY_NOTE_SHORT_MAX_CHARS', false, 280), // "short" mode: texts without media up to this length
+    DAILY_NOTE_LINK_ONLY: getEnvVarAsBool('DAILY_NOTE_LINK_ONLY', false), // Save a standalone note and only link it from the daily note
+    DAILY_NOTE_FOLDER: getEnvVar('DAILY_NOTE_FOLDER', false), // Vault-relative, as in the Daily Notes plugin settings
+    DAILY_NOTE_FORMAT: getEnvVar('DAILY_NOTE_FORMAT', false) || 'YYYY-MM-DD', // moment.js file name format, may contain '/'
+    DAILY_NOTE_TEMPLATE: getEnvVar('DAILY_NOTE_TEMPLATE', false), // Optional vault-relative template for new daily notes
+    DAILY_NOTE_HEADING: getEnvVar('DAILY_NOTE_HEADING', false), // Optional heading to append under, e.g. "## Telegram"
+    DAILY_NOTE_TIME_FORMAT: getEnvVar('DAILY_NOTE_TIME_FORMAT', false) || 'HH:mm', // Timestamp of each entry
+    DUPLICATE_POLICY: (getEnvVar('DUPLICATE_POLICY', false) || 'skip').toLowerCase(), // skip | merge | save, for messages already saved as a note
+    DUPLICATE_MIN_TEXT_LENGTH: getEnvVarAsInt('DUPLICATE_MIN_TEXT_LENGTH', false, 30), // Shorter texts are never treated as duplicates
+    ASSET_DEDUP: getEnvVarAsBool('ASSET_DEDUP', true), // Reuse an identical file in the assets folder instead of writing a copy
+    RELATED_NOTES_LIMIT: getEnvVarAsInt('RELATED_NOTES_LIMIT', false, 5), // Related notes linked from a new note, 0 to disable
+    AUTO_LINK: getEnvVarAsBool('AUTO_LINK', false), // Turn mentions of existing note titles/aliases into wikilinks
+    AUTO_LINK_MIN_LENGTH: getEnvVarAsInt('AUTO_LINK_MIN_LENGTH', false, 4), // Shorter titles are never linked
+    MOC_FOLDER: getEnvVar('MOC_FOLDER', false), // Optional vault folder with one topic note per hashtag linking its notes
+    SEARCH_RESULT_LIMIT: getEnvVarAsInt('SEARCH_RESULT_LIMIT', false, 5), // Matches listed by /search (inline mode shows up to 20)
+    SEARCH_SEMANTIC: getEnvVarAsBool('SEARCH_SEMANTIC', false), // Also rank notes by embedding similarity (OpenAI-style providers only)
+    EMBEDDING_MODEL: getEnvVar('EMBEDDING_MODEL', false), // Defaults: text-embedding-3-small, nomic-embed-text for openai-compatible
+    TASK_DETECTION: getEnvVarAsBool('TASK_DETECTION', false), // Let the AI pick out tasks with a due date ("remind me Friday to ...")
+    TASKS_NOTE: getEnvVar('TASKS_NOTE', false), // Vault-relative note collecting new tasks (e.g. Tasks.md); empty adds them to the note itself
+    REMINDERS: getEnvVarAsBool('REMINDERS', false), // Message the vault's users about open tasks when they are due
+    REMINDER_TIME: getEnvVar('REMINDER_TIME', false) || '09:00', // HH:mm (bot time zone, see TZ) from which tasks due that day are sent
+    REMINDER_CHECK_INTERVAL_MS: getEnvVarAsInt('REMINDER_CHECK_INTERVAL_MS', false, 300000), // How often the vault is scanned for due tasks
 };
 
 import fs from 'fs';
-if (!fs.existsSync(config.OBSIDIAN_VAULT_PATH) || !fs.statSync(config.OBSIDIAN_VAULT_PATH).isDirectory()) {
-    console.error(`FATAL ERROR: Obsidian vault path not found or is not a directory: ${config.OBSIDIAN_VAULT_PATH}`);
+// Vault paths and their notes/assets folders are validated when the vaults are loaded (vaults/vaultSettings.ts)
+
+// Bot state directory (persisted queue, dead-letter store)
+export const dataPath = path.resolve(config.DATA_DIR);
+if (!fs.existsSync(dataPath)) {
+    console.warn(`Data directory does not exist, creating: ${dataPath}`);
+    fs.mkdirSync(dataPath, { recursive: true });
+}
+
+if (!['webhook', 'polling'].includes(config.BOT_MODE)) {
+    console.error(`FATAL ERROR: BOT_MODE must be 'webhook' or 'polling' (got '${config.BOT_MODE}').`);
     process.exit(1);
 }
 
-// Ensure assets and notes directories exist within the vault path
-export const notesPath = path.join(config.OBSIDIAN_VAULT_PATH, config.NOTES_FOLDER_NAME);
-export const assetsPath = path.join(config.OBSIDIAN_VAULT_PATH, config.ASSETS_FOLDER_NAME);
+if (config.BOT_MODE === 'webhook') {
+    // Validate Server URL structure slightly
+    if (!config.SERVER_URL.startsWith('https://') && !config.SERVER_URL.startsWith('http://')) {
+        console.warn(`WARNING: SERVER_URL (${config.SERVER_URL}) does not start with http:// or https://. Webhook setup might fail.`);
+    }
+    // Ensure Server URL contains the bot token path for security
+    if (!config.SERVER_URL.endsWith(config.TELEGRAM_BOT_TOKEN)) {
+        console.error(`FATAL ERROR: SERVER_URL must end with the bot token (e.g., https://your.domain/webhook/${config.TELEGRAM_BOT_TOKEN})`);
+        process.exit(1);
+    }
+}
 
-if (!fs.existsSync(notesPath)) {
-    console.warn(`Notes directory does not exist, creating: ${notesPath}`);
-    fs.mkdirSync(notesPath, { recursive: true });
+if (!['-', '_', 'camel'].includes(config.TAG_SEPARATOR)) {
+    console.error(`FATAL ERROR: TAG_SEPARATOR must be '-', '_' or 'camel' (got '${config.TAG_SEPARATOR}').`);
+    process.exit(1);
 }
-if (!fs.existsSync(assetsPath)) {
-    console.warn(`Assets directory does not exist, creating: ${assetsPath}`);
-    fs.mkdirSync(assetsPath, { recursive: true });
+
+if (!['off', 'all', 'short'].includes(config.DAILY_NOTE_MODE)) {
+    console.error(`FATAL ERROR: DAILY_NOTE_MODE must be 'off', 'all' or 'short' (got '${config.DAILY_NOTE_MODE}').`);
+    process.exit(1);
+}
+
+if (!['rebase', 'merge'].includes(config.GIT_PULL_STRATEGY)) {
+    console.error(`FATAL ERROR: GIT_PULL_STRATEGY must be 'rebase' or 'merge' (got '${config.GIT_PULL_STRATEGY}').`);
+    process.exit(1);
 }
 
-// Validate Server URL structure slightly
-if (!config.SERVER_URL.startsWith('https://') && !config.SERVER_URL.startsWith('http://')) {
-    console.warn(`WARNING: SERVER_URL (${config.SERVER_URL}) does not start with http:// or https://. Webhook setup might fail.`);
+if (!['per-note', 'batch', 'scheduled'].includes(config.GIT_COMMIT_STRATEGY)) {
+    console.error(`FATAL ERROR: GIT_COMMIT_STRATEGY must be 'per-note', 'batch' or 'scheduled' (got '${config.GIT_COMMIT_STRATEGY}').`);
+    process.exit(1);
+}
+
+if (!['skip', 'merge', 'save'].includes(config.DUPLICATE_POLICY)) {
+    console.error(`FATAL ERROR: DUPLICATE_POLICY must be 'skip', 'merge' or 'save' (got '${config.DUPLICATE_POLICY}').`);
+    process.exit(1);
+}
+
+if (!['vision', 'tesseract', 'none'].includes(config.OCR_ENGINE)) {
+    console.error(`FATAL ERROR: OCR_ENGINE must be 'vision', 'tesseract' or 'none' (got '${config.OCR_ENGINE}').`);
+    process.exit(1);
+}
+
+if (!['off', 'long', 'all'].includes(config.AI_SUMMARY)) {
+    console.error(`FATAL ERROR: AI_SUMMARY must be 'off', 'long' or 'all' (got '${config.AI_SUMMARY}').`);
+    process.exit(1);
+}
+if (config.AI_CHUNK_CHARS < 1000) {
+    console.error(`FATAL ERROR: AI_CHUNK_CHARS must be at least 1000 (got ${config.AI_CHUNK_CHARS}).`);
+    process.exit(1);
+}
+
+if (!/^([01]?\d|2[0-3]):[0-5]\d$/.test(config.REMINDER_TIME)) {
+    console.error(`FATAL ERROR: REMINDER_TIME must be a time of day as HH:mm (got '${config.REMINDER_TIME}').`);
+    process.exit(1);
+}
+if (config.REMINDERS && config.REMINDER_CHECK_INTERVAL_MS < 10000) {
+    console.error(`FATAL ERROR: REMINDER_CHECK_INTERVAL_MS must be at least 10000 (got ${config.REMINDER_CHECK_INTERVAL_MS}).`);
+    process.exit(1);
+}
+
+const AI_PROVIDERS = ['openai', 'openai-compatible', 'anthropic', 'none'];
+if (!AI_PROVIDERS.includes(config.AI_PROVIDER)) {
+    console.error(`FATAL ERROR: AI_PROVIDER must be one of ${AI_PROVIDERS.join(', ')} (got '${config.AI_PROVIDER}').`);
+    process.exit(1);
+}
+if (config.AI_PROVIDER === 'openai-compatible' && !config.AI_BASE_URL) {
+    console.error(`FATAL ERROR: AI_BASE_URL is required when AI_PROVIDER is openai-compatible.`);
+    process.exit(1);
 }
-// Ensure Server URL contains the bot token path for security
-if (!config.SERVER_URL.endsWith(config.TELEGRAM_BOT_TOKEN)) {
-    console.error(`FATAL ERROR: SERVER_URL must end with the bot token (e.g., https://your.domain/webhook/${config.TELEGRAM_BOT_TOKEN})`);
+if (config.AI_PROVIDER === 'anthropic' && !config.ANTHROPIC_API_KEY) {
+    console.error(`FATAL ERROR: ANTHROPIC_API_KEY is required when AI_PROVIDER is anthropic.`);
     process.exit(1);
 }
 
 // Basic check for OPENAI_API_KEY format (starts with sk-)
-if (!config.OPENAI_API_KEY.startsWith('sk-')) {
+if (config.AI_PROVIDER === 'openai' && !config.OPENAI_API_KEY.startsWith('sk-')) {
     console.warn(`WARNING: OPENAI_API_KEY does not look like a standard OpenAI key (should start with 'sk-').`);
 }
\ No newline at end of file
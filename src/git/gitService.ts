@@ -1,142 +1,524 @@
 import simpleGit, { SimpleGit, SimpleGitOptions } from 'simple-git';
-import { config } from '../config';
+import async, { QueueObject } from 'async';
 import { logger } from '../utils/logger';
 import path from 'path';
+import fs from 'fs';
+import { config, dataPath } from '../config';
+import { readJsonFile, writeJsonFileAtomic } from '../utils/jsonFile';
+import { invalidateTagIndex } from '../obsidian/tagVocabulary';
+import { scheduleSearchIndexRefresh } from '../obsidian/searchIndex';
+import { renderTemplate } from '../obsidian/templateService';
+import { notifyAdmin } from '../bot/adminNotifier';
+import { getPendingReviewFilePaths } from '../bot/reviewService';
+import { getRegisteredFilePaths } from '../obsidian/noteRegistry';
+import { VaultSettings } from '../vaults/vaultSettings';
+import { getVault } from '../vaults/vaultRegistry';
+import { SyncStatus, VaultSync } from '../sync/vaultSync';
 
-const options: Partial<SimpleGitOptions> = {
-    baseDir: config.OBSIDIAN_VAULT_PATH,
-    binary: 'git',
-    maxConcurrentProcesses: 6,
-    trimmed: false,
-};
-
-const git: SimpleGit = simpleGit(options);
-
-let isGitOperationRunning = false; // Simple mutex flag
-let pullIntervalId: NodeJS.Timeout | number | null = null;
-
-export async function pullChanges(): Promise<void> {
-    if (isGitOperationRunning) {
-        logger.warn('[Git] Operation already in progress, skipping pull.');
-        return;
-    }
-    isGitOperationRunning = true;
-    logger.info('[Git] Pulling changes from remote...');
-    try {
-        // Check for local changes before pulling to avoid conflicts with auto-pull
-        const status = await git.status();
-        if (status.files.length > 0 && !status.isClean()) {
-            logger.warn('[Git] Local changes detected before pull. Stashing...');
-            // Basic stash - more complex conflict resolution might be needed
-            await git.stash(['push', '-u', '-m', `obsidian-bot-autostash-${Date.now()}`]);
-            logger.info('[Git] Changes stashed.');
-        }
-
-        const pullResult = await git.pull({ '--rebase': 'false' }); // Use merge strategy
-        if (pullResult.summary.changes || pullResult.summary.insertions || pullResult.summary.deletions) {
-            logger.info('[Git] Pull successful.', pullResult.summary);
-        } else {
-            logger.info('[Git] Pull successful. No changes detected.');
-        }
-         // Attempt to pop stash if one was created
-        // This is basic, might fail if pull had conflicts with stash
-        try {
-            const stashList = await git.stash(['list']);
-            if (stashList && stashList.includes('obsidian-bot-autostash')) { // Check if our stash exists
-                 logger.info('[Git] Applying stashed changes after pull...');
-                 await git.stash(['pop']);
-                 logger.info('[Git] Stash pop successful.');
+// A pull ran into conflicting changes outside the bot's folders or in a note; the pull was aborted
+export class GitConflictError extends Error {
+    constructor(readonly files: string[]) {
+        super(`Conflicting changes in ${files.join(', ')}`);
+        this.name = 'GitConflictError';
+    }
+}
+
+interface GitOperation {
+    name: string;
+    run: () => Promise<void>;
+}
+
+// A change waiting for the next batch commit (GIT_COMMIT_STRATEGY batch/scheduled)
+interface PendingChange {
+    filePaths: string[];
+    message: string;
+}
+
+// Files younger than this may belong to a task that is about to commit them itself
+const SWEEP_MIN_AGE_MS = 60000;
+// Changes waiting for a batch commit, by vault id; the queue has forgotten their tasks already, so a restart must not lose them
+const pendingBatchFile = path.join(dataPath, 'pending-batch-commits.json');
+
+// `-c` settings for bot commits: author/committer identity and signing
+function buildCommitConfig(): string[] {
+    const settings: string[] = [];
+    if (config.GIT_AUTHOR_NAME) settings.push(`user.name=${config.GIT_AUTHOR_NAME}`);
+    if (config.GIT_AUTHOR_EMAIL) settings.push(`user.email=${config.GIT_AUTHOR_EMAIL}`);
+    if (config.GIT_SIGN_COMMITS) {
+        settings.push('commit.gpgsign=true');
+        if (config.GIT_SIGNING_KEY) settings.push(`user.signingkey=${config.GIT_SIGNING_KEY}`);
+        if (config.GIT_SIGNING_FORMAT) settings.push(`gpg.format=${config.GIT_SIGNING_FORMAT}`);
+    }
+    return settings;
+}
+
+function isRejectedPush(error: any): boolean {
+    return /rejected|non-fast-forward|fetch first|failed to push some refs/i.test(`${error.message} ${error.stderr || ''}`);
+}
+
+// The git repository of one vault; every vault syncs on its own
+export class GitService implements VaultSync {
+    readonly name = 'git';
+    private readonly git: SimpleGit;
+    private readonly logPrefix: string;
+    // Git commands of this vault run one at a time, in order (pulls, commits, sweeps)
+    private readonly operations: QueueObject<GitOperation>;
+    private pullQueued = false;
+    private pullIntervalId: NodeJS.Timeout | number | null = null;
+    private sweepIntervalId: NodeJS.Timeout | number | null = null;
+    private lastAlert: string | null = null; // Not repeated until the problem went away
+    private pendingChanges: PendingChange[];
+    private flushingChanges: PendingChange[] = []; // Taken out of pendingChanges by a running batch commit
+    private firstPendingAt = 0; // ms timestamp of the oldest pending change
+    private flushTimer: NodeJS.Timeout | null = null;
+    private readonly syncStatus: SyncStatus = { lastPushAt: null, lastPullAt: null, lastError: null };
+
+    constructor(private readonly settings: VaultSettings) {
+        const options: Partial<SimpleGitOptions> = {
+            baseDir: settings.path,
+            binary: 'git',
+            maxConcurrentProcesses: 6,
+            trimmed: false,
+            config: buildCommitConfig(),
+        };
+        this.git = simpleGit(options);
+        this.logPrefix = `[Git:${settings.id}]`;
+        this.pendingChanges = readJsonFile<Record<string, PendingChange[]>>(pendingBatchFile, {})[settings.id] || [];
+        this.operations = async.queue((operation: GitOperation, done: () => void) => {
+            logger.debug(`${this.logPrefix} Running ${operation.name}`);
+            operation.run().then(() => done());
+        }, 1);
+    }
+
+    getSyncStatus(): SyncStatus {
+        return { ...this.syncStatus };
+    }
+
+    // Queues a git operation behind the ones already waiting and resolves with its result
+    private runExclusive<T>(name: string, operation: () => Promise<T>): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            this.operations.push({ name, run: () => operation().then(resolve, reject) });
+        });
+    }
+
+    private async alert(message: string): Promise<void> {
+        if (this.lastAlert === message) return;
+        this.lastAlert = message;
+        await notifyAdmin(this.settings, message);
+    }
+
+    private isBotPath(relativePath: string): boolean {
+        const normalized = path.normalize(relativePath);
+        return (this.settings.git.botPaths || []).some(folder => {
+            const botFolder = path.normalize(folder).replace(/[\\/]+$/, '');
+            return normalized === botFolder || normalized.startsWith(botFolder + path.sep);
+        });
+    }
+
+    // Conflicts the bot may settle with its own version: files in botPaths except notes, which people edit too
+    private isBotOwnedFile(relativePath: string): boolean {
+        return this.isBotPath(relativePath) && !relativePath.endsWith('.md');
+    }
+
+    private isRebaseInProgress(): boolean {
+        const gitDir = path.join(this.settings.path, '.git');
+        return fs.existsSync(path.join(gitDir, 'rebase-merge')) || fs.existsSync(path.join(gitDir, 'rebase-apply'));
+    }
+
+    private isMergeInProgress(): boolean {
+        return fs.existsSync(path.join(this.settings.path, '.git', 'MERGE_HEAD'));
+    }
+
+    // Takes the bot's side of every conflict in bot-owned files; gives up (and aborts) on anything else
+    private async resolveConflicts(): Promise<void> {
+        const rebase = config.GIT_PULL_STRATEGY === 'rebase';
+        // While rebasing, "theirs" is the local commit being replayed, i.e. the bot's
+        const botSide = rebase ? '--theirs' : '--ours';
+        for (let round = 0; round < 100; round++) {
+            const conflicted = (await this.git.status()).conflicted;
+            if (conflicted.length === 0) {
+                return;
+            }
+            const foreign = conflicted.filter(file => !this.isBotOwnedFile(file));
+            if (foreign.length > 0) {
+                logger.error(`${this.logPrefix} Conflicts in notes or outside the bot's folders, aborting: ${foreign.join(', ')}`);
+                await this.git.raw([rebase ? 'rebase' : 'merge', '--abort']).catch(error => logger.error(`${this.logPrefix} Abort failed: ${error.message}`));
+                throw new GitConflictError(foreign);
+            }
+            for (const file of conflicted) {
+                try {
+                    await this.git.raw(['checkout', botSide, '--', file]);
+                    await this.git.add(file);
+                } catch {
+                    // The bot's side deleted the file (e.g. /undo)
+                    await this.git.raw(['rm', '--quiet', '--', file]);
+                }
+            }
+            logger.warn(`${this.logPrefix} Resolved conflicts with the bot's version: ${conflicted.join(', ')}`);
+            if (!rebase) {
+                await this.git.raw(['commit', '--no-edit']);
+                return;
+            }
+            if (!this.isRebaseInProgress()) {
+                return;
+            }
+            try {
+                await this.git.raw(['-c', 'core.editor=true', 'rebase', '--continue']);
+            } catch (error: any) {
+                // The next replayed commit conflicts as well; handled in the next round
+                if ((await this.git.status()).conflicted.length === 0) throw error;
             }
-        } catch (stashError: any) {
-             logger.error('[Git] Failed to pop stash after pull. Manual intervention might be required.', stashError);
-             // Notify admin/user?
         }
+        throw new Error('Gave up resolving conflicts after 100 rounds');
+    }
 
+    // Re-applying autostashed changes after a pull conflicted; keeps the bot's uncommitted version of bot-owned files
+    private async resolveStashConflicts(): Promise<void> {
+        const conflicted = (await this.git.status()).conflicted;
+        const foreign = conflicted.filter(file => !this.isBotOwnedFile(file));
+        if (foreign.length > 0) {
+            // Back to the pulled state; the local changes stay in the stash for manual recovery
+            logger.error(`${this.logPrefix} Local changes conflict with pulled ones in ${foreign.join(', ')}; they are kept in the git stash.`);
+            await this.git.raw(['reset', '--hard', '--quiet']);
+            throw new GitConflictError(foreign);
+        }
+        for (const file of conflicted) {
+            try {
+                await this.git.raw(['checkout', '--theirs', '--', file]); // "theirs" is the stash
+            } catch {
+                await this.git.raw(['rm', '--quiet', '--', file]);
+            }
+        }
+        await this.git.raw(['reset', '--quiet']); // Unstaged again, as before the pull
+        await this.git.raw(['stash', 'drop', '--quiet']);
+        logger.warn(`${this.logPrefix} Kept the bot's uncommitted version of: ${conflicted.join(', ')}`);
+    }
 
-    } catch (error: any) {
-        logger.error('[Git] Pull failed:', { error: error.message, stdout: error.stdout, stderr: error.stderr });
-        // Potentially notify admin/user about pull failure
-        // throw error; // Decide if failure should halt operations or just be logged
-    } finally {
-        isGitOperationRunning = false;
+    // Pulls with GIT_PULL_STRATEGY; local uncommitted changes are stashed and re-applied. Returns whether anything came in.
+    private async pullFromRemote(): Promise<boolean> {
+        const { remote, branch } = this.settings.git;
+        const headBefore = await this.git.revparse(['HEAD']).catch(() => '');
+        const strategy = config.GIT_PULL_STRATEGY === 'rebase' ? '--rebase' : '--no-rebase';
+        try {
+            await this.git.pull(remote, branch, [strategy, '--autostash']);
+        } catch (error: any) {
+            if (!this.isRebaseInProgress() && !this.isMergeInProgress()) {
+                if ((await this.git.status()).conflicted.length === 0) throw error;
+            } else {
+                await this.resolveConflicts();
+            }
+        }
+        if ((await this.git.status()).conflicted.length > 0) {
+            await this.resolveStashConflicts();
+        }
+        const headAfter = await this.git.revparse(['HEAD']).catch(() => '');
+        const changed = headBefore.trim() !== headAfter.trim();
+        if (changed) {
+            invalidateTagIndex(this.settings); // Notes edited elsewhere may use new tags
+            scheduleSearchIndexRefresh(this.settings);
+        }
+        this.syncStatus.lastPullAt = new Date();
+        return changed;
     }
-}
 
-// Function to add, commit, and push changes
-export async function commitAndPush(filePaths: string[], commitMessage: string): Promise<void> {
-     if (isGitOperationRunning) {
-        logger.warn('[Git] Operation already in progress, skipping commit/push. Will be picked up later.');
-        // The changes are saved locally, they will be committed in a future operation
-        return;
-        // OR: Implement a queue/retry mechanism for git operations
+    // Pulls and pushes until the remote accepts the push (it may move between the two)
+    private async pushWithRetry(): Promise<void> {
+        const { remote, branch } = this.settings.git;
+        for (let attempt = 0; ; attempt++) {
+            await this.pullFromRemote();
+            try {
+                logger.info(`${this.logPrefix} Pushing changes to remote...`);
+                await this.git.push(remote, branch); // Without a configured remote/branch, the branch's upstream
+                logger.info(`${this.logPrefix} Push successful.`);
+                this.syncStatus.lastPushAt = new Date();
+                this.lastAlert = null;
+                return;
+            } catch (error: any) {
+                if (!isRejectedPush(error) || attempt >= config.GIT_PUSH_RETRIES) {
+                    throw error;
+                }
+                logger.warn(`${this.logPrefix} Push rejected, pulling and retrying (${attempt + 1}/${config.GIT_PUSH_RETRIES})...`);
+            }
+        }
     }
-    isGitOperationRunning = true;
-    logger.info(`[Git] Committing and pushing changes for: ${filePaths.map(p => path.basename(p)).join(', ')}`);
 
-    try {
-        // It's often safer to pull right before pushing to minimize merge issues
-        // However, periodic pull should handle this. Let's rely on that for now to simplify.
-        // Optional: await pullChanges(); // Uncomment if you want pull before every push
+    private async hasUnpushedCommits(): Promise<boolean> {
+        return (await this.git.status()).ahead > 0;
+    }
 
-        // Stage the specific files
+    // Stages and commits files (full paths); returns false if none of them changed
+    private async commitFiles(filePaths: string[], commitMessage: string): Promise<boolean> {
         // Convert absolute paths back to relative paths from the vault root for git add
-        const relativePaths = filePaths.map(fp => path.relative(config.OBSIDIAN_VAULT_PATH, fp));
-        logger.debug(`[Git] Staging files: ${relativePaths.join(', ')}`);
-        await git.add(relativePaths);
+        const relativePaths = filePaths.map(fp => path.relative(this.settings.path, fp));
+        logger.debug(`${this.logPrefix} Staging files: ${relativePaths.join(', ')}`);
+        // Deleted/moved-away files can't be `git add`ed if they were never committed; stage their removal instead
+        const existingPaths = relativePaths.filter(relativePath => fs.existsSync(path.join(this.settings.path, relativePath)));
+        const removedPaths = relativePaths.filter(relativePath => !existingPaths.includes(relativePath));
+        if (existingPaths.length > 0) {
+            await this.git.add(existingPaths);
+        }
+        if (removedPaths.length > 0) {
+            await this.git.raw(['rm', '--cached', '--ignore-unmatch', '--quiet', '--', ...removedPaths]);
+        }
 
         // Check if there are staged changes before committing
-        const status = await git.status();
+        const status = await this.git.status();
         if (status.staged.length === 0) {
-            logger.warn('[Git] No changes staged, skipping commit and push.');
-            isGitOperationRunning = false;
+            return false;
+        }
+        logger.info(`${this.logPrefix} Committing with message: "${commitMessage}"`);
+        const commitResult = await this.git.commit(commitMessage);
+        logger.info(`${this.logPrefix} Commit successful: ${commitResult.commit}`);
+        return true;
+    }
+
+    private async handleSyncError(action: string, error: any): Promise<void> {
+        logger.error(`${this.logPrefix} ${action} failed:`, { error: error.message, stdout: error.stdout, stderr: error.stderr });
+        this.syncStatus.lastError = { message: `${action} failed: ${error.message}`, at: new Date() };
+        if (error instanceof GitConflictError) {
+            await this.alert(`git pull stopped on changes that conflict with the bot's in ${error.files.join(', ')}. Resolve them in the vault's repository; new notes are committed locally until then.`);
+        } else if (isRejectedPush(error)) {
+            await this.alert(`git push was rejected ${config.GIT_PUSH_RETRIES + 1} times: ${error.message}`);
+        }
+    }
+
+    async pullChanges(): Promise<void> {
+        if (this.pullQueued) {
+            logger.debug(`${this.logPrefix} Pull already queued, skipping.`);
             return;
         }
+        this.pullQueued = true;
+        return this.runExclusive('pull', async () => {
+            this.pullQueued = false;
+            logger.info(`${this.logPrefix} Pulling changes from remote...`);
+            try {
+                const changed = await this.pullFromRemote();
+                logger.info(`${this.logPrefix} Pull successful.${changed ? '' : ' No changes detected.'}`);
+            } catch (error: any) {
+                await this.handleSyncError('Pull', error);
+            }
+        });
+    }
 
-        // Commit
-        logger.info(`[Git] Committing with message: "${commitMessage}"`);
-        const commitResult = await git.commit(commitMessage);
-        logger.info(`[Git] Commit successful: ${commitResult.commit}`);
+    // GIT_COMMIT_MESSAGE_TEMPLATE applied to the message of a single change
+    private formatCommitMessage(message: string): string {
+        const now = new Date().toISOString();
+        return renderTemplate(config.GIT_COMMIT_MESSAGE_TEMPLATE, {
+            message,
+            vault: this.settings.id,
+            date: now.slice(0, 10),
+            time: now.slice(11, 16),
+        }) || message;
+    }
 
-        // Push
-        logger.info('[Git] Pushing changes to remote...');
-        await git.push(); // Assumes default remote 'origin' and branch configured upstream
-        logger.info('[Git] Push successful.');
+    // GIT_BATCH_COMMIT_MESSAGE_TEMPLATE: a summary line and the message of every change
+    private formatBatchCommitMessage(changes: PendingChange[]): string {
+        if (changes.length === 1) {
+            return this.formatCommitMessage(changes[0].message);
+        }
+        const now = new Date().toISOString();
+        const messages = changes.map(change => change.message);
+        return renderTemplate(config.GIT_BATCH_COMMIT_MESSAGE_TEMPLATE, {
+            count: changes.length,
+            messages,
+            vault: this.settings.id,
+            date: now.slice(0, 10),
+            time: now.slice(11, 16),
+        }) || messages.join('\n');
+    }
 
-    } catch (error: any) {
-        logger.error('[Git] Commit/Push failed:', { error: error.message, stdout: error.stdout, stderr: error.stderr });
-        // Rethrow to be caught by task processor for user notification
-        throw new Error(`Git operation failed: ${error.message}`);
-    } finally {
-        isGitOperationRunning = false;
+    // Batch: a quiet period of GIT_BATCH_DELAY_MS; scheduled (and batch at the latest): GIT_COMMIT_INTERVAL_MS after the first change
+    private scheduleFlush(): void {
+        const now = Date.now();
+        const deadline = this.firstPendingAt + config.GIT_COMMIT_INTERVAL_MS;
+        const flushAt = config.GIT_COMMIT_STRATEGY === 'batch' ? Math.min(now + config.GIT_BATCH_DELAY_MS, deadline) : deadline;
+        if (this.flushTimer) clearTimeout(this.flushTimer);
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.flushPendingChanges().catch(e => logger.error(`${this.logPrefix} Batch commit failed:`, e));
+        }, Math.max(0, flushAt - now));
     }
-}
 
-// Function to start periodic Git pull
-export function startPeriodicGitPull(): void {
-    if (pullIntervalId) {
-        logger.warn('[Git] Periodic pull already running.');
-        return;
-    }
-    if (config.GIT_PULL_INTERVAL_MS > 0) {
-        logger.info(`[Git] Starting periodic pull every ${config.GIT_PULL_INTERVAL_MS / 1000} seconds.`);
-        // Initial pull on startup after a short delay
-        setTimeout(() => {
-            pullChanges().catch(e => logger.error('[Git] Initial pull failed:', e));
-        }, 5000);
-
-        pullIntervalId = setInterval(async () => {
-            await pullChanges();
-        }, config.GIT_PULL_INTERVAL_MS);
-    } else {
-         logger.info('[Git] Periodic pull disabled (GIT_PULL_INTERVAL_MS is 0 or not set).');
+    // Files of changes waiting for the next batch commit (full paths)
+    private getPendingChangePaths(): string[] {
+        return [...this.flushingChanges, ...this.pendingChanges].flatMap(change => change.filePaths);
     }
-}
 
-// Function to stop periodic Git pull
-export function stopPeriodicGitPull(): void {
-    if (pullIntervalId) {
-        logger.info('[Git] Stopping periodic pull.');
-        clearInterval(pullIntervalId);
-        pullIntervalId = null;
+    // Writes this vault's uncommitted batch (including one being committed right now) to DATA_DIR
+    private savePendingChanges(): void {
+        const saved = readJsonFile<Record<string, PendingChange[]>>(pendingBatchFile, {});
+        const changes = [...this.flushingChanges, ...this.pendingChanges];
+        if (changes.length > 0) {
+            saved[this.settings.id] = changes;
+        } else if (saved[this.settings.id]) {
+            delete saved[this.settings.id];
+        } else {
+            return;
+        }
+        writeJsonFileAtomic(pendingBatchFile, saved);
+    }
+
+    /**
+     * Commits and pushes the changes collected for a batch commit. Failed batches are kept for
+     * the next flush, and the batch is persisted until it is committed, so a restart replays it.
+     */
+    async flushPendingChanges(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        return this.runExclusive('batch commit', async () => {
+            const changes = this.pendingChanges;
+            if (changes.length === 0) return;
+            this.pendingChanges = [];
+            this.flushingChanges = changes;
+            logger.info(`${this.logPrefix} Committing ${changes.length} batched change(s)`);
+            try {
+                const committed = await this.commitFiles(Array.from(new Set(changes.flatMap(change => change.filePaths))), this.formatBatchCommitMessage(changes));
+                if (committed || await this.hasUnpushedCommits()) {
+                    await this.pushWithRetry();
+                }
+                this.flushingChanges = [];
+                this.savePendingChanges();
+            } catch (error: any) {
+                // Committed but not pushed: the next flush finds nothing to commit and pushes
+                this.pendingChanges = [...changes, ...this.pendingChanges];
+                this.flushingChanges = [];
+                this.firstPendingAt = Date.now();
+                this.scheduleFlush();
+                await this.handleSyncError('Batch commit', error);
+            }
+        });
+    }
+
+    /**
+     * Adds, commits and pushes changes; waits for any git operation already running. With
+     * GIT_COMMIT_STRATEGY batch or scheduled the change is only queued for the next batch commit.
+     */
+    async pushChanges(filePaths: string[], commitMessage: string): Promise<void> {
+        if (config.GIT_COMMIT_STRATEGY !== 'per-note') {
+            if (this.pendingChanges.length === 0) {
+                this.firstPendingAt = Date.now();
+            }
+            this.pendingChanges.push({ filePaths, message: commitMessage });
+            this.savePendingChanges();
+            logger.info(`${this.logPrefix} Queued for the next batch commit (${this.pendingChanges.length} pending): ${filePaths.map(p => path.basename(p)).join(', ')}`);
+            this.scheduleFlush();
+            return;
+        }
+        return this.runExclusive('commit', async () => {
+            logger.info(`${this.logPrefix} Committing and pushing changes for: ${filePaths.map(p => path.basename(p)).join(', ')}`);
+            try {
+                // A previous attempt may have committed but failed to push; push that commit then
+                const committed = await this.commitFiles(filePaths, this.formatCommitMessage(commitMessage));
+                if (!committed && !(await this.hasUnpushedCommits())) {
+                    logger.warn(`${this.logPrefix} No changes staged, skipping commit and push.`);
+                    return;
+                }
+                await this.pushWithRetry();
+            } catch (error: any) {
+                await this.handleSyncError('Commit/Push', error);
+                // Rethrow to be caught by task processor for user notification
+                throw new Error(`Git operation failed: ${error.message}`);
+            }
+        });
     }
-}
\ No newline at end of file
+
+    /**
+     * Commits notes and assets the bot wrote but never committed (e.g. the process stopped between
+     * saving and committing a note) and pushes commits left unpushed. Only new files recorded in
+     * the note registry are swept, so uncommitted edits made in the vault's clone stay untouched;
+     * notes waiting for review or for the next batch commit are left alone too.
+     */
+    async sweepUncommittedFiles(): Promise<void> {
+        return this.runExclusive('sweep', async () => {
+            try {
+                const status = await this.git.status(['--untracked-files=all']);
+                const pendingReview = new Set([...getPendingReviewFilePaths(this.settings.id), ...this.getPendingChangePaths()]
+                    .map(fp => path.relative(this.settings.path, fp)));
+                const now = Date.now();
+                const botFiles = new Set(getRegisteredFilePaths(this.settings.id, getVault().settings.id).map(file => path.normalize(file)));
+                const leftovers = Array.from(new Set([...status.not_added, ...status.created]))
+                    .filter(file => botFiles.has(path.normalize(file)) && !pendingReview.has(path.normalize(file)))
+                    .filter(file => {
+                        const fullPath = path.join(this.settings.path, file);
+                        return !fs.existsSync(fullPath) || now - fs.statSync(fullPath).mtimeMs >= SWEEP_MIN_AGE_MS;
+                    });
+                const committed = leftovers.length > 0
+                    && await this.commitFiles(leftovers.map(file => path.join(this.settings.path, file)), `Commit leftover bot files (${leftovers.length})`);
+                if (committed) {
+                    logger.warn(`${this.logPrefix} Sweeper committed ${leftovers.length} leftover file(s): ${leftovers.join(', ')}`);
+                }
+                if (committed || await this.hasUnpushedCommits()) {
+                    await this.pushWithRetry();
+                }
+            } catch (error: any) {
+                await this.handleSyncError('Sweep', error);
+            }
+        });
+    }
+
+    start(): void {
+        this.startPeriodicPull();
+        this.startSweeper();
+        if (this.pendingChanges.length > 0) {
+            logger.info(`${this.logPrefix} Committing ${this.pendingChanges.length} batched change(s) left by the previous run`);
+            this.firstPendingAt = Date.now();
+            this.scheduleFlush();
+        }
+    }
+
+    stop(): void {
+        this.stopPeriodicPull();
+        this.stopSweeper();
+    }
+
+    // Function to start periodic Git pull
+    private startPeriodicPull(): void {
+        if (this.pullIntervalId) {
+            logger.warn(`${this.logPrefix} Periodic pull already running.`);
+            return;
+        }
+        const intervalMs = this.settings.git.pullIntervalMs || 0;
+        if (intervalMs > 0) {
+            logger.info(`${this.logPrefix} Starting periodic pull every ${intervalMs / 1000} seconds.`);
+            // Initial pull on startup after a short delay
+            setTimeout(() => {
+                this.pullChanges().catch(e => logger.error(`${this.logPrefix} Initial pull failed:`, e));
+            }, 5000);
+
+            this.pullIntervalId = setInterval(async () => {
+                await this.pullChanges();
+            }, intervalMs);
+        } else {
+             logger.info(`${this.logPrefix} Periodic pull disabled (pull interval is 0 or not set).`);
+        }
+    }
+
+    // Function to stop periodic Git pull
+    private stopPeriodicPull(): void {
+        if (this.pullIntervalId) {
+            logger.info(`${this.logPrefix} Stopping periodic pull.`);
+            clearInterval(this.pullIntervalId);
+            this.pullIntervalId = null;
+        }
+    }
+
+    private startSweeper(): void {
+        const intervalMs = this.settings.git.sweepIntervalMs || 0;
+        if (this.sweepIntervalId || intervalMs <= 0) {
+            return;
+        }
+        logger.info(`${this.logPrefix} Sweeping uncommitted bot files every ${intervalMs / 1000} seconds.`);
+        this.sweepIntervalId = setInterval(() => {
+            this.sweepUncommittedFiles().catch(e => logger.error(`${this.logPrefix} Sweep failed:`, e));
+        }, intervalMs);
+    }
+
+    private stopSweeper(): void {
+        if (this.sweepIntervalId) {
+            clearInterval(this.sweepIntervalId);
+            this.sweepIntervalId = null;
+        }
+    }
+}
@@ -0,0 +1,162 @@
+import path from 'path';
+import fs from 'fs/promises';
+import {config} from '../config';
+import {logger} from '../utils/logger';
+import {QueueTask} from '../queue/taskTypes';
+import {Vault} from '../vaults/vaultRegistry';
+import {VaultSettings} from '../vaults/vaultSettings';
+import {loadTemplate, renderTemplate} from './templateService';
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Longest tokens first, so "MMMM" isn't read as "MM" twice
+const DATE_TOKEN_PATTERN = /\[([^\]]*)]|YYYY|YY|MMMM|MMM|MM|M|DDDD|DD|D|dddd|ddd|HH|H|mm|ss|Q|ww|w/g;
+
+function pad(value: number, length: number = 2): string {
+    return String(value).padStart(length, '0');
+}
+
+// ISO week number, as used by moment's "w"/"ww" with the ISO locale and by most weekly note setups
+function isoWeek(date: Date): number {
+    const target = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    target.setDate(target.getDate() + 3 - (target.getDay() + 6) % 7);
+    const firstThursday = new Date(target.getFullYear(), 0, 4);
+    return 1 + Math.round(((target.getTime() - firstThursday.getTime()) / 86400000 - 3 + (firstThursday.getDay() + 6) % 7) / 7);
+}
+
+/**
+ * Formats a date with the moment.js tokens the Daily Notes and Periodic Notes plugins use for
+ * file names, e.g. "YYYY-MM-DD" or "YYYY/MM/YYYY-MM-DD dddd"; text in [brackets] is literal.
+ * Uses the local time zone of the bot (set TZ to match the vault owner's).
+ */
+export function formatMomentDate(date: Date, format: string): string {
+    const dayOfYear = Math.round((new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() - new Date(date.getFullYear(), 0, 1).getTime()) / 86400000) + 1;
+    return format.replace(DATE_TOKEN_PATTERN, (token: string, literal?: string) => {
+        if (literal !== undefined) return literal;
+        switch (token) {
+            case 'YYYY': return String(date.getFullYear());
+            case 'YY': return pad(date.getFullYear() % 100);
+            case 'MMMM': return MONTHS[date.getMonth()];
+            case 'MMM': return MONTHS[date.getMonth()].slice(0, 3);
+            case 'MM': return pad(date.getMonth() + 1);
+            case 'M': return String(date.getMonth() + 1);
+            case 'DDDD': return pad(dayOfYear, 3);
+            case 'DD': return pad(date.getDate());
+            case 'D': return String(date.getDate());
+            case 'dddd': return WEEKDAYS[date.getDay()];
+            case 'ddd': return WEEKDAYS[date.getDay()].slice(0, 3);
+            case 'HH': return pad(date.getHours());
+            case 'H': return String(date.getHours());
+            case 'mm': return pad(date.getMinutes());
+            case 'ss': return pad(date.getSeconds());
+            case 'Q': return String(Math.floor(date.getMonth() / 3) + 1);
+            case 'ww': return pad(isoWeek(date));
+            case 'w': return String(isoWeek(date));
+            default: return token;
+        }
+    });
+}
+
+/**
+ * Whether a message goes to the daily note: always after /daily, otherwise per DAILY_NOTE_MODE
+ * ("all" messages, or "short" texts without media).
+ */
+export function isDailyCapture(task: QueueTask): boolean {
+    if (task.daily) {
+        return true;
+    }
+    switch (config.DAILY_NOTE_MODE) {
+        case 'all':
+            return true;
+        case 'short': {
+            const text = (task.text || '').trim();
+            return !task.media?.length && text.length > 0 && text.length <= config.DAILY_NOTE_SHORT_MAX_CHARS;
+        }
+        default:
+            return false;
+    }
+}
+
+// Vault-relative path of the vault's daily note for `date`
+export function getDailyNotePath(vault: VaultSettings, date: Date): string {
+    const fileName = `${formatMomentDate(date, vault.dailyNotes.format)}.md`;
+    return vault.dailyNotes.folder ? path.join(vault.dailyNotes.folder, fileName) : fileName;
+}
+
+/**
+ * A timestamped list item: "- HH:mm first line", with further lines and embeds indented so they
+ * stay part of the item.
+ */
+export function buildDailyEntry(date: Date, text: string, embeds: string[] = []): string {
+    const lines = [...text.trim().split('\n'), ...embeds];
+    const [first, ...rest] = lines;
+    return [
+        `- ${formatMomentDate(date, config.DAILY_NOTE_TIME_FORMAT)} ${first || ''}`.trimEnd(),
+        ...rest.map(line => line ? `  ${line}` : ''),
+    ].join('\n');
+}
+
+// Content for a new daily note: the template with Obsidian's {{date}}/{{time}}/{{title}} placeholders filled in
+async function createDailyNoteContent(vault: Vault, date: Date, title: string): Promise<string> {
+    const templatePath = vault.settings.dailyNotes.template;
+    if (!templatePath) {
+        return '';
+    }
+    const template = await loadTemplate(vault.settings.path, templatePath);
+    // The core Templates plugin also accepts a format, e.g. {{date:dddd, MMMM D}}
+    const withFormats = template.replace(/{{\s*(date|time)\s*:\s*([^}]+?)\s*}}/g, (_, __, format: string) => formatMomentDate(date, format));
+    return renderTemplate(withFormats, {
+        title,
+        date: formatMomentDate(date, 'YYYY-MM-DD'),
+        time: formatMomentDate(date, 'HH:mm'),
+    });
+}
+
+// Appends the entry at the end of the DAILY_NOTE_HEADING section (added if missing), or of the note
+function insertEntry(content: string, entry: string): string {
+    const heading = config.DAILY_NOTE_HEADING.trim();
+    if (!heading) {
+        return `${content.trimEnd()}${content.trim() ? '\n' : ''}${entry}\n`;
+    }
+    const lines = content.split('\n');
+    const headingIndex = lines.findIndex(line => line.trim() === heading);
+    if (headingIndex === -1) {
+        return `${content.trimEnd()}${content.trim() ? '\n\n' : ''}${heading}\n${entry}\n`;
+    }
+    const level = heading.match(/^#+/)?.[0].length || 0;
+    let end = lines.length;
+    for (let index = headingIndex + 1; index < lines.length; index++) {
+        const nextLevel = lines[index].match(/^(#+)\s/)?.[1].length;
+        if (nextLevel !== undefined && (level === 0 || nextLevel <= level)) {
+            end = index;
+            break;
+        }
+    }
+    // Skip blank lines at the end of the section, the entry goes right after its last item
+    while (end > headingIndex + 1 && !lines[end - 1].trim()) {
+        end--;
+    }
+    lines.splice(end, 0, entry);
+    return lines.join('\n');
+}
+
+// Appends an entry to the daily note of `date`, creating the note if needed; returns its full path
+export async function appendToDailyNote(vault: Vault, entry: string, date: Date): Promise<string> {
+    const relativePath = getDailyNotePath(vault.settings, date);
+    const fullPath = vault.files.resolveVaultPath(relativePath);
+    let content: string;
+    try {
+        content = await fs.readFile(fullPath, 'utf8');
+    } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+            throw new Error(`Failed to read daily note ${relativePath}: ${error.message}`);
+        }
+        logger.info(`Creating daily note ${relativePath}`);
+        await fs.mkdir(path.dirname(fullPath), {recursive: true});
+        content = await createDailyNoteContent(vault, date, path.basename(relativePath, '.md'));
+    }
+    await fs.writeFile(fullPath, insertEntry(content, entry), {encoding: 'utf8'});
+    logger.info(`Appended entry to daily note ${relativePath}`);
+    return fullPath;
+}
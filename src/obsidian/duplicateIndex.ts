@@ -0,0 +1,108 @@
+import path from 'path';
+import crypto from 'crypto';
+import {config, dataPath} from '../config';
+import {logger} from '../utils/logger';
+import {readJsonFile, writeJsonFileAtomic} from '../utils/jsonFile';
+import {QueueTask} from '../queue/taskTypes';
+import {findNoteByMessage, SavedNoteRecord} from './noteRegistry';
+
+// A fingerprint of a saved message, pointing at the message its note is registered under
+interface FingerprintEntry {
+    key: string;
+    vaultId: string;
+    chatId: number;
+    messageId: number;
+    savedAt: number; // ms timestamp
+}
+
+const indexFile = path.join(dataPath, 'duplicate-index.json');
+
+let entries: FingerprintEntry[] | null = null;
+
+function getEntries(): FingerprintEntry[] {
+    if (!entries) {
+        entries = readJsonFile<FingerprintEntry[]>(indexFile, []);
+    }
+    return entries;
+}
+
+function flush(): void {
+    writeJsonFileAtomic(indexFile, getEntries());
+}
+
+function sha256(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+// Lowercased letters and digits only, so formatting, punctuation and emoji don't hide a repost
+export function normalizeTextForComparison(text: string): string {
+    return text
+        .normalize('NFKC')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim();
+}
+
+/**
+ * Keys identifying a message's content: the original post for forwards from channels, the
+ * normalized text if long enough to be meaningful, and for media without text the Telegram file
+ * ids, which stay the same for every copy of a file.
+ */
+export function getMessageFingerprints(task: QueueTask): string[] {
+    const keys: string[] = [];
+    const source = task.forwardSource;
+    if (source?.messageId) {
+        keys.push(`forward:${source.chatId}:${source.messageId}`);
+    }
+    const text = normalizeTextForComparison(task.text || '');
+    if (text.length >= config.DUPLICATE_MIN_TEXT_LENGTH) {
+        keys.push(`text:${sha256(text)}`);
+    } else if (!text && task.media?.length && task.media.every(media => media.fileUniqueId)) {
+        keys.push(`media:${task.media.map(media => media.fileUniqueId).sort().join(',')}`);
+    }
+    return keys;
+}
+
+/**
+ * The note an earlier message with the same content was saved as, if it still exists. Entries
+ * whose note was removed with /undo are dropped on the way.
+ */
+export function findDuplicateNote(vaultId: string, task: QueueTask): SavedNoteRecord | undefined {
+    const keys = new Set(getMessageFingerprints(task));
+    if (keys.size === 0) return undefined;
+
+    let found: SavedNoteRecord | undefined;
+    const stale: FingerprintEntry[] = [];
+    for (const entry of getEntries()) {
+        if (entry.vaultId !== vaultId || !keys.has(entry.key)) continue;
+        const record = findNoteByMessage(entry.chatId, entry.messageId);
+        if (!record) {
+            stale.push(entry);
+        } else if (!found) {
+            found = record;
+        }
+    }
+    if (stale.length > 0) {
+        logger.debug(`Dropping ${stale.length} duplicate index entries of removed notes`);
+        entries = getEntries().filter(entry => !stale.includes(entry));
+        flush();
+    }
+    return found;
+}
+
+// Remembers the fingerprints of `task` as belonging to the note of `record`
+export function recordMessageFingerprints(vaultId: string, task: QueueTask, record: SavedNoteRecord): void {
+    const keys = getMessageFingerprints(task);
+    if (keys.length === 0) return;
+    // The first note saved with a key keeps it, unless that note is gone
+    const existing = getEntries().filter(entry => entry.vaultId === vaultId && keys.includes(entry.key));
+    const live = existing.filter(entry => findNoteByMessage(entry.chatId, entry.messageId));
+    const known = new Set(live.map(entry => entry.key));
+    const list = getEntries().filter(entry => !existing.includes(entry) || live.includes(entry));
+    const savedAt = Date.now();
+    for (const key of keys.filter(key => !known.has(key))) {
+        list.push({key, vaultId, chatId: record.chatId, messageId: record.messageIds[0], savedAt});
+    }
+    entries = list;
+    flush();
+}
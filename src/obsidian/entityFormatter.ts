@@ -0,0 +1,130 @@
+import {TextEntity} from '../queue/taskTypes';
+
+// Telegram entities as a tree: Telegram nests entities but never lets them partially overlap
+interface EntityNode {
+    entity: TextEntity;
+    start: number;
+    end: number;
+    children: EntityNode[];
+}
+
+// Simple wrappers; the remaining types need more than a pair of markers
+const WRAPPERS: Record<string, [string, string]> = {
+    bold: ['**', '**'],
+    italic: ['*', '*'],
+    underline: ['<u>', '</u>'], // No Markdown syntax; Obsidian renders the HTML tag
+    strikethrough: ['~~', '~~'],
+    spoiler: ['==', '=='], // Closest Obsidian equivalent: a highlight
+};
+
+function buildTree(text: string, entities: TextEntity[]): EntityNode[] {
+    const sorted = entities
+        .filter(entity => entity.length > 0 && entity.offset >= 0 && entity.offset < text.length)
+        .sort((a, b) => a.offset - b.offset || b.length - a.length);
+    const roots: EntityNode[] = [];
+    const stack: EntityNode[] = [];
+    for (const entity of sorted) {
+        const start = entity.offset;
+        let end = Math.min(entity.offset + entity.length, text.length);
+        while (stack.length > 0 && stack[stack.length - 1].end <= start) {
+            stack.pop();
+        }
+        const parent = stack[stack.length - 1];
+        if (parent) {
+            end = Math.min(end, parent.end); // Clamp defensively in case of a partial overlap
+        }
+        const node: EntityNode = {entity, start, end, children: []};
+        (parent ? parent.children : roots).push(node);
+        stack.push(node);
+    }
+    return roots;
+}
+
+// Wraps each line on its own (emphasis can't span paragraphs) and keeps surrounding whitespace
+// outside of the markers, since `** bold**` is not bold in Markdown
+function wrap(content: string, open: string, close: string): string {
+    return content.split('\n').map(line => {
+        const match = line.match(/^(\s*)(.*?)(\s*)$/)!;
+        return match[2] ? `${match[1]}${open}${match[2]}${close}${match[3]}` : line;
+    }).join('\n');
+}
+
+// A run of backticks longer than any inside the content
+function backtickFence(content: string, minimum: number): string {
+    const longest = Math.max(0, ...(content.match(/`+/g) || []).map(run => run.length));
+    return '`'.repeat(Math.max(minimum, longest + 1));
+}
+
+// Block entities must start and end on their own line
+function asBlock(text: string, node: EntityNode, block: string): string {
+    const before = node.start > 0 && text[node.start - 1] !== '\n' ? '\n' : '';
+    const after = node.end < text.length && text[node.end] !== '\n' ? '\n' : '';
+    return `${before}${block}${after}`;
+}
+
+function renderNode(text: string, node: EntityNode): string {
+    const raw = text.slice(node.start, node.end);
+    const {entity} = node;
+    switch (entity.type) {
+        case 'code': {
+            const fence = backtickFence(raw, 1);
+            const padding = raw.startsWith('`') || raw.endsWith('`') ? ' ' : '';
+            return `${fence}${padding}${raw}${padding}${fence}`;
+        }
+        case 'pre': {
+            const fence = backtickFence(raw, 3);
+            return asBlock(text, node, `${fence}${entity.language || ''}\n${raw.replace(/\n$/, '')}\n${fence}`);
+        }
+        case 'text_link': {
+            const label = renderRange(text, node.start, node.end, node.children).replace(/([\[\]])/g, '\\$1');
+            const url = entity.url?.replace(/[()\s]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+            return url ? `[${label}](${url})` : label;
+        }
+        case 'text_mention': {
+            // Mention of a user without username; link to the profile
+            const label = renderRange(text, node.start, node.end, node.children);
+            return entity.userId ? `[${label}](tg://user?id=${entity.userId})` : label;
+        }
+        case 'blockquote':
+        case 'expandable_blockquote': {
+            const quoted = renderRange(text, node.start, node.end, node.children)
+                .replace(/\n+$/, '')
+                .split('\n')
+                .map(line => line ? `> ${line}` : '>')
+                .join('\n');
+            return asBlock(text, node, quoted);
+        }
+        default: {
+            const content = renderRange(text, node.start, node.end, node.children);
+            const wrapper = WRAPPERS[entity.type];
+            // mention, hashtag, url, email, bot_command etc. are already readable as plain text
+            return wrapper ? wrap(content, wrapper[0], wrapper[1]) : content;
+        }
+    }
+}
+
+function renderRange(text: string, start: number, end: number, nodes: EntityNode[]): string {
+    let output = '';
+    let position = start;
+    for (const node of nodes) {
+        output += text.slice(position, node.start);
+        output += renderNode(text, node);
+        position = node.end;
+    }
+    return output + text.slice(position, end);
+}
+
+/**
+ * Converts a Telegram message text and its entities into Obsidian-flavoured Markdown.
+ * Offsets are UTF-16 code units, which is exactly how JS strings are indexed.
+ * Text outside of entities is kept verbatim (not escaped), like notes were written before.
+ */
+export function formatEntitiesAsMarkdown(text: string | undefined, entities: TextEntity[] | undefined): string {
+    if (!text) {
+        return '';
+    }
+    if (!entities || entities.length === 0) {
+        return text;
+    }
+    return renderRange(text, 0, text.length, buildTree(text, entities));
+}
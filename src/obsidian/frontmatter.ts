@@ -0,0 +1,169 @@
+import {config} from '../config';
+import {NoteSummary} from '../ai/aiProvider';
+
+// Data the bot knows about a note; which of it ends up in the frontmatter is controlled by FRONTMATTER_FIELDS
+export interface NoteFrontmatterData {
+    title: string;
+    created: Date;
+    originalDate?: Date;
+    source?: string;
+    chatId?: number;
+    messageId?: number;
+    author?: string;
+    tags: string[]; // With or without leading '#'
+    aliases?: string[];
+    summary?: NoteSummary; // AI summary of long content
+}
+
+export type FrontmatterValue = string | number | boolean | string[];
+export type Frontmatter = Record<string, FrontmatterValue>;
+
+const FRONTMATTER_FIELD_GETTERS: Record<string, (data: NoteFrontmatterData) => FrontmatterValue | undefined> = {
+    title: data => data.title,
+    created: data => formatDate(data.created),
+    original_date: data => data.originalDate ? formatDate(data.originalDate) : undefined,
+    source: data => data.source,
+    telegram_chat_id: data => data.chatId,
+    telegram_message_id: data => data.messageId,
+    author: data => data.author,
+    tags: data => data.tags.map(normalizeTag).filter(Boolean),
+    aliases: data => data.aliases,
+    summary: data => data.summary?.tldr,
+    language: data => data.summary?.language,
+    people: data => data.summary?.people,
+    organizations: data => data.summary?.organizations,
+};
+
+// Parses FRONTMATTER_FIELDS, e.g. "title,created,tags,author:from" (field or field:propertyName)
+function getFieldSchema(): { field: string, property: string }[] {
+    return config.FRONTMATTER_FIELDS
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .map(entry => {
+            const [field, property] = entry.split(':').map(part => part.trim());
+            if (!FRONTMATTER_FIELD_GETTERS[field]) {
+                throw new Error(`Unknown frontmatter field "${field}" in FRONTMATTER_FIELDS`);
+            }
+            return {field, property: property || field};
+        });
+}
+
+// Property name used for a field, or undefined if the field is not part of the schema
+export function getFrontmatterProperty(field: string): string | undefined {
+    return getFieldSchema().find(entry => entry.field === field)?.property;
+}
+
+// ISO 8601 without milliseconds, which Obsidian's date & time properties understand
+export function formatDate(date: Date): string {
+    return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+// Obsidian stores tags in properties without the leading '#'
+export function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#+/, '');
+}
+
+function formatScalar(value: string | number | boolean): string {
+    if (typeof value !== 'string') {
+        return String(value);
+    }
+    // Plain scalars are fine for simple values; everything else is double-quoted (JSON strings are valid YAML)
+    const isPlainSafe = /^[\p{L}\p{N}][\p{L}\p{N} _./:?=&%+-]*$/u.test(value)
+        && !/:( |$)/.test(value)
+        && !/^(true|false|null|yes|no|on|off|~)$/i.test(value)
+        && !/^[\d.+-]+$/.test(value);
+    if (isPlainSafe) {
+        return value;
+    }
+    return JSON.stringify(value);
+}
+
+export function serializeFrontmatter(frontmatter: Frontmatter): string {
+    const lines = ['---'];
+    for (const [key, value] of Object.entries(frontmatter)) {
+        if (Array.isArray(value)) {
+            if (value.length === 0) {
+                lines.push(`${key}: []`);
+            } else {
+                lines.push(`${key}:`);
+                value.forEach(item => lines.push(`  - ${formatScalar(item)}`));
+            }
+        } else {
+            lines.push(`${key}: ${formatScalar(value)}`);
+        }
+    }
+    lines.push('---');
+    return lines.join('\n');
+}
+
+export function buildFrontmatter(data: NoteFrontmatterData): Frontmatter {
+    const frontmatter: Frontmatter = {};
+    for (const {field, property} of getFieldSchema()) {
+        const value = FRONTMATTER_FIELD_GETTERS[field](data);
+        if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+            continue;
+        }
+        frontmatter[property] = value;
+    }
+    return frontmatter;
+}
+
+// Prepends frontmatter to a note body
+export function renderNoteWithFrontmatter(data: NoteFrontmatterData, body: string): string {
+    return `${serializeFrontmatter(buildFrontmatter(data))}\n\n${body.trim()}\n`;
+}
+
+function parseScalar(raw: string): string | number | boolean {
+    const value = raw.trim();
+    if (value.startsWith('"')) {
+        try {
+            return JSON.parse(value);
+        } catch {
+            return value.slice(1, -1);
+        }
+    }
+    if (value.startsWith("'") && value.endsWith("'")) {
+        return value.slice(1, -1).replace(/''/g, "'");
+    }
+    if (/^(true|false)$/i.test(value)) {
+        return value.toLowerCase() === 'true';
+    }
+    if (/^-?\d+(\.\d+)?$/.test(value)) {
+        return Number(value);
+    }
+    return value;
+}
+
+// Minimal YAML reader for flat frontmatter (scalars, inline and block lists), which covers what Obsidian writes
+export function parseFrontmatter(content: string): { frontmatter: Frontmatter | null, body: string } {
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+    if (!match) {
+        return {frontmatter: null, body: content};
+    }
+    const frontmatter: Frontmatter = {};
+    let currentListKey: string | null = null;
+    for (const line of match[1].split(/\r?\n/)) {
+        const listItem = line.match(/^\s+-\s*(.*)$/) || line.match(/^-\s+(.*)$/);
+        if (listItem && currentListKey) {
+            (frontmatter[currentListKey] as string[]).push(String(parseScalar(listItem[1])));
+            continue;
+        }
+        const keyValue = line.match(/^([^:#\s][^:]*):\s*(.*)$/);
+        if (!keyValue) {
+            continue;
+        }
+        const key = keyValue[1].trim();
+        const rawValue = keyValue[2].trim();
+        currentListKey = null;
+        if (rawValue === '') {
+            frontmatter[key] = [];
+            currentListKey = key;
+        } else if (rawValue.startsWith('[') && rawValue.endsWith(']')) {
+            frontmatter[key] = rawValue.slice(1, -1).split(',').map(item => String(parseScalar(item))).filter(Boolean);
+        } else {
+            frontmatter[key] = parseScalar(rawValue);
+        }
+    }
+    return {frontmatter, body: content.slice(match[0].length)};
+}
@@ -0,0 +1,210 @@
+import path from 'path';
+import fs from 'fs/promises';
+import {config} from '../config';
+import {logger} from '../utils/logger';
+import {normalizeTag, parseFrontmatter} from './frontmatter';
+import {findRelatedNotes, getIndexedNoteNames, IndexedNoteName, RelatedNoteQuery} from './searchIndex';
+import {findNoteByPath, hashNoteBody, splitAtManualEditsMarker, updateNoteRecord} from './noteRegistry';
+import {getVault, Vault} from '../vaults/vaultRegistry';
+
+// Code, links and URLs are never turned into links
+const PROTECTED_PATTERN = /```[\s\S]*?```|`[^`\n]*`|!?\[\[[^\]]*]]|!?\[[^\]]*]\([^)]*\)|https?:\/\/\S+/g;
+// [[target#heading|alias]], embeds included
+const WIKILINK_PATTERN = /!?\[\[([^\]|#]+)(#[^\]|]*)?(?:\|([^\]]*))?]]/g;
+// What may be left of a list item besides a link for the whole item to go with it: nothing, or a daily note timestamp
+const LINK_ONLY_ITEM_PATTERN = /^\s*(?:[-*+]|\d+\.)\s+(?:[\d:.]+(?:\s?[ap]m)?\s+)?$/i;
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Wikilink to a vault-relative note path the way Obsidian writes it: the file name alone, or the
+ * path without `.md` when another note has the same file name; `display` becomes the alias part.
+ */
+export function toWikilink(notePath: string, names: IndexedNoteName[], display?: string): string {
+    const basename = path.posix.basename(notePath, '.md');
+    const ambiguous = names.some(name => name.path !== notePath && path.posix.basename(name.path, '.md') === basename);
+    const target = ambiguous ? notePath.replace(/\.md$/, '') : basename;
+    return display && display !== target ? `[[${target}|${display}]]` : `[[${target}]]`;
+}
+
+/**
+ * Links the first mention of each known note title or alias in the text (AUTO_LINK). Longer
+ * names win over names they contain, matching ignores case but keeps the text as written, and
+ * code, existing links and URLs are left alone. `ownPath` is the note the text goes into, if it exists.
+ */
+export async function autoLinkText(vault: Vault, text: string, ownPath?: string): Promise<string> {
+    if (!config.AUTO_LINK || !text.trim()) {
+        return text;
+    }
+    const names = await getIndexedNoteNames(vault.settings);
+    const candidates = names
+        .filter(name => name.path !== ownPath)
+        .flatMap(name => [name.title, ...name.aliases].map(label => ({label: label.trim(), note: name})))
+        .filter(({label}) => label.length >= config.AUTO_LINK_MIN_LENGTH)
+        .sort((a, b) => b.label.length - a.label.length);
+
+    const claimed: { start: number, end: number, link?: string }[] = Array.from(text.matchAll(PROTECTED_PATTERN),
+        match => ({start: match.index!, end: match.index! + match[0].length}));
+    const linkedNotes = new Set<string>();
+    for (const {label, note} of candidates) {
+        if (linkedNotes.has(note.path)) continue;
+        const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(label)}(?![\\p{L}\\p{N}])`, 'giu');
+        for (const match of text.matchAll(pattern)) {
+            const start = match.index!;
+            const end = start + match[0].length;
+            if (claimed.some(range => start < range.end && end > range.start)) continue;
+            claimed.push({start, end, link: toWikilink(note.path, names, match[0])});
+            linkedNotes.add(note.path);
+            break;
+        }
+    }
+
+    const links = claimed.filter(range => range.link).sort((a, b) => b.start - a.start);
+    if (links.length > 0) {
+        logger.debug(`Auto-linked ${links.length} note mention(s)`);
+    }
+    return links.reduce((result, range) => result.slice(0, range.start) + range.link + result.slice(range.end), text);
+}
+
+// Wikilinks for the "Related" section (RELATED_NOTES_LIMIT); topic notes are not suggested
+export async function findRelatedLinks(vault: Vault, query: RelatedNoteQuery): Promise<string[]> {
+    if (config.RELATED_NOTES_LIMIT <= 0) {
+        return [];
+    }
+    try {
+        const names = await getIndexedNoteNames(vault.settings);
+        const related = await findRelatedNotes(vault.settings, query, config.RELATED_NOTES_LIMIT, config.MOC_FOLDER ? [config.MOC_FOLDER] : []);
+        return related.map(note => toWikilink(note.path, names));
+    } catch (error: any) {
+        // A note without suggestions is better than no note
+        logger.warn(`Could not find related notes: ${error.message}`);
+        return [];
+    }
+}
+
+/**
+ * Adds a link to the note to one topic note (map of content) per hashtag in MOC_FOLDER, e.g.
+ * `Topics/recipe/italian.md` for #recipe/italian, creating it if needed. Returns the full paths
+ * of the topic notes that changed.
+ */
+export async function addToTopicNotes(vault: Vault, notePath: string, title: string, hashtags: string[]): Promise<string[]> {
+    if (!config.MOC_FOLDER) {
+        return [];
+    }
+    const names = await getIndexedNoteNames(vault.settings);
+    const link = toWikilink(notePath, names, title);
+    const changed: string[] = [];
+    for (const tag of Array.from(new Set(hashtags.map(normalizeTag).filter(Boolean)))) {
+        const topicPath = vault.files.resolveVaultPath(path.join(config.MOC_FOLDER, `${tag}.md`));
+        let content: string | null = null;
+        try {
+            content = await fs.readFile(topicPath, 'utf8');
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') throw error;
+        }
+        if (content?.includes(link)) continue;
+        if (content === null) {
+            await fs.mkdir(path.dirname(topicPath), {recursive: true});
+        }
+        const updated = content === null ? `# ${tag}\n\n- ${link}\n` : `${content.trimEnd()}\n- ${link}\n`;
+        await fs.writeFile(topicPath, updated, {encoding: 'utf8'});
+        changed.push(topicPath);
+    }
+    if (changed.length > 0) {
+        logger.info(`Linked ${notePath} from ${changed.length} topic note(s)`);
+    }
+    return changed;
+}
+
+// Whether a wikilink target ("Note", "Folder/Note", "Note.md") points at a vault-relative note path
+function isLinkTo(target: string, notePath: string): boolean {
+    const normalizedTarget = target.trim().replace(/\\/g, '/').replace(/\.md$/i, '').toLowerCase();
+    const normalizedPath = notePath.replace(/\\/g, '/').replace(/\.md$/i, '').toLowerCase();
+    return normalizedTarget === normalizedPath || normalizedTarget === path.posix.basename(normalizedPath);
+}
+
+export interface NoteLinkChange {
+    oldPath: string; // Vault-relative
+    newPath?: string; // Undefined once the note is deleted
+    oldTitle?: string; // Aliases showing the old title get the new one
+    newTitle?: string;
+}
+
+/**
+ * Rewrites the links to a note in some text: to the new file name (or path, if the link used
+ * one) after a rename or move, or away once the note is deleted. Then list items that are just
+ * the link (topic notes, "Related" sections, daily note entries) are dropped and any other link
+ * becomes its text.
+ */
+export function rewriteLinksToNote(text: string, change: NoteLinkChange): string {
+    const replaceLinks = (line: string, removed: (display: string) => string) => line.replace(WIKILINK_PATTERN, (link: string, target: string, heading?: string, alias?: string) => {
+        if (!isLinkTo(target, change.oldPath)) return link;
+        if (!change.newPath) return removed(alias || target.trim());
+        const newPath = change.newPath.replace(/\\/g, '/').replace(/\.md$/, '');
+        const newTarget = target.includes('/') ? newPath : path.posix.basename(newPath);
+        const displayed = alias !== undefined && alias === change.oldTitle && change.newTitle ? change.newTitle : alias;
+        const aliasPart = displayed !== undefined && displayed !== newTarget ? `|${displayed}` : '';
+        return `${link.startsWith('!') ? '!' : ''}[[${newTarget}${heading || ''}${aliasPart}]]`;
+    });
+    return text.split('\n')
+        .filter(line => {
+            if (change.newPath) return true;
+            const withoutLinks = replaceLinks(line, () => '');
+            return withoutLinks === line || !LINK_ONLY_ITEM_PATTERN.test(withoutLinks);
+        })
+        .map(line => replaceLinks(line, display => display))
+        .join('\n');
+}
+
+/**
+ * Applies a rename, move or deletion of a note to the notes linking to it (`linkingPaths`,
+ * vault-relative). A linking bot note keeps its edit sync working: its body hash and "Related"
+ * links follow, unless it had been edited by hand already. Returns the full paths that changed.
+ */
+export async function updateLinksToNote(vault: Vault, linkingPaths: string[], change: NoteLinkChange): Promise<string[]> {
+    const changed: string[] = [];
+    const defaultVaultId = getVault().settings.id;
+    for (const linkingPath of Array.from(new Set(linkingPaths))) {
+        const fullPath = vault.files.resolveVaultPath(linkingPath);
+        let content: string;
+        try {
+            content = await fs.readFile(fullPath, 'utf8');
+        } catch (error: any) {
+            logger.debug(`Skipping links in ${linkingPath}: ${error.message}`);
+            continue;
+        }
+        const updated = rewriteLinksToNote(content, change);
+        if (updated === content) continue;
+        await fs.writeFile(fullPath, updated, {encoding: 'utf8'});
+        changed.push(fullPath);
+
+        const record = findNoteByPath(linkingPath, vault.settings.id, defaultVaultId);
+        if (record) {
+            const generatedHash = (text: string) => hashNoteBody(splitAtManualEditsMarker(parseFrontmatter(text).body, config.MANUAL_EDITS_MARKER)[0]);
+            const relatedLinks = record.relatedLinks?.map(link => rewriteLinksToNote(link, change)).filter(Boolean);
+            updateNoteRecord(record, {
+                bodyHash: generatedHash(content) === record.bodyHash ? generatedHash(updated) : record.bodyHash,
+                relatedLinks: relatedLinks?.length ? relatedLinks : undefined,
+            });
+        }
+    }
+    if (changed.length > 0) {
+        logger.info(`Updated links to ${change.oldPath} in ${changed.length} note(s)`);
+    }
+    return changed;
+}
+
+// Remembers which bot notes the text of `fromPath` links to, so renaming or removing them later updates its links too
+export async function recordLinksFrom(vault: Vault, fromPath: string, text: string): Promise<void> {
+    const names = await getIndexedNoteNames(vault.settings);
+    const defaultVaultId = getVault().settings.id;
+    for (const match of text.matchAll(WIKILINK_PATTERN)) {
+        const target = names.find(name => isLinkTo(match[1], name.path));
+        const record = target && findNoteByPath(target.path, vault.settings.id, defaultVaultId);
+        if (record && record.notePath !== fromPath && !record.linkedFrom?.includes(fromPath)) {
+            updateNoteRecord(record, {linkedFrom: [...(record.linkedFrom || []), fromPath]});
+        }
+    }
+}
@@ -0,0 +1,64 @@
+import {getFrontmatterProperty, normalizeTag} from './frontmatter';
+import {moveLinkSource, SavedNoteRecord, updateNoteRecord} from './noteRegistry';
+import {NoteLinkChange, updateLinksToNote} from './noteLinker';
+import {addTagsToIndex} from './tagVocabulary';
+import {getVault, Vault} from '../vaults/vaultRegistry';
+
+// Changes to saved notes shared by chat commands and review mode. Each returns the full paths
+// touched (including removed ones), which the caller commits to the note's vault.
+
+// Points the links to a renamed, moved or deleted note at its new path, or removes them
+async function updateLinksToSavedNote(vault: Vault, record: SavedNoteRecord, change: NoteLinkChange): Promise<string[]> {
+    const changedPaths = await updateLinksToNote(vault, record.linkedFrom || [], change);
+    moveLinkSource(change.oldPath, change.newPath, vault.settings.id, getVault().settings.id);
+    return changedPaths;
+}
+
+// Renames the note file and updates its title, keeping the old title as an alias so links still resolve
+export async function retitleSavedNote(vault: Vault, record: SavedNoteRecord, newTitle: string): Promise<string[]> {
+    const oldPath = record.notePath;
+    const newPath = await vault.files.moveNote(oldPath, undefined, newTitle);
+    await vault.files.updateNoteFrontmatter(newPath, frontmatter => {
+        const titleProperty = getFrontmatterProperty('title');
+        const aliasesProperty = getFrontmatterProperty('aliases');
+        if (titleProperty) frontmatter[titleProperty] = newTitle;
+        if (aliasesProperty) {
+            const aliases = Array.isArray(frontmatter[aliasesProperty]) ? frontmatter[aliasesProperty] as string[] : [];
+            frontmatter[aliasesProperty] = Array.from(new Set([...aliases, record.title, newTitle]));
+        }
+    });
+    const oldTitle = record.title;
+    updateNoteRecord(record, {notePath: newPath, title: newTitle});
+    const linkingPaths = await updateLinksToSavedNote(vault, record, {oldPath, newPath, oldTitle, newTitle});
+    return Array.from(new Set([vault.files.toFullPath(oldPath), vault.files.toFullPath(newPath), ...linkingPaths]));
+}
+
+// Replaces the note's tags (with or without '#')
+export async function setSavedNoteTags(vault: Vault, record: SavedNoteRecord, tags: string[]): Promise<string[]> {
+    const normalizedTags = tags.map(normalizeTag).filter(Boolean);
+    const tagsProperty = getFrontmatterProperty('tags') || 'tags';
+    const fullPath = await vault.files.updateNoteFrontmatter(record.notePath, frontmatter => {
+        frontmatter[tagsProperty] = normalizedTags;
+    });
+    const previousTags = record.hashtags.map(normalizeTag);
+    addTagsToIndex(vault.settings, normalizedTags.filter(tag => !previousTags.includes(tag)));
+    updateNoteRecord(record, {hashtags: normalizedTags.map(tag => `#${tag}`)});
+    return [fullPath];
+}
+
+// Moves the note to another vault folder; assets stay where they are since embeds resolve by name
+export async function moveSavedNote(vault: Vault, record: SavedNoteRecord, folder: string): Promise<string[]> {
+    const oldPath = record.notePath;
+    const newPath = await vault.files.moveNote(oldPath, folder);
+    if (newPath === oldPath) {
+        return [];
+    }
+    updateNoteRecord(record, {notePath: newPath});
+    const linkingPaths = await updateLinksToSavedNote(vault, record, {oldPath, newPath});
+    return [vault.files.toFullPath(oldPath), vault.files.toFullPath(newPath), ...linkingPaths];
+}
+
+// Before /undo deletes the note: list items that only link to it go, other links become plain text
+export async function unlinkSavedNote(vault: Vault, record: SavedNoteRecord): Promise<string[]> {
+    return updateLinksToSavedNote(vault, record, {oldPath: record.notePath});
+}
@@ -0,0 +1,128 @@
+import path from 'path';
+import crypto from 'crypto';
+import {dataPath} from '../config';
+import {readJsonFile, writeJsonFileAtomic} from '../utils/jsonFile';
+import {NoteSummary} from '../ai/aiProvider';
+
+// What the bot remembers about a note it created, keyed by the Telegram message(s) it came from
+export interface SavedNoteRecord {
+    vaultId?: string; // Vault the note was written to; the default vault if missing (notes saved before multi-vault support)
+    chatId: number;
+    messageIds: number[]; // Several for albums
+    captionMessageId?: number; // Album item that carries the caption; edits of the other items are ignored
+    notePath: string; // Relative to the vault root
+    assetPaths: string[]; // Relative to the vault root
+    reusedAssetPaths?: string[]; // Assets that were already in the vault (ASSET_DEDUP); never deleted with the note
+    assetLinks: string[]; // Embeds as written into the note
+    title: string;
+    hashtags: string[];
+    template?: string; // Template note used for the body, if not the default one
+    transcripts?: string[];
+    linkSections?: string[]; // Rendered link previews, reused when the message is edited
+    relatedLinks?: string[]; // Wikilinks of the "Related" section, reused when the message is edited
+    linkedFrom?: string[]; // Vault-relative notes the bot linked this note from (daily, topic and tasks notes, later notes); fixed on rename, move and undo
+    summary?: NoteSummary; // AI summary of long content, reused when the message is edited
+    bodyHash: string; // Hash of the bot-generated body, to detect manual edits
+    savedAt: number; // ms timestamp
+    updatedAt?: number;
+}
+
+const registryFile = path.join(dataPath, 'note-registry.json');
+
+let records: SavedNoteRecord[] | null = null;
+
+function getRecords(): SavedNoteRecord[] {
+    if (!records) {
+        records = readJsonFile<SavedNoteRecord[]>(registryFile, []);
+    }
+    return records;
+}
+
+function flush(): void {
+    writeJsonFileAtomic(registryFile, getRecords());
+}
+
+export function hashNoteBody(body: string): string {
+    return crypto.createHash('sha256').update(body.trim()).digest('hex');
+}
+
+export function registerSavedNote(record: SavedNoteRecord): void {
+    const list = getRecords();
+    // A message maps to one note; drop anything previously recorded for the same messages
+    const stale = list.filter(existing => existing.chatId === record.chatId && existing.messageIds.some(id => record.messageIds.includes(id)));
+    records = list.filter(existing => !stale.includes(existing));
+    records.push(record);
+    flush();
+}
+
+export function findNoteByMessage(chatId: number, messageId: number): SavedNoteRecord | undefined {
+    return getRecords().find(record => record.chatId === chatId && record.messageIds.includes(messageId));
+}
+
+// The record of a note by its vault-relative path; records without vault id belong to `defaultVaultId`
+export function findNoteByPath(notePath: string, vaultId: string, defaultVaultId: string): SavedNoteRecord | undefined {
+    const normalized = path.normalize(notePath);
+    return getRecords().find(record => (record.vaultId || defaultVaultId) === vaultId && path.normalize(record.notePath) === normalized);
+}
+
+// A note that links to others was renamed or moved (`newPath`), or deleted: keeps their linkedFrom lists current
+export function moveLinkSource(oldPath: string, newPath: string | undefined, vaultId: string, defaultVaultId: string): void {
+    let changed = false;
+    for (const record of getRecords().filter(candidate => (candidate.vaultId || defaultVaultId) === vaultId && candidate.linkedFrom?.includes(oldPath))) {
+        const linkedFrom = record.linkedFrom!.filter(source => source !== oldPath);
+        record.linkedFrom = newPath && !linkedFrom.includes(newPath) ? [...linkedFrom, newPath] : linkedFrom;
+        changed = true;
+    }
+    if (changed) {
+        flush();
+    }
+}
+
+// Most recently saved note in a chat (for /undo and commands without a reply)
+export function findLatestNoteInChat(chatId: number): SavedNoteRecord | undefined {
+    return getRecords()
+        .filter(record => record.chatId === chatId)
+        .reduce<SavedNoteRecord | undefined>((latest, record) => (!latest || record.savedAt > latest.savedAt ? record : latest), undefined);
+}
+
+// Assets the note wrote itself that no other note of its vault uses (identical files are shared, see ASSET_DEDUP)
+export function getUnsharedAssetPaths(record: SavedNoteRecord): string[] {
+    const others = getRecords().filter(other => other !== record && (other.vaultId || null) === (record.vaultId || null));
+    return record.assetPaths.filter(assetPath => !record.reusedAssetPaths?.includes(assetPath)
+        && !others.some(other => other.assetPaths.includes(assetPath)));
+}
+
+// Vault-relative notes and assets the bot wrote into a vault; records without vault id belong to the default vault
+export function getRegisteredFilePaths(vaultId: string, defaultVaultId: string): string[] {
+    return getRecords()
+        .filter(record => (record.vaultId || defaultVaultId) === vaultId)
+        .flatMap(record => [record.notePath, ...record.assetPaths.filter(assetPath => !record.reusedAssetPaths?.includes(assetPath))]);
+}
+
+export function removeNoteRecord(record: SavedNoteRecord): void {
+    records = getRecords().filter(existing => existing !== record);
+    flush();
+}
+
+export function updateNoteRecord(record: SavedNoteRecord, changes: Partial<SavedNoteRecord>): SavedNoteRecord {
+    Object.assign(record, changes, {updatedAt: Date.now()});
+    flush();
+    return record;
+}
+
+// Splits a note body at the manual-edits marker: [bot-generated part, everything after the marker (undefined without marker)]
+export function splitAtManualEditsMarker(body: string, marker: string): [string, string | undefined] {
+    const index = marker ? body.indexOf(marker) : -1;
+    if (index === -1) {
+        return [body.trim(), undefined];
+    }
+    return [body.slice(0, index).trim(), body.slice(index + marker.length)];
+}
+
+// Inverse of splitAtManualEditsMarker
+export function joinWithManualEditsMarker(generated: string, manualPart: string | undefined, marker: string): string {
+    if (!marker) {
+        return `${generated.trim()}\n`;
+    }
+    return `${generated.trim()}\n\n${marker}${manualPart ?? '\n'}`;
+}
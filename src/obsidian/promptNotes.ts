@@ -0,0 +1,64 @@
+import path from 'path';
+import fs from 'fs/promises';
+import {config} from '../config';
+import {logger} from '../utils/logger';
+import {parseFrontmatter} from './frontmatter';
+import {NoteRoute} from './routingService';
+import {VaultSettings} from '../vaults/vaultSettings';
+
+/**
+ * Prompt notes hold extra instructions for the AI, written in the vault like any other note
+ * (frontmatter and %% comments %% are left out). The routing rule's `prompt` note wins; otherwise
+ * the AI_PROMPT_NOTE_NAME note in the note's folder or the nearest folder above it, up to the vault root.
+ */
+
+async function readPromptNote(fullPath: string): Promise<string | undefined> {
+    let content: string;
+    try {
+        content = await fs.readFile(fullPath, 'utf8');
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return undefined;
+        throw error;
+    }
+    const instructions = parseFrontmatter(content).body.replace(/%%[\s\S]*?%%/g, '').trim();
+    return instructions || undefined;
+}
+
+function rulePromptPath(vault: VaultSettings, promptPath: string): string | undefined {
+    const withExtension = promptPath.endsWith('.md') ? promptPath : `${promptPath}.md`;
+    const fullPath = path.resolve(vault.path, withExtension);
+    if (!fullPath.startsWith(path.resolve(vault.path) + path.sep)) {
+        logger.warn(`Prompt path "${promptPath}" points outside the vault, ignoring it.`);
+        return undefined;
+    }
+    return fullPath;
+}
+
+// Instructions for the note going to `route`, or undefined; a prompt note that can't be read never blocks saving
+export async function loadPromptInstructions(vault: VaultSettings, route: NoteRoute): Promise<string | undefined> {
+    try {
+        if (route.prompt) {
+            const fullPath = rulePromptPath(vault, route.prompt);
+            const instructions = fullPath && await readPromptNote(fullPath);
+            if (!instructions) {
+                logger.warn(`Prompt note "${route.prompt}" of routing rule "${route.ruleName || 'unnamed'}" is missing or empty.`);
+            }
+            return instructions;
+        }
+        if (!config.AI_PROMPT_NOTE_NAME) {
+            return undefined;
+        }
+        const segments = route.folder.split('/').filter(Boolean);
+        for (let depth = segments.length; depth >= 0; depth--) {
+            const fullPath = path.join(vault.path, ...segments.slice(0, depth), config.AI_PROMPT_NOTE_NAME);
+            const instructions = await readPromptNote(fullPath);
+            if (instructions) {
+                logger.debug(`Using prompt note ${path.relative(vault.path, fullPath)}`);
+                return instructions;
+            }
+        }
+    } catch (error: any) {
+        logger.warn(`Failed to read prompt note for folder "${route.folder}": ${error.message}`);
+    }
+    return undefined;
+}
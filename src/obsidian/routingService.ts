@@ -0,0 +1,129 @@
+import path from 'path';
+import fs from 'fs/promises';
+import {config} from '../config';
+import {logger} from '../utils/logger';
+import {QueueTask} from '../queue/taskTypes';
+import {renderTemplate, TemplateContext} from './templateService';
+import {VaultSettings} from '../vaults/vaultSettings';
+
+/**
+ * A routing rule from ROUTING_RULES_PATH. All conditions given in `match` must hold;
+ * list conditions match if any entry matches. The first matching rule wins.
+ *
+ * Example:
+ * [{ "name": "channels", "match": { "mediaType": ["text"], "sourceChannel": ["some_channel"] },
+ *    "folder": "Sources/{{source_channel}}", "template": "Templates/Telegram Source", "prompt": "Prompts/Sources" }]
+ */
+export interface RoutingRule {
+    name?: string;
+    match: {
+        hashtags?: string[]; // With or without '#', case-insensitive
+        sourceChannel?: string[]; // Channel username (without @), title or chat id
+        mediaType?: string[]; // MediaInfo types, or 'text' for messages without media
+        sender?: string[]; // Telegram user id or username
+    };
+    folder?: string; // Vault-relative, may use template placeholders
+    template?: string; // Vault-relative path of a template note
+    prompt?: string; // Vault-relative path of a prompt note with extra AI instructions
+}
+
+export interface NoteRoute {
+    ruleName?: string;
+    folder: string; // Vault-relative
+    template?: string;
+    prompt?: string;
+}
+
+function normalize(value: string): string {
+    return value.trim().replace(/^[#@]/, '').toLowerCase();
+}
+
+function matchesAny(candidates: (string | number | undefined)[], expected: string[]): boolean {
+    const normalizedCandidates = candidates
+        .filter((candidate): candidate is string | number => candidate !== undefined && candidate !== '')
+        .map(candidate => normalize(String(candidate)));
+    return expected.some(value => normalizedCandidates.includes(normalize(value)));
+}
+
+// Without `hashtags` (before the AI picked them) rules with a hashtag condition never match
+function ruleMatches(rule: RoutingRule, task: QueueTask, hashtags?: string[]): boolean {
+    const {match} = rule;
+    if (!match) return false;
+    if (match.hashtags && (!hashtags || !matchesAny(hashtags, match.hashtags))) {
+        return false;
+    }
+    if (match.sourceChannel) {
+        const source = task.forwardSource;
+        if (!source || !matchesAny([source.username, source.title, source.chatId], match.sourceChannel)) {
+            return false;
+        }
+    }
+    if (match.mediaType) {
+        const mediaTypes = task.media?.length ? task.media.map(media => media.type) : ['text'];
+        if (!matchesAny(mediaTypes, match.mediaType)) {
+            return false;
+        }
+    }
+    if (match.sender && !matchesAny([task.userId, task.username], match.sender)) {
+        return false;
+    }
+    return true;
+}
+
+async function loadRoutingRules(vault: VaultSettings): Promise<RoutingRule[]> {
+    if (!config.ROUTING_RULES_PATH) {
+        return [];
+    }
+    // Read on every task: the file may live in the vault and change with a git pull
+    const rulesPath = path.resolve(vault.path, config.ROUTING_RULES_PATH);
+    try {
+        const rules = JSON.parse(await fs.readFile(rulesPath, 'utf8'));
+        if (!Array.isArray(rules)) {
+            throw new Error('Routing rules file must contain a JSON array.');
+        }
+        return rules;
+    } catch (error: any) {
+        logger.error(`Failed to load routing rules from ${rulesPath}, using default folder: ${error.message}`);
+        return [];
+    }
+}
+
+// Keeps rendered folder names inside the vault and free of characters invalid in paths
+function sanitizeFolder(folder: string): string {
+    return folder
+        .split(/[\\/]+/)
+        .map(segment => segment.replace(/[?%*:|"<>]/g, '-').trim())
+        .filter(segment => segment && segment !== '.' && segment !== '..')
+        .join('/');
+}
+
+function buildRoute(rule: RoutingRule | undefined, task: QueueTask, context: TemplateContext, vault: VaultSettings): NoteRoute {
+    // Notes captured from a group/channel go to its configured folder unless a rule says otherwise
+    const defaultFolder = (task.targetFolder && sanitizeFolder(renderTemplate(task.targetFolder, context))) || vault.notesFolder;
+    if (!rule) {
+        return {folder: defaultFolder};
+    }
+    const folder = rule.folder ? sanitizeFolder(renderTemplate(rule.folder, context)) : '';
+    return {
+        ruleName: rule.name,
+        folder: folder || defaultFolder,
+        template: rule.template,
+        prompt: rule.prompt,
+    };
+}
+
+export async function resolveNoteRoute(vault: VaultSettings, task: QueueTask, hashtags: string[], context: TemplateContext): Promise<NoteRoute> {
+    const rules = await loadRoutingRules(vault);
+    const rule = rules.find(candidate => ruleMatches(candidate, task, hashtags));
+    const route = buildRoute(rule, task, context, vault);
+    if (rule) {
+        logger.info(`Routing rule "${rule.name || 'unnamed'}" matched messageId ${task.messageId}: folder="${route.folder}"`);
+    }
+    return route;
+}
+
+// Route as far as it is known before the AI call, which picks the prompt note; hashtag rules can't match yet
+export async function resolvePromptRoute(vault: VaultSettings, task: QueueTask, context: TemplateContext): Promise<NoteRoute> {
+    const rules = await loadRoutingRules(vault);
+    return buildRoute(rules.find(candidate => ruleMatches(candidate, task)), task, context, vault);
+}
@@ -0,0 +1,462 @@
+import path from 'path';
+import fs from 'fs/promises';
+import crypto from 'crypto';
+import {config, dataPath} from '../config';
+import {logger} from '../utils/logger';
+import {readJsonFile, writeJsonFileAtomic} from '../utils/jsonFile';
+import {getAiProvider} from '../ai/aiService';
+import {getFrontmatterProperty, normalizeTag, parseFrontmatter} from './frontmatter';
+import {extractNoteTags} from './tagVocabulary';
+import {listMarkdownFiles} from './vaultService';
+import {VaultSettings} from '../vaults/vaultSettings';
+
+/**
+ * Keyword index over all notes of a vault, kept in DATA_DIR so a restart only re-reads notes
+ * whose size or modification time changed. With SEARCH_SEMANTIC, notes also get an embedding
+ * from the vault's AI provider, and results of both rankings are merged.
+ */
+
+interface IndexedNote {
+    title: string;
+    aliases: string[];
+    tags: string[]; // Lowercase, without '#'
+    mtimeMs: number;
+    size: number;
+    terms: Record<string, number>; // Term -> frequency; title and tag words count extra
+    length: number; // Sum of the frequencies, for length normalization
+    embedding?: string; // Base64 Float32Array of title, tags and body
+}
+
+interface SearchIndexFile {
+    version: number;
+    notes: Record<string, IndexedNote>; // Keyed by vault-relative path with '/'
+}
+
+interface SearchIndexState {
+    notes: Map<string, IndexedNote> | null;
+    chain: Promise<unknown>; // Index updates run one after another
+    refreshedAt: number; // Last full scan; 0 forces one
+}
+
+export interface IndexedNoteName {
+    path: string; // Vault-relative
+    title: string;
+    aliases: string[];
+}
+
+export interface RelatedNoteQuery {
+    title: string;
+    tags: string[]; // With or without '#'
+    text: string;
+}
+
+export interface SearchResult {
+    path: string; // Vault-relative
+    title: string;
+    tags: string[];
+    snippet: string;
+}
+
+const INDEX_VERSION = 2;
+const TITLE_WEIGHT = 3;
+const TAG_WEIGHT = 2;
+const REFRESH_MAX_AGE_MS = 60000; // Catches changes made without the bot (other sync tools, local edits)
+const EMBEDDING_BATCH_SIZE = 32;
+const EMBEDDING_INPUT_CHARS = 6000;
+const SNIPPET_LENGTH = 160;
+const RELATED_MIN_SCORE = 2; // One shared tag, a mention, or half of the distinctive words in common
+const DISTINCTIVE_WORD_COUNT = 10;
+
+const searchIndexes = new Map<string, SearchIndexState>(); // Per vault id
+
+function getIndexFile(vault: VaultSettings): string {
+    return path.join(dataPath, `search-index-${vault.id.replace(/[^\w-]/g, '_')}.json`);
+}
+
+function getState(vault: VaultSettings): SearchIndexState {
+    let state = searchIndexes.get(vault.id);
+    if (!state) {
+        state = {notes: null, chain: Promise.resolve(), refreshedAt: 0};
+        searchIndexes.set(vault.id, state);
+    }
+    return state;
+}
+
+// Runs index work after whatever is in progress for the vault
+function runExclusive<T>(vault: VaultSettings, operation: (notes: Map<string, IndexedNote>) => Promise<T>): Promise<T> {
+    const state = getState(vault);
+    const run = state.chain.then(() => {
+        if (!state.notes) {
+            const file = readJsonFile<SearchIndexFile | null>(getIndexFile(vault), null);
+            state.notes = new Map(file?.version === INDEX_VERSION ? Object.entries(file.notes) : []);
+        }
+        return operation(state.notes);
+    });
+    state.chain = run.catch(() => undefined);
+    return run;
+}
+
+function saveIndex(vault: VaultSettings, notes: Map<string, IndexedNote>): void {
+    const file: SearchIndexFile = {version: INDEX_VERSION, notes: Object.fromEntries(notes)};
+    writeJsonFileAtomic(getIndexFile(vault), file);
+}
+
+function tokenize(text: string): string[] {
+    return (text.normalize('NFKC').toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(token => token.length >= 2);
+}
+
+function addTerms(terms: Record<string, number>, tokens: string[], weight: number): void {
+    tokens.forEach(token => terms[token] = (terms[token] || 0) + weight);
+}
+
+function toRelativeKey(vault: VaultSettings, fullPath: string): string {
+    return path.relative(vault.path, fullPath).split(path.sep).join('/');
+}
+
+function noteTitle(frontmatter: Record<string, unknown> | null, key: string): string {
+    const title = frontmatter?.[getFrontmatterProperty('title') || 'title'];
+    return typeof title === 'string' && title.trim() ? title.trim() : path.posix.basename(key, '.md');
+}
+
+function noteAliases(frontmatter: Record<string, unknown> | null): string[] {
+    const aliases = frontmatter?.[getFrontmatterProperty('aliases') || 'aliases'];
+    return (Array.isArray(aliases) ? aliases : typeof aliases === 'string' ? [aliases] : []).map(String).filter(Boolean);
+}
+
+function buildEntry(key: string, content: string, stats: { mtimeMs: number, size: number }): IndexedNote {
+    const {frontmatter, body} = parseFrontmatter(content);
+    const title = noteTitle(frontmatter, key);
+    const aliases = noteAliases(frontmatter);
+    const tags = Array.from(new Set(extractNoteTags(content).map(tag => normalizeTag(tag).toLowerCase()).filter(Boolean)));
+    const terms: Record<string, number> = {};
+    addTerms(terms, tokenize([title, ...aliases].join(' ')), TITLE_WEIGHT);
+    addTerms(terms, tags.flatMap(tokenize), TAG_WEIGHT);
+    addTerms(terms, tokenize(body), 1);
+    const length = Object.values(terms).reduce((sum, count) => sum + count, 0);
+    return {title, aliases, tags, mtimeMs: stats.mtimeMs, size: stats.size, terms, length};
+}
+
+// (Re-)indexes one note; returns false if it is unchanged
+async function indexFile(vault: VaultSettings, notes: Map<string, IndexedNote>, fullPath: string): Promise<boolean> {
+    const key = toRelativeKey(vault, fullPath);
+    let stats;
+    try {
+        stats = await fs.stat(fullPath);
+    } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+        return notes.delete(key);
+    }
+    const existing = notes.get(key);
+    if (existing && existing.mtimeMs === stats.mtimeMs && existing.size === stats.size) {
+        return false;
+    }
+    notes.set(key, buildEntry(key, await fs.readFile(fullPath, 'utf8'), stats));
+    return true;
+}
+
+function encodeVector(vector: number[]): string {
+    return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+    return new Float32Array(new Uint8Array(Buffer.from(encoded, 'base64')).buffer); // Copied, as Float32Array needs an aligned offset
+}
+
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function getEmbedder(vault: VaultSettings): ((texts: string[]) => Promise<number[][]>) | undefined {
+    if (!config.SEARCH_SEMANTIC) return undefined;
+    const provider = getAiProvider(vault);
+    return provider.embed ? texts => provider.embed!(texts) : undefined;
+}
+
+// Embeds notes that changed since their last embedding; on failure search simply stays keyword-only for them
+async function embedMissingNotes(vault: VaultSettings, notes: Map<string, IndexedNote>): Promise<boolean> {
+    const embed = getEmbedder(vault);
+    if (!embed) return false;
+    const missing = Array.from(notes.entries()).filter(([, note]) => !note.embedding);
+    let changed = false;
+    for (let start = 0; start < missing.length; start += EMBEDDING_BATCH_SIZE) {
+        const batch = missing.slice(start, start + EMBEDDING_BATCH_SIZE);
+        try {
+            const inputs = await Promise.all(batch.map(async ([key, note]) => {
+                const content = await fs.readFile(path.join(vault.path, key), 'utf8').catch(() => '');
+                return `${note.title}\n${note.tags.map(tag => `#${tag}`).join(' ')}\n${parseFrontmatter(content).body}`.substring(0, EMBEDDING_INPUT_CHARS);
+            }));
+            const vectors = await embed(inputs);
+            batch.forEach(([, note], index) => {
+                if (vectors[index]) note.embedding = encodeVector(vectors[index]);
+            });
+            changed = true;
+        } catch (error: any) {
+            logger.warn(`Search index of vault "${vault.id}": embedding ${batch.length} notes failed, semantic search skips them for now: ${error.message}`);
+            break;
+        }
+    }
+    return changed;
+}
+
+// Brings the index up to date with the vault: changed notes are re-read, deleted ones dropped
+export function refreshSearchIndex(vault: VaultSettings): Promise<void> {
+    return runExclusive(vault, async notes => {
+        const startedAt = Date.now();
+        const files = await listMarkdownFiles(vault.path);
+        const seen = new Set(files.map(file => toRelativeKey(vault, file)));
+        let changed = 0;
+        for (const file of files) {
+            try {
+                if (await indexFile(vault, notes, file)) changed++;
+            } catch (error: any) {
+                logger.warn(`Search index: could not read ${file}: ${error.message}`);
+            }
+        }
+        for (const key of Array.from(notes.keys())) {
+            if (!seen.has(key)) {
+                notes.delete(key);
+                changed++;
+            }
+        }
+        const embedded = await embedMissingNotes(vault, notes);
+        if (changed > 0 || embedded) {
+            saveIndex(vault, notes);
+            logger.info(`Search index of vault "${vault.id}" refreshed: ${changed} of ${notes.size} notes changed in ${Date.now() - startedAt} ms`);
+        }
+        getState(vault).refreshedAt = Date.now();
+    });
+}
+
+// Re-indexes notes the bot just wrote or deleted (full paths; other files are ignored) in the background
+export function updateSearchIndex(vault: VaultSettings, fullPaths: string[]): void {
+    const notePaths = fullPaths.filter(fullPath => fullPath.endsWith('.md'));
+    if (notePaths.length === 0) return;
+    runExclusive(vault, async notes => {
+        let changed = false;
+        for (const notePath of notePaths) {
+            changed = await indexFile(vault, notes, notePath) || changed;
+        }
+        if (changed) {
+            await embedMissingNotes(vault, notes);
+            saveIndex(vault, notes);
+        }
+    }).catch(error => logger.warn(`Search index of vault "${vault.id}" not updated: ${error.message}`));
+}
+
+async function ensureFreshIndex(vault: VaultSettings): Promise<void> {
+    if (Date.now() - getState(vault).refreshedAt > REFRESH_MAX_AGE_MS) {
+        await refreshSearchIndex(vault);
+    }
+}
+
+// After a pull brought in notes edited elsewhere
+export function scheduleSearchIndexRefresh(vault: VaultSettings): void {
+    refreshSearchIndex(vault).catch(error => logger.warn(`Search index of vault "${vault.id}" not refreshed: ${error.message}`));
+}
+
+// Short stable id of a note path, small enough for Telegram callback data
+export function getNotePathId(relativePath: string): string {
+    return crypto.createHash('sha1').update(relativePath).digest('hex').substring(0, 16);
+}
+
+export async function findNotePathById(vault: VaultSettings, id: string): Promise<string | undefined> {
+    return runExclusive(vault, async notes => Array.from(notes.keys()).find(key => getNotePathId(key) === id));
+}
+
+// BM25 over the indexed terms; a query word also matches longer words starting with it, at half weight
+function rankByKeywords(notes: Map<string, IndexedNote>, words: string[], requiredTags: string[]): { key: string, score: number }[] {
+    const candidates = Array.from(notes.entries()).filter(([, note]) =>
+        requiredTags.every(tag => note.tags.some(noteTag => noteTag === tag || noteTag.startsWith(`${tag}/`))));
+    if (words.length === 0) {
+        // Only tags were given: newest first
+        return candidates.map(([key, note]) => ({key, score: note.mtimeMs}));
+    }
+
+    const averageLength = candidates.reduce((sum, [, note]) => sum + note.length, 0) / (candidates.length || 1);
+    const frequencies = candidates.map(([key, note]) => ({
+        key,
+        note,
+        perWord: words.map(word => {
+            let frequency = note.terms[word] || 0;
+            if (word.length >= 3) {
+                for (const [term, count] of Object.entries(note.terms)) {
+                    if (term !== word && term.startsWith(word)) frequency += count / 2;
+                }
+            }
+            return frequency;
+        }),
+    }));
+    const documentFrequencies = words.map((_, index) => frequencies.filter(entry => entry.perWord[index] > 0).length);
+
+    const k1 = 1.2, b = 0.75;
+    return frequencies
+        .map(({key, note, perWord}) => {
+            let score = 0;
+            let matchedWords = 0;
+            perWord.forEach((frequency, index) => {
+                if (frequency === 0) return;
+                matchedWords++;
+                const df = documentFrequencies[index];
+                const idf = Math.log(1 + (candidates.length - df + 0.5) / (df + 0.5));
+                score += idf * frequency * (k1 + 1) / (frequency + k1 * (1 - b + b * note.length / averageLength));
+            });
+            return {key, score: score * matchedWords / words.length}; // Notes matching every word first
+        })
+        .filter(result => result.score > 0);
+}
+
+async function rankByEmbedding(vault: VaultSettings, notes: Map<string, IndexedNote>, query: string): Promise<{ key: string, score: number }[]> {
+    const embed = getEmbedder(vault);
+    if (!embed) return [];
+    try {
+        const [queryVector] = await embed([query]);
+        return Array.from(notes.entries())
+            .filter(([, note]) => note.embedding)
+            .map(([key, note]) => ({key, score: cosineSimilarity(queryVector, decodeVector(note.embedding!))}));
+    } catch (error: any) {
+        logger.warn(`Semantic search in vault "${vault.id}" failed, using keywords only: ${error.message}`);
+        return [];
+    }
+}
+
+// Lines around the first occurrence of a query word, or the start of the note
+async function buildSnippet(vault: VaultSettings, key: string, words: string[]): Promise<string> {
+    const content = await fs.readFile(path.join(vault.path, key), 'utf8').catch(() => '');
+    const body = parseFrontmatter(content).body.replace(/\s+/g, ' ').trim();
+    const lowerBody = body.toLowerCase();
+    const positions = words.map(word => lowerBody.indexOf(word)).filter(position => position >= 0);
+    const firstMatch = positions.length > 0 ? Math.min(...positions) : 0;
+    let start = Math.max(0, firstMatch - 40);
+    const wordBoundary = body.indexOf(' ', start);
+    if (start > 0 && wordBoundary >= 0 && wordBoundary < firstMatch) {
+        start = wordBoundary + 1; // Don't cut the first word
+    }
+    const snippet = body.substring(start, start + SNIPPET_LENGTH).trim();
+    return `${start > 0 ? '…' : ''}${snippet}${start + SNIPPET_LENGTH < body.length ? '…' : ''}`;
+}
+
+/**
+ * Searches titles, tags and bodies. `#tag` words restrict the results to notes with that tag
+ * (or a nested one). With SEARCH_SEMANTIC both rankings are merged by reciprocal rank, so a
+ * note found by meaning but not by wording still shows up.
+ */
+export async function searchVault(vault: VaultSettings, query: string, limit: number): Promise<SearchResult[]> {
+    await ensureFreshIndex(vault);
+    const requiredTags = (query.match(/#[^\s#]+/g) || []).map(tag => normalizeTag(tag).toLowerCase());
+    const text = query.replace(/#[^\s#]+/g, ' ');
+    const words = Array.from(new Set(tokenize(text)));
+
+    const ranked = await runExclusive(vault, async notes => {
+        const keywordRanking = rankByKeywords(notes, words, requiredTags).sort((a, b) => b.score - a.score);
+        if (words.length === 0) {
+            return keywordRanking.map(result => result.key);
+        }
+        const tagged = new Set(requiredTags.length > 0 ? keywordRanking.map(result => result.key) : []);
+        const semanticRanking = (await rankByEmbedding(vault, notes, text.trim()))
+            .filter(result => requiredTags.length === 0 || tagged.has(result.key))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit * 4);
+        if (semanticRanking.length === 0) {
+            return keywordRanking.map(result => result.key);
+        }
+        const fused = new Map<string, number>();
+        [keywordRanking.slice(0, limit * 4), semanticRanking].forEach(ranking => ranking.forEach((result, rank) =>
+            fused.set(result.key, (fused.get(result.key) || 0) + 1 / (60 + rank))));
+        return Array.from(fused.entries()).sort((a, b) => b[1] - a[1]).map(([key]) => key);
+    });
+
+    const notes = getState(vault).notes!;
+    return Promise.all(ranked.slice(0, limit).map(async key => ({
+        path: key,
+        title: notes.get(key)?.title || path.posix.basename(key, '.md'),
+        tags: notes.get(key)?.tags || [],
+        snippet: await buildSnippet(vault, key, words),
+    })));
+}
+
+// Titles and aliases of all notes, for linking mentions of them
+export async function getIndexedNoteNames(vault: VaultSettings): Promise<IndexedNoteName[]> {
+    await ensureFreshIndex(vault);
+    return runExclusive(vault, async notes => Array.from(notes.entries())
+        .map(([key, note]) => ({path: key, title: note.title, aliases: note.aliases})));
+}
+
+function mentions(lowerText: string, name: string): boolean {
+    const lowerName = name.toLowerCase().trim();
+    if (lowerName.length < 4) return false; // Short titles match by accident
+    let index = lowerText.indexOf(lowerName);
+    while (index >= 0) {
+        const before = lowerText.charAt(index - 1);
+        const after = lowerText.charAt(index + lowerName.length);
+        if (!/[\p{L}\p{N}]/u.test(before) && !/[\p{L}\p{N}]/u.test(after)) return true;
+        index = lowerText.indexOf(lowerName, index + 1);
+    }
+    return false;
+}
+
+/**
+ * Existing notes related to a new one, best first: each shared tag counts 2 (1 for a parent or
+ * child tag), a mention of the note's title or an alias 3, and words of the new note that few
+ * notes use up to 4 by how many of them the other note contains. With SEARCH_SEMANTIC, embedding
+ * similarity adds up to 3. Notes below RELATED_MIN_SCORE are left out.
+ */
+export async function findRelatedNotes(vault: VaultSettings, query: RelatedNoteQuery, limit: number, excludeFolders: string[] = []): Promise<IndexedNoteName[]> {
+    if (limit <= 0) return [];
+    await ensureFreshIndex(vault);
+    const tags = query.tags.map(tag => normalizeTag(tag).toLowerCase()).filter(Boolean);
+    const lowerText = `${query.title}\n${query.text}`.toLowerCase();
+    const excluded = excludeFolders.map(folder => folder.replace(/\\/g, '/').replace(/\/+$/, '') + '/').filter(folder => folder !== '/');
+
+    return runExclusive(vault, async notes => {
+        const candidates = Array.from(notes.entries()).filter(([key]) => !excluded.some(folder => key.startsWith(folder)));
+
+        // Distinctive words: frequent in the new note, rare in the vault
+        const documentFrequency = (word: string) => candidates.filter(([, note]) => note.terms[word]).length;
+        const counts = new Map<string, number>();
+        tokenize(lowerText).forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+        const distinctive = Array.from(counts.entries())
+            .map(([word, count]) => ({word, df: documentFrequency(word)}))
+            .filter(({df}) => df > 0 && df <= Math.max(1, candidates.length / 2))
+            .map(({word, df}) => ({word, weight: counts.get(word)! * Math.log(1 + candidates.length / df)}))
+            .sort((a, b) => b.weight - a.weight)
+            .slice(0, DISTINCTIVE_WORD_COUNT);
+        const totalWeight = distinctive.reduce((sum, {weight}) => sum + weight, 0);
+
+        let similarities = new Map<string, number>();
+        const embed = getEmbedder(vault);
+        if (embed && candidates.some(([, note]) => note.embedding)) {
+            try {
+                const [vector] = await embed([`${query.title}\n${tags.map(tag => `#${tag}`).join(' ')}\n${query.text}`.substring(0, EMBEDDING_INPUT_CHARS)]);
+                similarities = new Map(candidates.filter(([, note]) => note.embedding)
+                    .map(([key, note]) => [key, cosineSimilarity(vector, decodeVector(note.embedding!))]));
+            } catch (error: any) {
+                logger.warn(`Related notes in vault "${vault.id}": embedding failed, using tags and words only: ${error.message}`);
+            }
+        }
+
+        return candidates
+            .map(([key, note]) => {
+                let score = 0;
+                for (const tag of tags) {
+                    if (note.tags.includes(tag)) score += 2;
+                    else if (note.tags.some(noteTag => noteTag.startsWith(`${tag}/`) || tag.startsWith(`${noteTag}/`))) score += 1;
+                }
+                if ([note.title, ...note.aliases].some(name => mentions(lowerText, name))) score += 3;
+                if (totalWeight > 0) {
+                    score += 4 * distinctive.filter(({word}) => note.terms[word]).reduce((sum, {weight}) => sum + weight, 0) / totalWeight;
+                }
+                score += 3 * Math.max(0, similarities.get(key) || 0);
+                return {key, note, score};
+            })
+            .filter(({score}) => score >= RELATED_MIN_SCORE)
+            .sort((a, b) => b.score - a.score || b.note.mtimeMs - a.note.mtimeMs)
+            .slice(0, limit)
+            .map(({key, note}) => ({path: key, title: note.title, aliases: note.aliases}));
+    });
+}
@@ -0,0 +1,289 @@
+import path from 'path';
+import fs from 'fs/promises';
+import {config} from '../config';
+import {logger} from '../utils/logger';
+import {getFrontmatterProperty, normalizeTag, parseFrontmatter} from './frontmatter';
+import {VaultSettings} from '../vaults/vaultSettings';
+import {listMarkdownFiles} from './vaultService';
+
+/**
+ * Optional vocabulary file (TAG_VOCABULARY_PATH), usually kept in the vault so it syncs with it.
+ * Tags may be given with or without '#'; matching ignores case and separators.
+ *
+ * Example:
+ * { "synonyms": { "ai": ["artificialIntelligence", "machine-learning"] },
+ *   "allowList": ["ai", "programming", "recipe"] }
+ */
+export interface TagVocabulary {
+    synonyms?: Record<string, string[]>; // Canonical tag -> variants that are rewritten to it
+    allowList?: string[]; // If non-empty, any other tag is dropped
+}
+
+interface IndexedTag {
+    tag: string; // Most used spelling, without '#'
+    count: number;
+}
+
+interface TagIndex {
+    tags: Map<string, IndexedTag>; // Keyed by matchKey(tag), so '#AI', '#ai' and '#a-i' share one entry
+    spellings: Map<string, Map<string, number>>; // Per key: how often each spelling was seen
+}
+
+interface TagIndexState {
+    index: TagIndex | null;
+    build: Promise<TagIndex> | null;
+    generation: number; // Bumped on invalidation so a scan started earlier isn't kept
+}
+
+const tagIndexes = new Map<string, TagIndexState>(); // Per vault id
+
+function getTagIndexState(vault: VaultSettings): TagIndexState {
+    let state = tagIndexes.get(vault.id);
+    if (!state) {
+        state = {index: null, build: null, generation: 0};
+        tagIndexes.set(vault.id, state);
+    }
+    return state;
+}
+
+const INLINE_TAG_PATTERN = /(?:^|[\s(])#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu;
+
+// Case- and separator-insensitive identity of a tag; nested tags keep their '/' levels
+function matchKey(tag: string): string {
+    return normalizeTag(tag)
+        .toLowerCase()
+        .split('/')
+        .map(level => level.replace(/[\s_-]+/g, ''))
+        .join('/');
+}
+
+// Obsidian requires at least one non-numeric character
+function isValidTagKey(key: string): boolean {
+    return key !== '' && !/^[\d/]+$/.test(key);
+}
+
+function splitWords(level: string): string[] {
+    return level
+        .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, '$1 $2')
+        .split(/[\s_-]+/)
+        .filter(Boolean);
+}
+
+// Applies TAG_CASE and TAG_SEPARATOR to a tag that isn't in the vault yet
+function formatNewTag(tag: string): string {
+    return normalizeTag(tag)
+        .replace(/[^\p{L}\p{N}\s_/-]/gu, '')
+        .split('/')
+        .map(level => {
+            let words = splitWords(level);
+            if (config.TAG_CASE === 'lower') {
+                words = words.map(word => word.toLowerCase());
+            }
+            if (config.TAG_SEPARATOR === 'camel') {
+                return words.map((word, index) => index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)).join('');
+            }
+            return words.join(config.TAG_SEPARATOR);
+        })
+        .filter(Boolean)
+        .join('/');
+}
+
+function recordTag(index: TagIndex, tag: string): void {
+    const spelling = normalizeTag(tag);
+    const key = matchKey(spelling);
+    if (!isValidTagKey(key)) return;
+
+    const spellings = index.spellings.get(key) || new Map<string, number>();
+    spellings.set(spelling, (spellings.get(spelling) || 0) + 1);
+    index.spellings.set(key, spellings);
+
+    const [dominant] = Array.from(spellings.entries()).sort((a, b) => b[1] - a[1]);
+    const total = Array.from(spellings.values()).reduce((sum, count) => sum + count, 0);
+    index.tags.set(key, {tag: dominant[0], count: total});
+}
+
+export function extractNoteTags(content: string): string[] {
+    const {frontmatter, body} = parseFrontmatter(content);
+    const tags: string[] = [];
+    if (frontmatter) {
+        const properties = new Set(['tags', 'tag', getFrontmatterProperty('tags') || 'tags']);
+        for (const property of properties) {
+            const value = frontmatter[property];
+            if (Array.isArray(value)) {
+                tags.push(...value);
+            } else if (typeof value === 'string') {
+                tags.push(...value.split(/[,\s]+/));
+            }
+        }
+    }
+    // Inline tags, ignoring code blocks and inline code where '#' means something else
+    const prose = body.replace(/```[\s\S]*?```/g, '').replace(/`[^`\n]*`/g, '');
+    for (const match of prose.matchAll(INLINE_TAG_PATTERN)) {
+        tags.push(match[1]);
+    }
+    return tags.filter(Boolean);
+}
+
+async function buildTagIndex(vault: VaultSettings): Promise<TagIndex> {
+    const startedAt = Date.now();
+    const index: TagIndex = {tags: new Map(), spellings: new Map()};
+    const files = await listMarkdownFiles(vault.path);
+    for (const file of files) {
+        try {
+            extractNoteTags(await fs.readFile(file, 'utf8')).forEach(tag => recordTag(index, tag));
+        } catch (error: any) {
+            logger.warn(`Tag index: could not read ${file}: ${error.message}`);
+        }
+    }
+    logger.info(`Tag index of vault "${vault.id}" built: ${index.tags.size} tags from ${files.length} notes in ${Date.now() - startedAt} ms`);
+    return index;
+}
+
+async function getTagIndex(vault: VaultSettings): Promise<Map<string, IndexedTag>> {
+    const state = getTagIndexState(vault);
+    if (state.index) {
+        return state.index.tags;
+    }
+    if (!state.build) {
+        const generation = state.generation;
+        state.build = buildTagIndex(vault)
+            .then(index => {
+                if (generation === state.generation) {
+                    state.index = index;
+                }
+                return index;
+            })
+            .finally(() => {
+                state.build = null;
+            });
+    }
+    return (await state.build).tags;
+}
+
+// Forces a rescan on next use, e.g. after a git pull brought in notes edited elsewhere
+export function invalidateTagIndex(vault: VaultSettings): void {
+    const state = getTagIndexState(vault);
+    if (state.index) {
+        logger.debug(`Tag index of vault "${vault.id}" invalidated.`);
+    }
+    state.index = null;
+    state.generation++;
+}
+
+// Adds the tags of a note the bot just wrote, so they are reused before the next rescan
+export function addTagsToIndex(vault: VaultSettings, tags: string[]): void {
+    const index = getTagIndexState(vault).index;
+    if (!index) return; // Not built yet; the scan will pick the note up
+    tags.forEach(tag => recordTag(index, tag));
+}
+
+async function loadTagVocabulary(vault: VaultSettings): Promise<TagVocabulary> {
+    if (!config.TAG_VOCABULARY_PATH) {
+        return {};
+    }
+    // Read on every use: the file may live in the vault and change with a git pull
+    const vocabularyPath = path.resolve(vault.path, config.TAG_VOCABULARY_PATH);
+    try {
+        const vocabulary = JSON.parse(await fs.readFile(vocabularyPath, 'utf8'));
+        if (!vocabulary || typeof vocabulary !== 'object' || Array.isArray(vocabulary)) {
+            throw new Error('Tag vocabulary file must contain a JSON object.');
+        }
+        return vocabulary;
+    } catch (error: any) {
+        logger.error(`Failed to load tag vocabulary from ${vocabularyPath}, ignoring it: ${error.message}`);
+        return {};
+    }
+}
+
+function getAllowList(vocabulary: TagVocabulary): string[] {
+    return (vocabulary.allowList || []).map(normalizeTag).filter(Boolean);
+}
+
+// Words of the content, lowercased, for matching against tag words
+function contentWords(content: string): Set<string> {
+    return new Set((content.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []));
+}
+
+/**
+ * Tags to suggest to the model for this content (with '#'): existing tags whose words appear in
+ * the content first, then the most used ones, up to TAG_PROMPT_LIMIT. With an allow-list the
+ * list is the allow-list itself, since nothing else would be kept anyway.
+ */
+export async function getTagSuggestions(vault: VaultSettings, content: string): Promise<{ tags: string[], restricted: boolean }> {
+    const vocabulary = await loadTagVocabulary(vault);
+    const allowList = getAllowList(vocabulary);
+    if (allowList.length > 0) {
+        return {tags: allowList.map(tag => `#${tag}`), restricted: true};
+    }
+    if (config.TAG_PROMPT_LIMIT <= 0) {
+        return {tags: [], restricted: false};
+    }
+
+    const index = await getTagIndex(vault);
+    const words = contentWords(content);
+    const compactContent = content.toLowerCase().replace(/[\s_-]+/g, '');
+    const scored = Array.from(index.entries()).map(([key, entry]) => {
+        const tagWords = normalizeTag(entry.tag).split('/').flatMap(splitWords).map(word => word.toLowerCase());
+        let score = tagWords.filter(word => word.length >= 3 && words.has(word)).length;
+        if (key.length >= 4 && compactContent.includes(key.replace(/\//g, ''))) {
+            score += 1;
+        }
+        return {entry, score};
+    });
+    scored.sort((a, b) => b.score - a.score || b.entry.count - a.entry.count || a.entry.tag.localeCompare(b.entry.tag));
+    return {
+        tags: scored.slice(0, config.TAG_PROMPT_LIMIT).map(({entry}) => `#${entry.tag}`),
+        restricted: false,
+    };
+}
+
+/**
+ * Maps model-generated tags onto the vault's vocabulary: synonyms become their canonical tag,
+ * tags matching an existing one (ignoring case and separators) take its spelling, new tags are
+ * formatted per TAG_CASE/TAG_SEPARATOR, and with an allow-list everything else is dropped.
+ * Input and output carry the leading '#'.
+ */
+export async function normalizeTags(vault: VaultSettings, tags: string[]): Promise<string[]> {
+    const vocabulary = await loadTagVocabulary(vault);
+    const synonymTargets = new Map<string, string>();
+    for (const [canonical, variants] of Object.entries(vocabulary.synonyms || {})) {
+        const canonicalTag = normalizeTag(canonical);
+        synonymTargets.set(matchKey(canonicalTag), canonicalTag);
+        (Array.isArray(variants) ? variants : []).forEach(variant => synonymTargets.set(matchKey(variant), canonicalTag));
+    }
+    const allowList = new Map(getAllowList(vocabulary).map(tag => [matchKey(tag), tag]));
+    const index = await getTagIndex(vault);
+
+    const result: string[] = [];
+    const seenKeys = new Set<string>();
+    for (const rawTag of tags) {
+        const key = matchKey(rawTag);
+        if (!isValidTagKey(key)) continue;
+        let tag = synonymTargets.get(key) ?? index.get(key)?.tag ?? formatNewTag(rawTag);
+        const finalKey = matchKey(tag);
+        if (allowList.size > 0) {
+            const allowed = allowList.get(finalKey);
+            if (!allowed) {
+                logger.debug(`Dropping tag #${tag}: not in the allow-list`);
+                continue;
+            }
+            tag = allowed;
+        }
+        if (!tag || seenKeys.has(finalKey)) continue;
+        seenKeys.add(finalKey);
+        result.push(`#${tag}`);
+    }
+    return result;
+}
+
+// Prepends a chat's tag prefix (e.g. "research/") to generated tags; tags already carrying it are kept as is
+export function prefixTags(tags: string[], prefix?: string): string[] {
+    const normalizedPrefix = prefix ? normalizeTag(prefix) : '';
+    if (!normalizedPrefix) {
+        return tags;
+    }
+    return tags.map(tag => {
+        const name = normalizeTag(tag);
+        return `#${name.startsWith(normalizedPrefix) ? name : normalizedPrefix + name}`;
+    });
+}
@@ -0,0 +1,212 @@
+import path from 'path';
+import fs from 'fs/promises';
+import crypto from 'crypto';
+import {logger} from '../utils/logger';
+import {formatMomentDate} from './dailyNoteService';
+import {listMarkdownFiles} from './vaultService';
+import {Vault} from '../vaults/vaultRegistry';
+import {VaultSettings} from '../vaults/vaultSettings';
+
+/**
+ * Tasks in the format of the Obsidian Tasks plugin: "- [ ] Call the bank 📅 2026-10-23", completed
+ * as "- [x] Call the bank 📅 2026-10-23 ✅ 2026-10-22". Tasks are plain lines in any note, so the
+ * vault itself is the task list; the bot adds them, finds due ones and checks them off.
+ */
+
+const TASK_LINE_PATTERN = /^(\s*[-*+] \[)(.)(\]\s+)(.*)$/;
+const DUE_PATTERN = /📅\s*(\d{4}-\d{2}-\d{2})/u;
+// Date and priority fields of the Tasks plugin, left out when a task is shown in the chat
+const FIELD_PATTERN = /\s*(?:(?:📅|⏳|🛫|✅|➕|❌)\s*\d{4}-\d{2}-\d{2}|[⏫🔼🔽⏬🔺])/gu;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+// Full names only for weekdays ("sat" and "sun" are words too), months also abbreviated
+const WEEKDAY_NAMES = `(${WEEKDAYS.join('|')})`;
+const MONTH_NAMES = `(${MONTHS.join('|')}|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec)\\.?`;
+
+export interface NewTask {
+    text: string;
+    due?: string; // YYYY-MM-DD
+}
+
+export interface VaultTask {
+    id: string; // Stable while the line is unchanged, small enough for Telegram callback data
+    path: string; // Vault-relative note path
+    description: string; // Without the checkbox and the date/priority fields
+    due?: string; // YYYY-MM-DD
+}
+
+export function formatTaskDate(date: Date): string {
+    return formatMomentDate(date, 'YYYY-MM-DD');
+}
+
+// "- [ ] text [[link]] 📅 date"; the date goes last, the Tasks plugin only reads fields at the end of the line
+export function formatTaskLine(task: NewTask, link?: string): string {
+    const text = task.text.replace(/\s+/g, ' ').trim();
+    return `- [ ] ${text}${link ? ` ${link}` : ''}${task.due ? ` 📅 ${task.due}` : ''}`;
+}
+
+function getTaskId(notePath: string, line: string): string {
+    return crypto.createHash('sha1').update(`${notePath}\n${line.trim()}`).digest('hex').substring(0, 16);
+}
+
+// Open tasks of one note; done and cancelled ones ("[x]", "[-]") are skipped
+function parseOpenTasks(notePath: string, content: string): VaultTask[] {
+    const tasks: VaultTask[] = [];
+    for (const line of content.split('\n')) {
+        const match = line.match(TASK_LINE_PATTERN);
+        if (!match || match[2] !== ' ') continue;
+        // Wikilinks as their text, "[[Note|Title]]" -> "Title"
+        const description = match[4].replace(FIELD_PATTERN, '').replace(/\[\[([^\]|]+)(?:\|([^\]]+))?]]/g, (_, target: string, alias?: string) => alias || target).trim();
+        if (!description) continue;
+        tasks.push({id: getTaskId(notePath, line), path: notePath, description, due: match[4].match(DUE_PATTERN)?.[1]});
+    }
+    return tasks;
+}
+
+// All open tasks of the vault, in the order of their notes
+export async function findOpenTasks(vault: VaultSettings): Promise<VaultTask[]> {
+    const tasks: VaultTask[] = [];
+    for (const file of await listMarkdownFiles(vault.path)) {
+        try {
+            const content = await fs.readFile(file, 'utf8');
+            if (!content.includes('[ ]')) continue;
+            tasks.push(...parseOpenTasks(path.relative(vault.path, file).split(path.sep).join('/'), content));
+        } catch (error: any) {
+            logger.warn(`Tasks: could not read ${file}: ${error.message}`);
+        }
+    }
+    return tasks;
+}
+
+// Task lines after the rest of the content; in a bot note that is below the manual edits marker, so they survive message edits
+export function appendTasksToContent(content: string, lines: string[]): string {
+    return `${content.trimEnd()}${content.trim() ? '\n' : ''}${lines.join('\n')}\n`;
+}
+
+// Appends task lines to a note (vault-relative), creating it if needed; returns its full path
+export async function appendTasks(vault: Vault, notePath: string, lines: string[]): Promise<string> {
+    const fullPath = vault.files.resolveVaultPath(notePath.endsWith('.md') ? notePath : `${notePath}.md`);
+    let content = '';
+    try {
+        content = await fs.readFile(fullPath, 'utf8');
+    } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+            throw new Error(`Failed to read ${notePath}: ${error.message}`);
+        }
+        logger.info(`Creating tasks note ${notePath}`);
+        await fs.mkdir(path.dirname(fullPath), {recursive: true});
+    }
+    await fs.writeFile(fullPath, appendTasksToContent(content, lines), {encoding: 'utf8'});
+    logger.info(`Added ${lines.length} task(s) to ${notePath}`);
+    return fullPath;
+}
+
+/**
+ * Checks a task off like the Tasks plugin does ("[x]" and a ✅ done date). The line is looked up
+ * by its id again, so edits elsewhere in the note since the scan don't matter. Recurring tasks
+ * get no next occurrence; that is left to the plugin. Returns the note's full path, or undefined
+ * if the task is gone or was changed.
+ */
+export async function completeTask(vault: Vault, task: VaultTask, doneDate: Date = new Date()): Promise<string | undefined> {
+    const fullPath = vault.files.resolveVaultPath(task.path);
+    const content = await fs.readFile(fullPath, 'utf8').catch(() => undefined);
+    if (content === undefined) return undefined;
+    const lines = content.split('\n');
+    const index = lines.findIndex(line => TASK_LINE_PATTERN.test(line) && getTaskId(task.path, line) === task.id);
+    if (index === -1) return undefined;
+    lines[index] = lines[index].replace(TASK_LINE_PATTERN, (_, start: string, __: string, end: string, rest: string) =>
+        `${start}x${end}${rest.trimEnd()} ✅ ${formatTaskDate(doneDate)}`);
+    await fs.writeFile(fullPath, lines.join('\n'), {encoding: 'utf8'});
+    logger.info(`Completed task in ${task.path}: ${task.description}`);
+    return fullPath;
+}
+
+function addDays(date: Date, days: number): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+// Undefined for dates that don't exist, like 31.2., which Date would roll over into March
+function calendarDate(year: number, month: number, day: number): Date | undefined {
+    const date = new Date(year, month, day);
+    return date.getFullYear() === year && date.getMonth() === month && date.getDate() === day ? date : undefined;
+}
+
+// Day and month without a year: this year, or next year once it has passed
+function upcomingDate(now: Date, month: number, day: number): Date | undefined {
+    const date = calendarDate(now.getFullYear(), month, day);
+    if (!date) return undefined;
+    return date < addDays(now, 0) ? calendarDate(now.getFullYear() + 1, month, day) : date;
+}
+
+const DATE_EXPRESSIONS: { pattern: RegExp, resolve: (match: RegExpMatchArray, now: Date) => Date | undefined }[] = [
+    {
+        pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/,
+        resolve: match => calendarDate(Number(match[1]), Number(match[2]) - 1, Number(match[3])),
+    },
+    {
+        // 23.10. or 23.10.2026
+        pattern: /\b(\d{1,2})\.(\d{1,2})\.(\d{4}|\d{2})?(?!\d)/,
+        resolve: (match, now) => match[3]
+            ? calendarDate(Number(match[3].length === 2 ? `20${match[3]}` : match[3]), Number(match[2]) - 1, Number(match[1]))
+            : upcomingDate(now, Number(match[2]) - 1, Number(match[1])),
+    },
+    {
+        pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?(?: of)? ${MONTH_NAMES}\\b`, 'i'),
+        resolve: (match, now) => upcomingDate(now, MONTHS.findIndex(month => month.startsWith(match[2].toLowerCase().substring(0, 3))), Number(match[1])),
+    },
+    {
+        pattern: new RegExp(`\\b${MONTH_NAMES} (\\d{1,2})(?:st|nd|rd|th)?\\b`, 'i'),
+        resolve: (match, now) => upcomingDate(now, MONTHS.findIndex(month => month.startsWith(match[1].toLowerCase().substring(0, 3))), Number(match[2])),
+    },
+    {pattern: /\bday after tomorrow\b/i, resolve: (_, now) => addDays(now, 2)},
+    {pattern: /\btomorrow\b/i, resolve: (_, now) => addDays(now, 1)},
+    {pattern: /\b(?:today|tonight)\b/i, resolve: (_, now) => addDays(now, 0)},
+    {
+        pattern: /\bin (\d{1,3}|a|one|two|three) (day|week|month)s?\b/i,
+        resolve: (match, now) => {
+            const count = Number(match[1]) || ['a', 'one', 'two', 'three'].indexOf(match[1].toLowerCase()) || 1;
+            const unit = match[2].toLowerCase();
+            return unit === 'month' ? new Date(now.getFullYear(), now.getMonth() + count, now.getDate()) : addDays(now, unit === 'week' ? count * 7 : count);
+        },
+    },
+    {pattern: /\bnext week\b/i, resolve: (_, now) => addDays(now, 7)},
+    {
+        // The next such weekday, a week ahead if it is today
+        pattern: new RegExp(`\\b(?:(?:this|next|on) )?${WEEKDAY_NAMES}\\b`, 'i'),
+        resolve: (match, now) => {
+            const weekday = WEEKDAYS.indexOf(match[1].toLowerCase());
+            return addDays(now, (weekday - now.getDay() + 6) % 7 + 1);
+        },
+    },
+];
+
+/**
+ * Splits "/remind" arguments like "me Friday to call the bank" or "pay rent on 1.11." into the
+ * task text and its due date. Understands ISO dates, day.month(.year), "23 October", "October 23",
+ * today, tomorrow, weekdays and "in 3 days"; the earliest date in the text wins.
+ */
+export function parseTaskText(input: string, now: Date = new Date()): NewTask {
+    let best: { index: number, length: number, date: Date } | undefined;
+    for (const expression of DATE_EXPRESSIONS) {
+        const match = input.match(expression.pattern);
+        if (!match || match.index === undefined || (best && match.index >= best.index)) continue;
+        const date = expression.resolve(match, now);
+        if (date && !isNaN(date.getTime())) {
+            best = {index: match.index, length: match[0].length, date};
+        }
+    }
+    let text = input;
+    if (best) {
+        // Also drop the preposition in front of the date ("on Friday", "by tomorrow")
+        const before = input.substring(0, best.index).replace(/\b(?:on|by|until|due|at)\s*$/i, '');
+        text = `${before} ${input.substring(best.index + best.length)}`;
+    }
+    text = text
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^(?:remind me|me)\b\s*/i, '')
+        .replace(/^to\s+/i, '')
+        .replace(/^[\s,:;-]+|[\s,;:-]+$/g, '');
+    return {text, due: best ? formatTaskDate(best.date) : undefined};
+}
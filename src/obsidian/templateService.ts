@@ -0,0 +1,92 @@
+import path from 'path';
+import fs from 'fs/promises';
+import {config} from '../config';
+import {logger} from '../utils/logger';
+
+export type TemplateValue = string | number | boolean | undefined | null | string[];
+export type TemplateContext = Record<string, TemplateValue>;
+
+// Layout used when no template note is configured; matches the original hard-coded body plus link previews
+export const DEFAULT_NOTE_TEMPLATE = `{{#if summary}}## TL;DR
+{{summary}}
+
+{{/if}}{{#if key_points}}## Key Points
+{{#each key_points}}
+- {{this}}
+{{/each}}
+
+{{/if}}{{#if action_items}}## Action Items
+{{#each action_items}}
+- [ ] {{this}}
+{{/each}}
+
+{{/if}}{{text}}
+
+{{#each assets}}
+{{this}}
+
+{{/each}}
+{{#each links}}
+{{this}}
+
+{{/each}}
+{{#if related}}## Related
+{{#each related}}
+- {{this}}
+{{/each}}
+{{/if}}`;
+
+function isTruthy(value: TemplateValue): boolean {
+    return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function stringify(value: TemplateValue): string {
+    if (value === undefined || value === null) return '';
+    if (Array.isArray(value)) return value.join(', ');
+    return String(value);
+}
+
+/**
+ * Handlebars-style rendering with the subset that makes sense for notes:
+ * `{{name}}`, `{{#if name}}…{{else}}…{{/if}}`, `{{#unless name}}…{{/unless}}` and `{{#each list}}…{{this}}…{{/each}}`.
+ * Blocks do not nest with blocks of the same kind. Values go in as placeholders until the end, so
+ * braces in them (a page title reading "{{text}}") are never taken for template syntax.
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+    const values: string[] = [];
+    const placeholder = (value: string) => `\u0000${values.push(value) - 1}\u0000`;
+    let output = template.replace(/\u0000/g, '').replace(/{{#each\s+(\w+)}}\n?([\s\S]*?){{\/each}}\n?/g, (_, name: string, block: string) => {
+        const list = context[name];
+        if (!Array.isArray(list)) return '';
+        return list.map(item => block.replace(/{{this}}/g, () => placeholder(item))).join('');
+    });
+    output = output.replace(/{{#if\s+(\w+)}}([\s\S]*?)(?:{{else}}([\s\S]*?))?{{\/if}}/g, (_, name: string, ifBlock: string, elseBlock?: string) =>
+        isTruthy(context[name]) ? ifBlock : (elseBlock || ''));
+    output = output.replace(/{{#unless\s+(\w+)}}([\s\S]*?){{\/unless}}/g, (_, name: string, block: string) =>
+        isTruthy(context[name]) ? '' : block);
+    output = output.replace(/{{\s*(\w+)\s*}}/g, (_, name: string) => placeholder(stringify(context[name])));
+    return output.replace(/\u0000(\d+)\u0000/g, (_, index: string) => values[Number(index)]).trim();
+}
+
+/**
+ * Loads a template note from the vault at `vaultPath` (template path relative to the vault root, `.md` optional).
+ * Falls back to the default layout if the note does not exist, so a typo never blocks saving.
+ */
+export async function loadTemplate(vaultPath: string, templatePath?: string): Promise<string> {
+    const relativePath = templatePath || config.NOTE_TEMPLATE_PATH;
+    if (!relativePath) {
+        return DEFAULT_NOTE_TEMPLATE;
+    }
+    const withExtension = relativePath.endsWith('.md') ? relativePath : `${relativePath}.md`;
+    const fullPath = path.resolve(vaultPath, withExtension);
+    if (!fullPath.startsWith(path.resolve(vaultPath) + path.sep)) {
+        logger.warn(`Template path "${relativePath}" points outside the vault, using default template.`);
+        return DEFAULT_NOTE_TEMPLATE;
+    }
+    try {
+        return await fs.readFile(fullPath, 'utf8');
+    } catch (error: any) {
+        logger.warn(`Failed to read template "${withExtension}", using default template: ${error.message}`);
+        return DEFAULT_NOTE_TEMPLATE;
+    }
+}
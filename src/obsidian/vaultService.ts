@@ -1,7 +1,11 @@
 import path from 'path';
 import fs from 'fs/promises';
-import { config, notesPath, assetsPath } from '../config'; // Use paths from config
+import crypto from 'crypto';
+import { config, dataPath } from '../config';
 import { logger } from '../utils/logger';
+import { readJsonFile, writeJsonFileAtomic } from '../utils/jsonFile';
+import { Frontmatter, parseFrontmatter, serializeFrontmatter } from './frontmatter';
+import { VaultSettings } from '../vaults/vaultSettings';
 
 // Function to sanitize filenames (remove invalid chars, limit length)
 function sanitizeFilename(name: string, isNote: boolean = true): string {
@@ -24,6 +28,37 @@ function sanitizeFilename(name: string, isNote: boolean = true): string {
     return sanitized;
 }
 
+function hashContent(content: Buffer): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+// Content hash of an asset, valid while its size and modification time are unchanged
+interface AssetHashEntry {
+    size: number;
+    mtimeMs: number;
+    hash: string;
+}
+
+const assetHashesFile = path.join(dataPath, 'asset-hashes.json');
+
+let assetHashes: Record<string, Record<string, AssetHashEntry>> | null = null; // Vault id -> asset file name -> hash
+
+function getAssetHashes(vaultId: string): Record<string, AssetHashEntry> {
+    if (!assetHashes) {
+        assetHashes = readJsonFile<Record<string, Record<string, AssetHashEntry>>>(assetHashesFile, {});
+    }
+    return assetHashes[vaultId] = assetHashes[vaultId] || {};
+}
+
+function flushAssetHashes(): void {
+    writeJsonFileAtomic(assetHashesFile, assetHashes || {});
+}
+
+export interface SavedAsset {
+    path: string; // Relative to the vault root
+    reused: boolean; // An identical file was already in the assets folder (ASSET_DEDUP), nothing was written
+}
+
 async function fileExists(filePath: string): Promise<boolean> {
     try {
         await fs.access(filePath);
@@ -33,64 +68,240 @@ async function fileExists(filePath: string): Promise<boolean> {
     }
 }
 
-// Saves asset to the vault's assets folder
-export async function saveAsset(fileBuffer: Buffer, originalFilename: string): Promise<string> {
-    const sanitizedBase = sanitizeFilename(path.parse(originalFilename).name, false);
-    const extension = path.extname(originalFilename) || '.unknown'; // Keep original extension or use default
-    const timestamp = Date.now();
-    const uniqueFilename = `${timestamp}-${sanitizedBase}${extension}`;
-    const fullPath = path.join(assetsPath, uniqueFilename);
+const IGNORED_DIRECTORIES = new Set(['.git', '.obsidian', '.trash', 'node_modules']);
 
-    try {
-        logger.info(`Saving asset to: ${fullPath}`);
-        await fs.writeFile(fullPath, fileBuffer);
-        logger.info(`Asset saved successfully: ${uniqueFilename}`);
-        // Return the relative path from the vault root for linking
-        return path.join(config.ASSETS_FOLDER_NAME, uniqueFilename);
-    } catch (error: any) {
-        logger.error(`Failed to save asset "${uniqueFilename}" to ${assetsPath}:`, error);
-        throw new Error(`Failed to write asset file: ${error.message}`);
+// Full paths of all notes below a directory, skipping git, Obsidian and trash folders
+export async function listMarkdownFiles(directory: string, files: string[] = []): Promise<string[]> {
+    const entries = await fs.readdir(directory, {withFileTypes: true});
+    for (const entry of entries) {
+        if (entry.isDirectory()) {
+            if (!IGNORED_DIRECTORIES.has(entry.name)) {
+                await listMarkdownFiles(path.join(directory, entry.name), files);
+            }
+        } else if (entry.isFile() && entry.name.endsWith('.md')) {
+            files.push(path.join(directory, entry.name));
+        }
     }
+    return files;
 }
 
-async function getUniqueNoteFilename(desiredTitle: string): Promise<string> {
-    const sanitizedTitle = sanitizeFilename(desiredTitle, true);
-    let potentialFilename = `${sanitizedTitle}.md`;
-    let fullPath = path.join(notesPath, potentialFilename);
-    let counter = 0;
-
-    while (await fileExists(fullPath)) {
-        counter++;
-        potentialFilename = `${sanitizedTitle}-${counter}.md`;
-        fullPath = path.join(notesPath, potentialFilename);
-        if (counter > 100) { // Safety break
-             logger.error(`Could not find unique filename for ${sanitizedTitle} after 100 attempts.`);
-             throw new Error (`Failed to find unique filename for ${sanitizedTitle}`);
+// File operations within one vault; all paths handed out are relative to the vault root unless noted
+export class VaultService {
+    private readonly vaultRoot: string;
+    private readonly notesPath: string;
+    private readonly assetsPath: string;
+
+    constructor(private readonly settings: VaultSettings) {
+        this.vaultRoot = path.resolve(settings.path);
+        this.notesPath = path.join(this.vaultRoot, settings.notesFolder);
+        this.assetsPath = path.join(this.vaultRoot, settings.assetsFolder);
+    }
+
+    // Full path of a vault-relative path (no containment check, for paths the bot wrote itself)
+    toFullPath(relativePath: string): string {
+        return path.join(this.vaultRoot, relativePath);
+    }
+
+    toRelativePath(fullPath: string): string {
+        return path.relative(this.vaultRoot, fullPath);
+    }
+
+    // Obsidian URI opening the note (or asset) in the desktop and mobile apps
+    toObsidianUri(relativePath: string): string {
+        const vaultName = path.basename(this.vaultRoot);
+        return `obsidian://open?vault=${encodeURIComponent(vaultName)}&file=${encodeURIComponent(relativePath.replace(/\\/g, '/'))}`;
+    }
+
+    /**
+     * A file in the assets folder with exactly this content. Only files of the same size are
+     * compared, by hashes kept in DATA_DIR, so each file is read once until it changes.
+     */
+    private async findIdenticalAsset(fileBuffer: Buffer, hash: string): Promise<string | undefined> {
+        let names: string[];
+        try {
+            names = await fs.readdir(this.assetsPath);
+        } catch (error: any) {
+            logger.warn(`Could not list assets folder ${this.assetsPath}: ${error.message}`);
+            return undefined;
+        }
+        const hashes = getAssetHashes(this.settings.id);
+        let changed = false;
+        for (const name of Object.keys(hashes).filter(name => !names.includes(name))) {
+            delete hashes[name];
+            changed = true;
+        }
+        let identical: string | undefined;
+        for (const name of names) {
+            const fullPath = path.join(this.assetsPath, name);
+            try {
+                const stats = await fs.stat(fullPath);
+                if (!stats.isFile() || stats.size !== fileBuffer.length) continue;
+                let entry = hashes[name];
+                if (!entry || entry.size !== stats.size || entry.mtimeMs !== stats.mtimeMs) {
+                    entry = hashes[name] = {size: stats.size, mtimeMs: stats.mtimeMs, hash: hashContent(await fs.readFile(fullPath))};
+                    changed = true;
+                }
+                if (entry.hash === hash) {
+                    identical = path.join(this.settings.assetsFolder, name);
+                    break;
+                }
+            } catch (error: any) {
+                logger.debug(`Skipping asset ${name} in duplicate check: ${error.message}`);
+            }
+        }
+        if (changed) {
+            flushAssetHashes();
         }
+        return identical;
     }
-    logger.info(`Unique note filename determined: ${potentialFilename}`);
-    return potentialFilename; // Return just the filename (relative to notesPath)
-}
 
-export async function saveNote(title: string, content: string): Promise<string> {
-    let noteFilename: string;
-    try {
-        noteFilename = await getUniqueNoteFilename(title);
-    } catch (error: any) {
-        logger.error(`Failed to get unique filename for title "${title}", using fallback.`, error);
-        // Fallback if unique name generation fails unexpectedly
-        noteFilename = `fallback-note-${Date.now()}.md`;
+    private async rememberAssetHash(fullPath: string, hash: string): Promise<void> {
+        const stats = await fs.stat(fullPath);
+        getAssetHashes(this.settings.id)[path.basename(fullPath)] = {size: stats.size, mtimeMs: stats.mtimeMs, hash};
+        flushAssetHashes();
+    }
+
+    // Saves asset to the vault's assets folder, or returns an identical one already there (ASSET_DEDUP)
+    async saveAsset(fileBuffer: Buffer, originalFilename: string): Promise<SavedAsset> {
+        const hash = config.ASSET_DEDUP ? hashContent(fileBuffer) : undefined;
+        if (hash) {
+            const existing = await this.findIdenticalAsset(fileBuffer, hash);
+            if (existing) {
+                logger.info(`Asset ${originalFilename} is identical to ${existing}, reusing it.`);
+                return {path: existing, reused: true};
+            }
+        }
+        const sanitizedBase = sanitizeFilename(path.parse(originalFilename).name, false);
+        const extension = path.extname(originalFilename) || '.unknown'; // Keep original extension or use default
+        const timestamp = Date.now();
+        const uniqueFilename = `${timestamp}-${sanitizedBase}${extension}`;
+        const fullPath = path.join(this.assetsPath, uniqueFilename);
+
+        try {
+            logger.info(`Saving asset to: ${fullPath}`);
+            await fs.writeFile(fullPath, fileBuffer);
+            logger.info(`Asset saved successfully: ${uniqueFilename}`);
+            if (hash) {
+                await this.rememberAssetHash(fullPath, hash);
+            }
+            // Return the relative path from the vault root for linking
+            return {path: path.join(this.settings.assetsFolder, uniqueFilename), reused: false};
+        } catch (error: any) {
+            logger.error(`Failed to save asset "${uniqueFilename}" to ${this.assetsPath}:`, error);
+            throw new Error(`Failed to write asset file: ${error.message}`);
+        }
     }
 
-    const fullNotePath = path.join(notesPath, noteFilename);
+    private async getUniqueNoteFilename(desiredTitle: string, targetDir: string = this.notesPath): Promise<string> {
+        const sanitizedTitle = sanitizeFilename(desiredTitle, true);
+        let potentialFilename = `${sanitizedTitle}.md`;
+        let fullPath = path.join(targetDir, potentialFilename);
+        let counter = 0;
 
-    try {
-        logger.info(`Saving note to: ${fullNotePath}`);
-        await fs.writeFile(fullNotePath, content, { encoding: 'utf8' });
-        logger.info(`Note "${noteFilename}" saved successfully.`);
-        return fullNotePath; // Return the full path of the saved note
-    } catch (error: any) {
-        logger.error(`Failed to save note "${noteFilename}" to ${notesPath}:`, error);
-        throw new Error(`Failed to write note file: ${error.message}`);
-    }
-}
\ No newline at end of file
+        while (await fileExists(fullPath)) {
+            counter++;
+            potentialFilename = `${sanitizedTitle}-${counter}.md`;
+            fullPath = path.join(targetDir, potentialFilename);
+            if (counter > 100) { // Safety break
+                 logger.error(`Could not find unique filename for ${sanitizedTitle} after 100 attempts.`);
+                 throw new Error (`Failed to find unique filename for ${sanitizedTitle}`);
+            }
+        }
+        logger.info(`Unique note filename determined: ${potentialFilename}`);
+        return potentialFilename; // Return just the filename (relative to targetDir)
+    }
+
+    // Resolves a vault-relative folder, refusing anything that escapes the vault
+    private resolveNotesFolder(folder?: string): string {
+        if (!folder) {
+            return this.notesPath;
+        }
+        const resolved = path.resolve(this.vaultRoot, folder);
+        if (resolved !== this.vaultRoot && !resolved.startsWith(this.vaultRoot + path.sep)) {
+            throw new Error(`Notes folder "${folder}" is outside the vault`);
+        }
+        return resolved;
+    }
+
+    // Saves a note into `folder` (relative to the vault root), defaulting to the vault's notes folder
+    async saveNote(title: string, content: string, folder?: string): Promise<string> {
+        const targetDir = this.resolveNotesFolder(folder);
+        await fs.mkdir(targetDir, { recursive: true });
+
+        let noteFilename: string;
+        try {
+            noteFilename = await this.getUniqueNoteFilename(title, targetDir);
+        } catch (error: any) {
+            logger.error(`Failed to get unique filename for title "${title}", using fallback.`, error);
+            // Fallback if unique name generation fails unexpectedly
+            noteFilename = `fallback-note-${Date.now()}.md`;
+        }
+
+        const fullNotePath = path.join(targetDir, noteFilename);
+
+        try {
+            logger.info(`Saving note to: ${fullNotePath}`);
+            await fs.writeFile(fullNotePath, content, { encoding: 'utf8' });
+            logger.info(`Note "${noteFilename}" saved successfully.`);
+            return fullNotePath; // Return the full path of the saved note
+        } catch (error: any) {
+            logger.error(`Failed to save note "${noteFilename}" to ${targetDir}:`, error);
+            throw new Error(`Failed to write note file: ${error.message}`);
+        }
+    }
+
+    // Resolves a vault-relative path, refusing anything that escapes the vault
+    resolveVaultPath(relativePath: string): string {
+        const resolved = path.resolve(this.vaultRoot, relativePath);
+        if (!resolved.startsWith(this.vaultRoot + path.sep)) {
+            throw new Error(`Path "${relativePath}" is outside the vault`);
+        }
+        return resolved;
+    }
+
+    // Deletes notes/assets (vault-relative paths); returns the full paths that were removed
+    async deleteVaultFiles(relativePaths: string[]): Promise<string[]> {
+        const deleted: string[] = [];
+        for (const relativePath of relativePaths) {
+            const fullPath = this.resolveVaultPath(relativePath);
+            try {
+                await fs.unlink(fullPath);
+                deleted.push(fullPath);
+                logger.info(`Deleted ${relativePath} from vault.`);
+            } catch (error: any) {
+                if (error.code !== 'ENOENT') {
+                    throw new Error(`Failed to delete ${relativePath}: ${error.message}`);
+                }
+                logger.warn(`File ${relativePath} was already gone.`);
+            }
+        }
+        return deleted;
+    }
+
+    // Moves and/or renames a note; returns the new path relative to the vault root
+    async moveNote(relativeNotePath: string, targetFolder?: string, newTitle?: string): Promise<string> {
+        const sourcePath = this.resolveVaultPath(relativeNotePath);
+        const targetDir = targetFolder !== undefined ? this.resolveNotesFolder(targetFolder) : path.dirname(sourcePath);
+        await fs.mkdir(targetDir, { recursive: true });
+        const title = newTitle ?? path.basename(sourcePath, '.md');
+        const sameName = path.join(targetDir, `${sanitizeFilename(title, true)}.md`) === sourcePath;
+        const targetPath = sameName ? sourcePath : path.join(targetDir, await this.getUniqueNoteFilename(title, targetDir));
+        if (targetPath !== sourcePath) {
+            logger.info(`Moving note ${sourcePath} -> ${targetPath}`);
+            await fs.rename(sourcePath, targetPath);
+        }
+        return this.toRelativePath(targetPath);
+    }
+
+    // Reads a note, lets `update` change its frontmatter properties and writes it back
+    async updateNoteFrontmatter(relativeNotePath: string, update: (frontmatter: Frontmatter) => void): Promise<string> {
+        const fullPath = this.resolveVaultPath(relativeNotePath);
+        const content = await fs.readFile(fullPath, 'utf8');
+        const { frontmatter, body } = parseFrontmatter(content);
+        const updated = frontmatter || {};
+        update(updated);
+        const newBody = frontmatter ? body.replace(/^\n+/, '') : body;
+        await fs.writeFile(fullPath, `${serializeFrontmatter(updated)}\n\n${newBody}`, { encoding: 'utf8' });
+        return fullPath;
+    }
+}
@@ -0,0 +1,126 @@
+import fs from 'fs/promises';
+import {bot} from '../bot/telegramHandler';
+import {logger} from '../utils/logger';
+import {config} from '../config';
+import {generateNoteMetadata} from '../ai/aiService';
+import {buildFrontmatter, getFrontmatterProperty, normalizeTag, parseFrontmatter, serializeFrontmatter} from '../obsidian/frontmatter';
+import {loadTemplate, renderTemplate} from '../obsidian/templateService';
+import {formatEntitiesAsMarkdown} from '../obsidian/entityFormatter';
+import {prefixTags} from '../obsidian/tagVocabulary';
+import {autoLinkText, recordLinksFrom} from '../obsidian/noteLinker';
+import {
+    findNoteByMessage,
+    hashNoteBody,
+    joinWithManualEditsMarker,
+    splitAtManualEditsMarker,
+    updateNoteRecord
+} from '../obsidian/noteRegistry';
+import {buildTemplateContext, getNoteFrontmatterData, ProcessTaskOptions} from './taskProcessor';
+import {TaskProcessingError} from './taskErrors';
+import {QueueTask} from './taskTypes';
+import {Vault} from '../vaults/vaultRegistry';
+
+// Applies an edited Telegram message to the note it created earlier
+export async function processEditTask(vault: Vault, task: QueueTask, options: ProcessTaskOptions = {}): Promise<void> {
+    const record = findNoteByMessage(task.chatId, task.messageId);
+    if (!record) {
+        logger.info(`No saved note for edited messageId ${task.messageId}, ignoring edit.`);
+        return;
+    }
+    // The note text comes from the one album item with the caption; the others have none to edit.
+    // Notes saved before that item was recorded only take edits that carry text.
+    const isOtherAlbumItem = record.captionMessageId !== undefined ? task.messageId !== record.captionMessageId : !task.text;
+    if (record.messageIds.length > 1 && isOtherAlbumItem) {
+        logger.info(`Edited messageId ${task.messageId} is an album item without the caption, ignoring edit.`);
+        return;
+    }
+
+    const fullNotePath = vault.files.toFullPath(record.notePath);
+    let currentContent: string;
+    try {
+        currentContent = await fs.readFile(fullNotePath, 'utf8');
+    } catch (error: any) {
+        logger.warn(`Note ${record.notePath} for edited messageId ${task.messageId} could not be read: ${error.message}`);
+        bot.sendMessage(task.chatId, `⚠️ The note for message ${task.messageId} no longer exists in the vault, edit not applied.`)
+            .catch((sendError: any) => logger.warn(`Could not report missing note to chat ${task.chatId}: ${sendError.message}`));
+        return;
+    }
+
+    const {frontmatter, body} = parseFrontmatter(currentContent);
+    const [generatedPart, manualPart] = splitAtManualEditsMarker(body, config.MANUAL_EDITS_MARKER);
+    if (hashNoteBody(generatedPart) !== record.bodyHash) {
+        // Someone changed the bot-generated part in Obsidian; don't overwrite their work
+        logger.warn(`Conflict updating ${record.notePath}: note body was modified in the vault.`);
+        bot.sendMessage(task.chatId, `⚠️ "${record.title}" was changed in the vault since it was saved, so the edit to message ${task.messageId} was not applied. Update the note manually or keep your changes below the marker line.`)
+            .catch((sendError: any) => logger.warn(`Could not report edit conflict to chat ${task.chatId}: ${sendError.message}`));
+        return;
+    }
+
+    const text = [formatEntitiesAsMarkdown(task.text, task.entities), ...(record.transcripts || [])].filter(Boolean).join('\n\n');
+    let title = record.title;
+    let hashtags = record.hashtags;
+    let summary = record.summary;
+    if (config.EDIT_SYNC_REGENERATE_METADATA && text.trim()) {
+        try {
+            ({title, hashtags, summary} = await generateNoteMetadata(vault.settings, text, undefined, {detectTasks: false})); // Tasks were added when the note was created
+            hashtags = prefixTags(hashtags, task.tagPrefix);
+        } catch (aiError: any) {
+            logger.error(`AI processing failed for edited messageId ${task.messageId}: ${aiError.message}`, {stack: aiError.stack});
+            if (!options.isFinalAttempt) {
+                throw new TaskProcessingError('ai', `AI processing failed: ${aiError.message}`);
+            }
+            // Keep the previous title, tags and summary
+        }
+    }
+
+    const frontmatterData = getNoteFrontmatterData(task, title, hashtags, new Date(record.savedAt), summary);
+    const template = await loadTemplate(vault.settings.path, record.template);
+    const linkedText = await autoLinkText(vault, text, record.notePath);
+    const generatedBody = renderTemplate(template, buildTemplateContext(task, linkedText, record.assetLinks, frontmatterData, record.linkSections, record.relatedLinks));
+
+    // Frontmatter is kept verbatim unless the title, tags or summary changed
+    let frontmatterText = currentContent.slice(0, currentContent.length - body.length).trimEnd();
+    const summaryChanged = JSON.stringify(summary) !== JSON.stringify(record.summary);
+    const metadataChanged = title !== record.title || hashtags.join(' ') !== record.hashtags.join(' ') || summaryChanged;
+    if (frontmatter && metadataChanged) {
+        const titleProperty = getFrontmatterProperty('title');
+        const tagsProperty = getFrontmatterProperty('tags');
+        const aliasesProperty = getFrontmatterProperty('aliases');
+        if (titleProperty) frontmatter[titleProperty] = title;
+        if (tagsProperty) frontmatter[tagsProperty] = hashtags.map(normalizeTag).filter(Boolean);
+        if (aliasesProperty && Array.isArray(frontmatter[aliasesProperty]) && !frontmatter[aliasesProperty].includes(title)) {
+            frontmatter[aliasesProperty] = [...frontmatter[aliasesProperty] as string[], title];
+        }
+        if (summaryChanged) {
+            const regenerated = buildFrontmatter(frontmatterData);
+            for (const field of ['summary', 'language', 'people', 'organizations']) {
+                const property = getFrontmatterProperty(field);
+                if (!property) continue;
+                if (regenerated[property] !== undefined) {
+                    frontmatter[property] = regenerated[property];
+                } else {
+                    delete frontmatter[property];
+                }
+            }
+        }
+        frontmatterText = serializeFrontmatter(frontmatter);
+    }
+
+    const newBody = joinWithManualEditsMarker(generatedBody, manualPart, config.MANUAL_EDITS_MARKER);
+    const newContent = frontmatterText ? `${frontmatterText}\n\n${newBody}` : newBody;
+    if (newContent === currentContent) {
+        logger.info(`Edit of messageId ${task.messageId} does not change ${record.notePath}, nothing to do.`);
+        return;
+    }
+
+    await fs.writeFile(fullNotePath, newContent, {encoding: 'utf8'});
+    const captionMessageId = record.messageIds.length > 1 ? task.messageId : undefined; // An album without caption may get one
+    updateNoteRecord(record, {title, hashtags, summary, captionMessageId, bodyHash: hashNoteBody(generatedBody)});
+    await recordLinksFrom(vault, record.notePath, generatedBody);
+    logger.info(`Note updated after edit of messageId ${task.messageId}: ${record.notePath}`);
+
+    const commitMessage = `Update note: ${title.substring(0, 50)}${title.length > 50 ? '...' : ''}`;
+    const pendingCommit = {filePaths: [fullNotePath], commitMessage};
+    options.onNoteSaved?.(pendingCommit);
+    await vault.processor.commit(pendingCommit);
+}
@@ -1,59 +1,220 @@
 import async, { QueueObject } from 'async';
+import { randomUUID } from 'crypto';
+import { bot } from '../bot/telegramHandler';
+import { config } from '../config';
 import { logger } from '../utils/logger';
-import { processMessageTask } from './taskProcessor'; // We'll create this next
-import { QueueTask } from './taskTypes';
-
-// Create a queue object with concurrency 1 (process tasks one by one)
-const taskQueue: QueueObject<QueueTask> = async.queue(
-    async (task: QueueTask, callback) => {
-        logger.info(`Processing task for messageId: ${task.messageId} from chatId: ${task.chatId}`);
-        try {
-            await processMessageTask(task);
-            logger.info(`Successfully processed task for messageId: ${task.messageId}`);
-            callback(); // Signal task completion
-        } catch (error: any) {
-            logger.error(`Error processing task for messageId: ${task.messageId}`, {
-                error: error.message,
-                stack: error.stack,
-                task: { ...task, media: task.media ? { ...task.media, fileId: 'REDACTED' } : undefined } // Avoid logging full fileId if sensitive
+import { TaskProcessingError } from './taskErrors';
+import { loadPendingTasks, moveToDeadLetter, removePendingTask, savePendingTask, takeDeadLetterTask } from './taskStore';
+import { FailureClass, PersistedTask, QueueTask } from './taskTypes';
+import { getVault } from '../vaults/vaultRegistry';
+
+// Backoff multiplier per failure class: git/remote problems usually take longer to clear up
+const RETRY_DELAY_FACTORS: Record<FailureClass, number> = {
+    download: 1,
+    ai: 2,
+    git: 6,
+    unknown: 1,
+};
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000; // 1 hour
+const EDIT_HOLD_DELAY_MS = 1000; // An edit waiting for its original runs this long after the original's next attempt
+
+const retryTimers = new Map<string, NodeJS.Timeout>();
+let lastTaskError: { message: string, messageId: number, at: Date } | null = null;
+
+function redactTask(task: QueueTask) {
+    return { ...task, media: task.media?.map(media => ({ ...media, fileId: 'REDACTED' })) }; // Avoid logging full fileId if sensitive
+}
+
+// The journaled task that will create the note an edit applies to, while that note isn't saved yet
+function findPendingOriginal(entry: PersistedTask): PersistedTask | undefined {
+    const { task } = entry;
+    return loadPendingTasks().find(stored => stored.id !== entry.id
+        && !stored.task.isEdit
+        && !stored.pendingCommit // Already saved, only the commit is left
+        && stored.task.chatId === task.chatId
+        && (stored.task.groupMessageIds || [stored.task.messageId]).includes(task.messageId));
+}
+
+// Runs one task against its vault's processor
+async function processEntry(entry: PersistedTask): Promise<void> {
+    const { task } = entry;
+    const original = task.isEdit ? findPendingOriginal(entry) : undefined;
+    if (original) {
+        // The original message is waiting for a retry; applying the edit now would find no note
+        const held: PersistedTask = { ...entry, nextAttemptAt: Math.max(original.nextAttemptAt, Date.now()) + EDIT_HOLD_DELAY_MS };
+        savePendingTask(held);
+        logger.info(`Holding edit of messageId ${task.messageId} until task ${original.id} has saved the note.`);
+        scheduleTask(held);
+        return;
+    }
+    const attempt = entry.attempts + 1;
+    logger.info(`Processing task ${entry.id} for messageId: ${task.messageId} from chatId: ${task.chatId} (attempt ${attempt}/${config.QUEUE_MAX_ATTEMPTS})`);
+    try {
+        const { processor } = getVault(task.vaultId);
+        if (entry.pendingCommit) {
+            // Note and assets were already written by an earlier attempt, only the git step is left
+            await processor.commit(entry.pendingCommit);
+        } else {
+            await processor.process(task, {
+                isFinalAttempt: attempt >= config.QUEUE_MAX_ATTEMPTS,
+                onNoteSaved: (pendingCommit) => savePendingTask({ ...entry, pendingCommit }),
             });
-            // Optionally notify user about the failure here or within processMessageTask
-            callback(error); // Signal task error
         }
-    },
-    1 // Concurrency level
-);
-
-// Assign an error handler for the queue itself (e.g., if the worker function throws synchronously)
-taskQueue.error((err: Error, task: QueueTask) => {
-    logger.error(`Fatal error in queue processing task for messageId ${task.messageId}:`, {
-        error: err.message,
-        stack: err.stack,
+        removePendingTask(entry.id);
+        logger.info(`Successfully processed task for messageId: ${task.messageId}`);
+    } catch (error: any) {
+        logger.error(`Error processing task for messageId: ${task.messageId}`, {
+            error: error.message,
+            stack: error.stack,
+            task: redactTask(task),
+        });
+        handleTaskFailure(entry, error);
+    }
+}
+
+// One queue per vault: tasks of a vault run one by one (they share its files and git repository),
+// while different vaults are processed in parallel
+const taskQueues = new Map<string, QueueObject<PersistedTask>>();
+
+function getTaskQueue(vaultId: string): QueueObject<PersistedTask> {
+    let taskQueue = taskQueues.get(vaultId);
+    if (taskQueue) {
+        return taskQueue;
+    }
+    taskQueue = async.queue(processEntry, 1); // Concurrency level
+
+    // Assign an error handler for the queue itself (e.g., if the worker function throws synchronously)
+    taskQueue.error((err: Error, entry: PersistedTask) => {
+        logger.error(`Fatal error in queue processing task for messageId ${entry.task.messageId}:`, {
+            error: err.message,
+            stack: err.stack,
+        });
+        // Depending on the error, might need more specific handling or notifications
     });
-    // Depending on the error, might need more specific handling or notifications
-});
 
-// Optional: Handle queue drain event
-taskQueue.drain(() => {
-    logger.info('Message queue is empty and processing has finished.');
-});
+    // Optional: Handle queue drain event
+    taskQueue.drain(() => {
+        logger.info(`Message queue of vault "${vaultId}" is empty and processing has finished.`);
+    });
+    taskQueues.set(vaultId, taskQueue);
+    return taskQueue;
+}
+
+// Tasks without a vault id (journaled before multi-vault support) belong to the default vault
+function pushTask(entry: PersistedTask): void {
+    getTaskQueue(entry.task.vaultId || getVault().settings.id).push(entry);
+}
+
+function getRetryDelay(failureClass: FailureClass, attempts: number): number {
+    const delay = config.QUEUE_RETRY_BASE_DELAY_MS * RETRY_DELAY_FACTORS[failureClass] * Math.pow(2, attempts - 1);
+    return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+function handleTaskFailure(entry: PersistedTask, error: any): void {
+    const failureClass: FailureClass = error instanceof TaskProcessingError ? error.failureClass : 'unknown';
+    lastTaskError = { message: error.message, messageId: entry.task.messageId, at: new Date() };
+    // Re-read the journal entry: a checkpoint (pendingCommit) may have been stored during this attempt
+    const current = loadPendingTasks().find(stored => stored.id === entry.id) || entry;
+    const updated: PersistedTask = {
+        ...current,
+        attempts: current.attempts + 1,
+        lastError: error.message,
+        failureClass,
+        pendingCommit: error instanceof TaskProcessingError && error.pendingCommit ? error.pendingCommit : current.pendingCommit,
+    };
+
+    if (updated.attempts >= config.QUEUE_MAX_ATTEMPTS) {
+        moveToDeadLetter(updated);
+        bot.sendMessage(updated.task.chatId, `❌ Failed to save note from message ${updated.task.messageId} after ${updated.attempts} attempts. Error: ${String(error.message).substring(0, 100)}...`)
+            .catch((notifyError: any) => logger.error(`Failed to notify chat ${updated.task.chatId} about dead-lettered task: ${notifyError.message}`));
+        return;
+    }
+
+    const delay = getRetryDelay(failureClass, updated.attempts);
+    updated.nextAttemptAt = Date.now() + delay;
+    savePendingTask(updated);
+    logger.warn(`Task ${updated.id} failed (${failureClass}), retrying in ${Math.round(delay / 1000)}s (attempt ${updated.attempts}/${config.QUEUE_MAX_ATTEMPTS}).`);
+    scheduleTask(updated);
+}
+
+// Push a persisted task into the in-memory queue, now or once its backoff has elapsed
+function scheduleTask(entry: PersistedTask): void {
+    const delay = entry.nextAttemptAt - Date.now();
+    if (delay <= 0) {
+        pushTask(entry);
+        return;
+    }
+    const timer = setTimeout(() => {
+        retryTimers.delete(entry.id);
+        pushTask(entry);
+    }, delay);
+    retryTimers.set(entry.id, timer);
+}
 
 export function enqueueTask(task: QueueTask): void {
-    if (!task.text && !task.media) {
+    if (!task.text && !task.media?.length) {
         logger.warn(`Skipping task for messageId ${task.messageId} as it has no text or media.`);
         return;
     }
-    logger.info(`Adding task to queue for messageId: ${task.messageId}`);
-    taskQueue.push(task, (err) => {
-        if (err) {
-            // Error handling is already done in the worker and queue.error
-            // This callback in push is mostly for knowing when the specific task *finished*
-            logger.debug(`Finished processing (with or without error) for messageId: ${task.messageId}`);
-        }
-    });
-    logger.info(`Queue length: ${taskQueue.length()}`);
+    const now = Date.now();
+    const entry: PersistedTask = {
+        id: randomUUID(),
+        task,
+        attempts: 0,
+        enqueuedAt: now,
+        nextAttemptAt: now,
+    };
+    // Persist before acknowledging, so a crash from here on can't lose the message
+    savePendingTask(entry);
+    logger.info(`Adding task ${entry.id} to queue for messageId: ${task.messageId}`);
+    pushTask(entry);
+    logger.info(`Queue length: ${getQueueLength(task.vaultId)}`);
+}
+
+// Replay tasks left in the journal by a previous run (crash, restart or pending retries)
+export function restorePersistedTasks(): void {
+    const pending = loadPendingTasks();
+    if (pending.length === 0) {
+        logger.info('No persisted tasks to restore.');
+        return;
+    }
+    logger.info(`Restoring ${pending.length} persisted task(s) from the queue journal.`);
+    pending
+        .sort((a, b) => a.enqueuedAt - b.enqueuedAt)
+        .forEach(entry => scheduleTask(entry));
+}
+
+// Move a dead-lettered task back into the queue with a fresh attempt counter
+export function retryDeadLetterTask(id: string): boolean {
+    const entry = takeDeadLetterTask(id);
+    if (!entry) {
+        return false;
+    }
+    const revived: PersistedTask = { ...entry, attempts: 0, nextAttemptAt: Date.now() };
+    savePendingTask(revived);
+    scheduleTask(revived);
+    logger.info(`Dead-lettered task ${id} re-enqueued.`);
+    return true;
+}
+
+export function stopRetryTimers(): void {
+    retryTimers.forEach(timer => clearTimeout(timer));
+    retryTimers.clear();
 }
 
-export function getQueueLength(): number {
-    return taskQueue.length();
-}
\ No newline at end of file
+// Waiting tasks of one vault, or of all vaults
+export function getQueueLength(vaultId?: string): number {
+    if (vaultId) {
+        return taskQueues.get(vaultId)?.length() || 0;
+    }
+    return Array.from(taskQueues.values()).reduce((total, taskQueue) => total + taskQueue.length(), 0);
+}
+
+export function getLastTaskError(): { message: string, messageId: number, at: Date } | null {
+    return lastTaskError;
+}
+
+// Tasks waiting for their retry backoff to elapse
+export function getScheduledRetryCount(): number {
+    return retryTimers.size;
+}
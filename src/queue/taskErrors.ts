@@ -0,0 +1,13 @@
+import {FailureClass, PendingCommit} from './taskTypes';
+
+// Error thrown by the task processor, tagged with the stage that failed
+export class TaskProcessingError extends Error {
+    constructor(
+        public readonly failureClass: FailureClass,
+        message: string,
+        public readonly pendingCommit?: PendingCommit,
+    ) {
+        super(message);
+        this.name = 'TaskProcessingError';
+    }
+}
@@ -2,15 +2,43 @@ import path from 'path';
 import fs from 'fs/promises';
 import {bot} from '../bot/telegramHandler'; // Need bot instance for downloads/notifications
 import {logger} from '../utils/logger';
-import {generateNoteMetadata} from '../ai/openAIService';
-import {saveAsset, saveNote} from '../obsidian/vaultService';
-import {commitAndPush} from '../git/gitService';
-import {QueueTask} from './taskTypes';
+import {generateNoteMetadata} from '../ai/aiService';
+import {AiImage, DetectedTask, NoteMetadata, NoteSummary} from '../ai/aiProvider';
+import {transcribeAudio} from '../ai/transcriptionService';
+import {extractImageText, ImageText, isVisionImage, renderImageText} from '../ai/imageTextService';
+import {startReview} from '../bot/reviewService';
+import {formatDate, normalizeTag, NoteFrontmatterData, renderNoteWithFrontmatter} from '../obsidian/frontmatter';
+import {loadTemplate, renderTemplate, TemplateContext} from '../obsidian/templateService';
+import {resolveNoteRoute, resolvePromptRoute} from '../obsidian/routingService';
+import {loadPromptInstructions} from '../obsidian/promptNotes';
+import {addTagsToIndex, prefixTags} from '../obsidian/tagVocabulary';
+import {updateSearchIndex} from '../obsidian/searchIndex';
+import {addToTopicNotes, autoLinkText, findRelatedLinks, recordLinksFrom} from '../obsidian/noteLinker';
+import {formatEntitiesAsMarkdown} from '../obsidian/entityFormatter';
+import {appendToDailyNote, buildDailyEntry, formatMomentDate, isDailyCapture} from '../obsidian/dailyNoteService';
+import {appendTasks, appendTasksToContent, formatTaskLine} from '../obsidian/taskService';
+import {hashNoteBody, joinWithManualEditsMarker, registerSavedNote, SavedNoteRecord, updateNoteRecord} from '../obsidian/noteRegistry';
+import {findDuplicateNote, normalizeTextForComparison, recordMessageFingerprints} from '../obsidian/duplicateIndex';
+import {MediaInfo, PendingCommit, QueueTask} from './taskTypes';
+import {TaskProcessingError} from './taskErrors';
+import {processEditTask} from './editProcessor';
+import {describeLinksForAI, extractUrls, renderLinkSection, UnfurledLink, unfurlLinks} from '../web/linkUnfurler';
 import {config} from '../config';
+import {Vault} from '../vaults/vaultRegistry';
 
-async function downloadMedia(mediaInfo: QueueTask['media']): Promise<{ buffer: Buffer, filename: string, base64: string } | null> {
-    if (!mediaInfo) return null;
+export interface ProcessTaskOptions {
+    isFinalAttempt?: boolean; // On the last attempt, fall back to uncategorized metadata instead of failing on AI errors
+    onNoteSaved?: (pendingCommit: PendingCommit) => void; // Checkpoint hook, called before the git step
+}
+
+interface DownloadedMedia {
+    buffer: Buffer;
+    filename: string;
+    base64: string;
+    mediaInfo: MediaInfo;
+}
 
+async function downloadMedia(mediaInfo: MediaInfo): Promise<DownloadedMedia> {
     logger.info(`Downloading media: fileId=${mediaInfo.fileId}, filename=${mediaInfo.fileName}`);
     try {
         // Get file path from Telegram
@@ -24,117 +52,456 @@ async function downloadMedia(mediaInfo: QueueTask['media']): Promise<{ buffer: B
         const arrayBuffer = await response.arrayBuffer();
         const buffer = Buffer.from(arrayBuffer);
         const base64 = buffer.toString('base64');
-        const format = mediaInfo.fileName.split('.').pop();
 
         logger.info(`Successfully downloaded media: ${mediaInfo.fileName}, size: ${buffer.length} bytes`);
-        return {buffer, filename: mediaInfo.fileName, base64};
+        return {buffer, filename: mediaInfo.fileName, base64, mediaInfo};
     } catch (error: any) {
         logger.error(`Failed to download media fileId ${mediaInfo.fileId}:`, error);
         // Decide if we should notify user here or let the main error handler do it
-        throw new Error(`Failed to download media: ${error.message}`); // Re-throw to be caught by main processor
+        throw new TaskProcessingError('download', `Failed to download media: ${error.message}`); // Re-throw to be caught by main processor
     }
 }
 
-export async function processMessageTask(task: QueueTask): Promise<void> {
-    let aiMetadata: { title: string; hashtags: string[] } | null = null;
-    let savedAssetPath: string | null = null; // Relative path within vault
-    let noteContent = task.text || ''; // Start with text/caption
-    let finalNotePath: string | null = null; // Full path to the saved note
-    const assetPathsToCommit: string[] = []; // Keep track of assets saved in this task
+// Only images can be sent to the model; videos and other documents are just embedded
+function isImage(mediaInfo: MediaInfo): boolean {
+    return mediaInfo.type === 'photo' || !!mediaInfo.mimeType?.startsWith('image/');
+}
 
-    try {
-        // 1. Download Media (if applicable)
-        const downloadedMedia = await downloadMedia(task.media);
+// Telegram recompresses photos to JPEG; images sent as files keep their own format
+function toAiImage(media: DownloadedMedia): AiImage {
+    return {base64: media.base64, mimeType: media.mediaInfo.mimeType || 'image/jpeg'};
+}
 
-        // 2. Save Asset (if applicable)
-        if (downloadedMedia) {
-            savedAssetPath = await saveAsset(downloadedMedia.buffer, downloadedMedia.filename);
-            assetPathsToCommit.push(path.join(config.OBSIDIAN_VAULT_PATH, savedAssetPath)); // Store full path for git add
+// Text and descriptions of the images, for the AI prompt
+function describeImagesForAI(imageTexts: Map<DownloadedMedia, ImageText>): string {
+    return Array.from(imageTexts, ([media, imageText]) => [
+        imageText.description ? `Image ${media.filename}: ${imageText.description}` : '',
+        imageText.text ? `Text in image ${media.filename}:\n${imageText.text}` : '',
+    ].filter(Boolean).join('\n')).filter(Boolean).join('\n\n');
+}
 
-            // Append link to note content (Obsidian Wikilink format)
-            // Assuming assets are saved in a root 'assets' folder
-            noteContent += `\n\n![[${savedAssetPath.replace(/\\/g, '/')}]]`; // Use forward slashes for links
-        }
+// The day a capture belongs to: when it was sent to the bot, not when a forwarded post was first published
+function getSentDate(task: QueueTask): Date {
+    return new Date((task.sentDate ?? task.messageDate) * 1000);
+}
 
-        // 3. Get Metadata from AI
-        // Use only text content for AI analysis to keep prompts cleaner
-        const textForAI = task.text || `Media: ${task.media?.fileName || 'attached file'}`;
-        // noinspection PointlessBooleanExpressionJS
-        if (false && !(task.text || '').trim()) {
-            // noinspection JSUnreachableCode
-            logger.warn(`Skipping AI analysis for messageId ${task.messageId} due to empty content.`);
-            aiMetadata = {
-                title: `Note from ${new Date(task.messageDate * 1000).toISOString()}`,
-                hashtags: ['#uncategorized', "#no-text"]
-            };
-        } else {
+function isTranscribable(mediaInfo: MediaInfo): boolean {
+    return mediaInfo.type === 'voice' || mediaInfo.type === 'audio' || mediaInfo.type === 'video_note';
+}
+
+// Turns queued messages into notes of one vault; every vault has its own processor
+export class TaskProcessor {
+    constructor(private readonly vault: Vault) {
+    }
+
+    // Transcribes voice/audio/video notes; failures are retried by the queue, and skipped on the final attempt
+    private async transcribeMedia(task: QueueTask, downloadedMedia: DownloadedMedia[], isFinalAttempt?: boolean): Promise<string[]> {
+        const transcripts: string[] = [];
+        for (const media of downloadedMedia.filter(item => isTranscribable(item.mediaInfo))) {
             try {
-                aiMetadata = await generateNoteMetadata(textForAI, downloadedMedia ? [downloadedMedia.base64] : undefined);
-            } catch (aiError: any) {
-                logger.error(`AI processing failed for messageId ${task.messageId}: ${aiError.message}`, {stack: aiError.stack});
-                aiMetadata = {
-                    title: `Uncategorized Note - ${task.messageId}`,
-                    hashtags: ['#uncategorized', '#ai-error']
-                };
-                // Notify user about AI failure
-                bot.sendMessage(task.chatId, `⚠️ Failed to get AI categorization for message ${task.messageId}. Saved as uncategorized.`);
+                const transcript = await transcribeAudio(media.buffer, media.filename, media.mediaInfo.mimeType, this.vault.settings.language);
+                if (transcript) {
+                    transcripts.push(transcript);
+                }
+            } catch (error: any) {
+                logger.error(`Transcription failed for ${media.filename} (messageId ${task.messageId}): ${error.message}`, {stack: error.stack});
+                if (!isFinalAttempt) {
+                    throw new TaskProcessingError('ai', `Transcription failed: ${error.message}`);
+                }
+                bot.sendMessage(task.chatId, `⚠️ Failed to transcribe ${media.filename} from message ${task.messageId}. Saved without transcript.`)
+                    .catch(notifyError => logger.warn(`Could not send transcription warning for messageId ${task.messageId}: ${notifyError.message}`));
             }
         }
+        return transcripts;
+    }
+
+    // Links a new note from the daily note, its topic notes and TASKS_NOTE and records the links both ways; returns the full paths that changed
+    private async linkSavedNote(task: QueueTask, record: SavedNoteRecord, aiMetadata: NoteMetadata, generatedBody: string, daily: boolean): Promise<string[]> {
+        const {files} = this.vault;
+        // 6b. Link the note from the daily note (DAILY_NOTE_LINK_ONLY)
+        const linkedFrom: string[] = [];
+        const noteName = path.posix.basename(record.notePath.replace(/\\/g, '/'), '.md');
+        const noteLink = noteName === aiMetadata.title ? `[[${noteName}]]` : `[[${noteName}|${aiMetadata.title}]]`;
+        if (daily) {
+            const sentAt = getSentDate(task);
+            linkedFrom.push(await appendToDailyNote(this.vault, buildDailyEntry(sentAt, noteLink), sentAt));
+        }
+
+        // 6c. Link the note from the topic note of each hashtag (MOC_FOLDER)
+        linkedFrom.push(...await addToTopicNotes(this.vault, record.notePath, aiMetadata.title, aiMetadata.hashtags));
 
+        // 6d. Tasks the AI found are collected in TASKS_NOTE, each linking back to the note
+        if (aiMetadata.tasks?.length && config.TASKS_NOTE) {
+            linkedFrom.push(await appendTasks(this.vault, config.TASKS_NOTE, aiMetadata.tasks.map(detected => formatTaskLine(detected, noteLink))));
+        }
+        // 6e. Remember the links both ways, so /retitle, /move and /undo can fix them later
+        if (linkedFrom.length > 0) {
+            updateNoteRecord(record, {linkedFrom: Array.from(new Set(linkedFrom.map(linkingPath => files.toRelativePath(linkingPath))))});
+        }
+        await recordLinksFrom(this.vault, record.notePath, generatedBody);
+        return linkedFrom;
+    }
 
-        // 4. Format Note Content (Append metadata)
-        const metadataBlock = formatMetadata(task, aiMetadata.hashtags);
-        noteContent += `\n\n---\n${metadataBlock}`; // Use --- separator
+    // Tasks in a daily capture (TASK_DETECTION); the entry is saved without them if the AI fails
+    private async detectDailyTasks(task: QueueTask, text: string): Promise<DetectedTask[]> {
+        if (!config.TASK_DETECTION || !text.trim()) {
+            return [];
+        }
+        try {
+            const metadata = await generateNoteMetadata(this.vault.settings, text, undefined, {summarize: false, detectTasks: true});
+            return metadata.tasks || [];
+        } catch (aiError: any) {
+            logger.warn(`Task detection failed for daily capture messageId ${task.messageId}: ${aiError.message}`);
+            return [];
+        }
+    }
 
-        // 5. Save Note to Vault (Handles unique filename)
-        finalNotePath = await saveNote(aiMetadata.title, noteContent);
-        if (!finalNotePath) { // Should not happen if saveNote is implemented correctly, but check
-            throw new Error('Failed to save note, path was nullish.');
+    // Saves the media as assets and appends text, transcripts and embeds to the daily note of the day the message was sent
+    private async appendDailyEntry(task: QueueTask, text: string, downloadedMedia: DownloadedMedia[], options: ProcessTaskOptions): Promise<void> {
+        const {files} = this.vault;
+        const detectedTasks = await this.detectDailyTasks(task, text);
+        const assetPaths: string[] = [];
+        const embeds: string[] = [];
+        for (const media of downloadedMedia) {
+            const savedAsset = await files.saveAsset(media.buffer, media.filename);
+            assetPaths.push(files.toFullPath(savedAsset.path));
+            embeds.push(`![[${savedAsset.path.replace(/\\/g, '/')}]]`);
+        }
+        const source = task.forwardSourceLink ? [`(${task.forwardSourceLink})`] : [];
+        const sentAt = getSentDate(task); // A message retried or restored later still belongs to its own day
+        // Found tasks go to TASKS_NOTE, linking back to the daily note, or below the entry
+        const taskLines = config.TASKS_NOTE ? [] : detectedTasks.map(detected => formatTaskLine(detected));
+        const dailyNotePath = await appendToDailyNote(this.vault, buildDailyEntry(sentAt, text, [...source, ...embeds, ...taskLines]), sentAt);
+        const tasksNotePaths: string[] = [];
+        if (detectedTasks.length > 0 && config.TASKS_NOTE) {
+            const dailyLink = `[[${path.basename(dailyNotePath, '.md')}]]`;
+            tasksNotePaths.push(await appendTasks(this.vault, config.TASKS_NOTE, detectedTasks.map(detected => formatTaskLine(detected, dailyLink))));
         }
-        logger.info(`Note saved locally: ${finalNotePath}`);
 
+        const pendingCommit: PendingCommit = {
+            filePaths: [dailyNotePath, ...assetPaths, ...tasksNotePaths],
+            commitMessage: `Add to daily note: ${path.basename(dailyNotePath, '.md')}`,
+        };
+        options.onNoteSaved?.(pendingCommit);
+        await this.commit(pendingCommit);
+        logger.info(`Successfully committed daily note entry for messageId ${task.messageId}`);
+    }
 
-        // 6. Commit and Push to Git
-        const commitMessage = `Add note: ${aiMetadata.title.substring(0, 50)}${aiMetadata.title.length > 50 ? '...' : ''}`;
-        const filesToCommit = [finalNotePath, ...assetPathsToCommit];
-        await commitAndPush(filesToCommit, commitMessage);
-        logger.info(`Successfully committed and pushed changes for note: ${aiMetadata.title}`);
+    // DUPLICATE_POLICY=skip (or a merge with nothing new): points the user to the note saved earlier
+    private async replyWithDuplicate(task: QueueTask, record: SavedNoteRecord): Promise<void> {
+        logger.info(`Message ${task.messageId} duplicates note ${record.notePath}, not saving it again.`);
+        try {
+            await bot.sendMessage(task.chatId, `♻️ Already saved as "${record.title}" (${record.notePath})\n${this.vault.files.toObsidianUri(record.notePath)}`, {reply_to_message_id: task.messageId});
+        } catch (error: any) {
+            logger.warn(`Could not send duplicate notice for messageId ${task.messageId}: ${error.message}`);
+        }
+    }
 
-        // Optional: Notify user on success
-        // bot.sendMessage(task.chatId, `✅ Note "${aiMetadata.title}" saved successfully!`);
+    // DUPLICATE_POLICY=merge: appends whatever the message adds (text, media, source) to the note saved earlier
+    private async mergeIntoNote(task: QueueTask, record: SavedNoteRecord, text: string, downloadedMedia: DownloadedMedia[], options: ProcessTaskOptions): Promise<void> {
+        const {files, settings} = this.vault;
+        const notePath = files.resolveVaultPath(record.notePath);
+        const content = await fs.readFile(notePath, 'utf8');
 
-    } catch (error: any) {
-        logger.error(`Failed processing task for messageId ${task.messageId}: ${error.message}`, {stack: error.stack});
+        const assetPaths: string[] = [];
+        const reusedAssetPaths: string[] = [];
+        const embeds: string[] = [];
+        for (const media of downloadedMedia) {
+            const savedAsset = await files.saveAsset(media.buffer, media.filename);
+            const embed = `![[${savedAsset.path.replace(/\\/g, '/')}]]`;
+            if (!content.includes(embed)) {
+                assetPaths.push(savedAsset.path);
+                embeds.push(embed);
+                if (savedAsset.reused) reusedAssetPaths.push(savedAsset.path);
+            }
+        }
+        // The same forward or a repost with other formatting adds no text
+        const newText = text.trim() && !normalizeTextForComparison(content).includes(normalizeTextForComparison(text)) ? text.trim() : '';
+        const newSource = task.forwardSourceLink && !content.includes(task.forwardSourceLink) ? task.forwardSourceLink : undefined;
+        if (!newText && embeds.length === 0 && !newSource) {
+            await this.replyWithDuplicate(task, record);
+            return;
+        }
 
-        // Notify user about the overall failure
-        bot.sendMessage(task.chatId, `❌ Failed to save note from message ${task.messageId}. Error: ${error.message.substring(0, 100)}...`);
+        const heading = `**Received again** ${formatMomentDate(getSentDate(task), 'YYYY-MM-DD HH:mm')}${newSource ? ` (${newSource})` : ''}`;
+        const section = [heading, newText, ...embeds].filter(Boolean).join('\n\n');
+        // Appended at the very end, below the manual-edits marker, so edit sync keeps it
+        await fs.writeFile(notePath, `${content.trimEnd()}\n\n${section}\n`, {encoding: 'utf8'});
+        logger.info(`Merged messageId ${task.messageId} into note ${record.notePath}`);
+        updateNoteRecord(record, {
+            assetPaths: [...record.assetPaths, ...assetPaths.filter(assetPath => !record.assetPaths.includes(assetPath))],
+            reusedAssetPaths: reusedAssetPaths.length > 0 ? [...(record.reusedAssetPaths || []), ...reusedAssetPaths] : record.reusedAssetPaths,
+        });
+        recordMessageFingerprints(settings.id, task, record);
 
-        // If note was saved locally but Git failed, it will be picked up later.
-        // If asset save failed, note might be incomplete.
-        // If AI failed, it's handled above.
-        // If download failed, task might stop early.
-        // Re-throw the error to let the queue know the task failed.
-        throw error;
+        const pendingCommit: PendingCommit = {
+            filePaths: [notePath, ...assetPaths.map(assetPath => files.toFullPath(assetPath))],
+            commitMessage: `Merge into note: ${record.title.substring(0, 50)}${record.title.length > 50 ? '...' : ''}`,
+        };
+        options.onNoteSaved?.(pendingCommit);
+        await this.commit(pendingCommit);
+        bot.sendMessage(task.chatId, `🔗 Added to "${record.title}".`, {reply_to_message_id: task.messageId})
+            .catch(error => logger.warn(`Could not send merge notice for messageId ${task.messageId}: ${error.message}`));
     }
-}
 
-function formatMetadata(task: QueueTask, hashtags: string[]): string {
-    const lines: string[] = [];
-    const savedDate = new Date().toLocaleString('en-US', {timeZone: 'UTC'});
-    lines.push(`Saved At: ${savedDate}`);
-    if (task.userId) {
-        task.username ?
-            lines.push(`From User: @${task.username} (ID: ${task.userId})`) :
-            lines.push(`From User: ${task.userId}`);
+    // Commits/uploads files already written to the vault; retried on its own by the queue if syncing fails
+    async commit(pendingCommit: PendingCommit): Promise<void> {
+        updateSearchIndex(this.vault.settings, pendingCommit.filePaths);
+        try {
+            await this.vault.sync.pushChanges(pendingCommit.filePaths, pendingCommit.commitMessage);
+        } catch (error: any) {
+            throw new TaskProcessingError('git', error.message, pendingCommit);
+        }
     }
-    const originalPostDate = new Date(task.messageDate * 1000).toLocaleString('en-US', {timeZone: 'UTC'});
-    lines.push(`Original Date: ${originalPostDate}`);
-    if (task.forwardSourceLink) {
-        lines.push(`Source: ${task.forwardSourceLink}`);
+
+    // New notes; edits of earlier messages update the note they created
+    async process(task: QueueTask, options: ProcessTaskOptions = {}): Promise<void> {
+        if (task.isEdit) {
+            return processEditTask(this.vault, task, options);
+        }
+        return this.processMessageTask(task, options);
     }
-    if (hashtags.length > 0) {
-        lines.push(`Tags: ${hashtags.join(' ')}`);
+
+    private async processMessageTask(task: QueueTask, options: ProcessTaskOptions = {}): Promise<void> {
+        const {files, settings} = this.vault;
+        let aiMetadata: NoteMetadata | null = null;
+        let aiInstructions: string | undefined;
+        const formattedText = formatEntitiesAsMarkdown(task.text, task.entities); // Text/caption with bold, links, code... as Markdown
+        let noteContent = formattedText;
+        let finalNotePath: string | null = null; // Full path to the saved note
+        const assetPathsToCommit: string[] = []; // Keep track of assets saved in this task
+        const reusedAssetPaths: string[] = []; // Of those, identical files that were already in the vault
+
+        try {
+            // 0. Content saved before (same forwarded post, text or file) is skipped or merged per DUPLICATE_POLICY
+            const daily = isDailyCapture(task);
+            const duplicate = !daily && config.DUPLICATE_POLICY !== 'save' ? findDuplicateNote(settings.id, task) : undefined;
+            if (duplicate && config.DUPLICATE_POLICY === 'skip') {
+                await this.replyWithDuplicate(task, duplicate);
+                return;
+            }
+
+            // 1. Download Media (if applicable; albums carry several items)
+            const downloadedMedia: DownloadedMedia[] = [];
+            for (const mediaInfo of task.media || []) {
+                downloadedMedia.push(await downloadMedia(mediaInfo));
+            }
+
+            // 2. Transcribe voice/audio (the transcript becomes the note body)
+            const transcripts = await this.transcribeMedia(task, downloadedMedia, options.isFinalAttempt);
+            if (transcripts.length > 0) {
+                noteContent = [formattedText, ...transcripts].filter(Boolean).join('\n\n');
+            }
+
+            if (duplicate) {
+                await this.mergeIntoNote(task, duplicate, noteContent, downloadedMedia, options);
+                return;
+            }
+
+            // 2a. Quick captures become an entry of the daily note instead of a note of their own
+            if (daily && !config.DAILY_NOTE_LINK_ONLY) {
+                await this.appendDailyEntry(task, noteContent, downloadedMedia, options);
+                return;
+            }
+
+            // 2b. Read the text in photos and screenshots and describe them, for the AI and below the embeds
+            const imageTexts = new Map<DownloadedMedia, ImageText>();
+            for (const media of downloadedMedia.filter(item => isImage(item.mediaInfo))) {
+                imageTexts.set(media, await extractImageText(settings, media.buffer, media.filename, toAiImage(media).mimeType));
+            }
+
+            // 2c. Fetch linked pages (failures only lose the preview, never the note)
+            const unfurledLinks: UnfurledLink[] = config.LINK_UNFURL ? await unfurlLinks(extractUrls(task.text, task.entities)) : [];
+
+            // 3. Get Metadata from AI (before writing anything, so an AI retry leaves no orphaned assets)
+            // Use only text content for AI analysis to keep prompts cleaner; whole articles only if they get summarized
+            const textForAI = [noteContent, describeImagesForAI(imageTexts), describeLinksForAI(unfurledLinks, config.AI_SUMMARY !== 'off' ? 0 : undefined)].filter(Boolean).join('\n\n')
+                || `Media: ${task.media?.map(media => media.fileName).join(', ') || 'attached file'}`;
+            const imagesForAI = downloadedMedia.filter(media => isImage(media.mediaInfo)).map(toAiImage).filter(isVisionImage);
+            // noinspection PointlessBooleanExpressionJS
+            if (false && !(task.text || '').trim()) {
+                // noinspection JSUnreachableCode
+                logger.warn(`Skipping AI analysis for messageId ${task.messageId} due to empty content.`);
+                aiMetadata = {
+                    title: `Note from ${new Date(task.messageDate * 1000).toISOString()}`,
+                    hashtags: ['#uncategorized', "#no-text"]
+                };
+            } else {
+                try {
+                    // Extra instructions from a prompt note for where the note is going, as far as that is known without hashtags
+                    const promptRoute = await resolvePromptRoute(settings, task, buildTemplateContext(task, noteContent, [], getNoteFrontmatterData(task, '', [])));
+                    aiInstructions = await loadPromptInstructions(settings, promptRoute);
+                    aiMetadata = await generateNoteMetadata(settings, textForAI, imagesForAI.length > 0 ? imagesForAI : undefined, {instructions: aiInstructions});
+                    aiMetadata.hashtags = prefixTags(aiMetadata.hashtags, task.tagPrefix);
+                } catch (aiError: any) {
+                    logger.error(`AI processing failed for messageId ${task.messageId}: ${aiError.message}`, {stack: aiError.stack});
+                    if (!options.isFinalAttempt) {
+                        // Let the queue retry later; the fallback below is only used once retries are exhausted
+                        throw new TaskProcessingError('ai', `AI processing failed: ${aiError.message}`);
+                    }
+                    aiMetadata = {
+                        title: `Uncategorized Note - ${task.messageId}`,
+                        hashtags: ['#uncategorized', '#ai-error']
+                    };
+                    // Notify user about AI failure
+                    bot.sendMessage(task.chatId, `⚠️ Failed to get AI categorization for message ${task.messageId}. Saved as uncategorized.`)
+                        .catch(notifyError => logger.warn(`Could not send AI failure notice for messageId ${task.messageId}: ${notifyError.message}`));
+                }
+            }
+
+            // 4. Save Assets (if applicable)
+            const assetLinks: string[] = [];
+            for (const media of downloadedMedia) {
+                const savedAsset = await files.saveAsset(media.buffer, media.filename); // Relative path within vault
+                assetPathsToCommit.push(files.toFullPath(savedAsset.path)); // Store full path for git add
+                if (savedAsset.reused) reusedAssetPaths.push(savedAsset.path);
+
+                // Link for the note content (Obsidian Wikilink format), with what the image says and shows below it
+                const embed = `![[${savedAsset.path.replace(/\\/g, '/')}]]`; // Use forward slashes for links
+                const imageText = imageTexts.get(media);
+                assetLinks.push(imageText ? [embed, renderImageText(imageText)].filter(Boolean).join('\n') : embed);
+            }
+            const linkSections: string[] = [];
+            for (const link of unfurledLinks) {
+                let imageLink: string | undefined;
+                if (link.image) {
+                    const savedImage = await files.saveAsset(link.image.buffer, link.image.filename);
+                    assetPathsToCommit.push(files.toFullPath(savedImage.path));
+                    if (savedImage.reused) reusedAssetPaths.push(savedImage.path);
+                    imageLink = `![[${savedImage.path.replace(/\\/g, '/')}]]`;
+                }
+                linkSections.push(renderLinkSection(link, imageLink));
+            }
+
+            // 4a. Link mentions of existing notes and find related ones (before this note is indexed itself)
+            const linkedText = await autoLinkText(this.vault, noteContent);
+            const relatedLinks = await findRelatedLinks(this.vault, {title: aiMetadata.title, tags: aiMetadata.hashtags, text: noteContent});
+
+            // 5. Pick folder/template via routing rules and render the note (body from template, YAML frontmatter on top)
+            const frontmatterData = getNoteFrontmatterData(task, aiMetadata.title, aiMetadata.hashtags, new Date(), aiMetadata.summary);
+            const templateContext = buildTemplateContext(task, linkedText, assetLinks, frontmatterData, linkSections, relatedLinks);
+            const route = await resolveNoteRoute(settings, task, aiMetadata.hashtags, templateContext);
+            const template = await loadTemplate(settings.path, route.template);
+            const generatedBody = renderTemplate(template, templateContext);
+            let noteBody = joinWithManualEditsMarker(generatedBody, undefined, config.MANUAL_EDITS_MARKER);
+            // 5a. Tasks the AI found go at the end of the note, unless TASKS_NOTE collects them (step 6d)
+            if (aiMetadata.tasks?.length && !config.TASKS_NOTE) {
+                noteBody = appendTasksToContent(noteBody, aiMetadata.tasks.map(task => formatTaskLine(task)));
+            }
+            noteContent = renderNoteWithFrontmatter(frontmatterData, noteBody);
+
+            // 6. Save Note to Vault (Handles unique filename)
+            finalNotePath = await files.saveNote(aiMetadata.title, noteContent, route.folder);
+            if (!finalNotePath) { // Should not happen if saveNote is implemented correctly, but check
+                throw new Error('Failed to save note, path was nullish.');
+            }
+            logger.info(`Note saved locally: ${finalNotePath}`);
+
+            // Remember which message produced which files, for edit sync and chat commands
+            const record: SavedNoteRecord = {
+                vaultId: settings.id,
+                chatId: task.chatId,
+                messageIds: task.groupMessageIds || [task.messageId],
+                captionMessageId: task.captionMessageId,
+                notePath: files.toRelativePath(finalNotePath),
+                assetPaths: assetPathsToCommit.map(assetPath => files.toRelativePath(assetPath)),
+                reusedAssetPaths: reusedAssetPaths.length > 0 ? reusedAssetPaths : undefined,
+                assetLinks,
+                title: aiMetadata.title,
+                hashtags: aiMetadata.hashtags,
+                template: route.template,
+                transcripts: transcripts.length > 0 ? transcripts : undefined,
+                linkSections: linkSections.length > 0 ? linkSections : undefined,
+                relatedLinks: relatedLinks.length > 0 ? relatedLinks : undefined,
+                summary: aiMetadata.summary,
+                bodyHash: hashNoteBody(generatedBody),
+                savedAt: frontmatterData.created.getTime(),
+            };
+            registerSavedNote(record);
+            recordMessageFingerprints(settings.id, task, record);
+            addTagsToIndex(settings, aiMetadata.hashtags);
+            // Checkpoint: the note is registered now, so a retry must not save it again (its fingerprint would
+            // match as a duplicate, or a second copy would be written); it only commits what was saved
+            const commitMessage = `Add note: ${aiMetadata.title.substring(0, 50)}${aiMetadata.title.length > 50 ? '...' : ''}`;
+            const pendingCommit: PendingCommit = {filePaths: [finalNotePath, ...assetPathsToCommit], commitMessage};
+            options.onNoteSaved?.(pendingCommit);
+
+            // 6b-6e. Links to the note are a bonus; a failure there must not cost the note
+            try {
+                pendingCommit.filePaths.push(...await this.linkSavedNote(task, record, aiMetadata, generatedBody, daily));
+            } catch (linkError: any) {
+                logger.warn(`Could not link note ${record.notePath} from other notes: ${linkError.message}`);
+            }
+
+            // 7. Commit and Push to Git (in review mode, only once the user accepts title/tags)
+            options.onNoteSaved?.(pendingCommit); // Again, with the linking notes; the journal keeps it until the review has it
+            if (config.REVIEW_MODE) {
+                try {
+                    await startReview(this.vault, task, pendingCommit, textForAI, aiInstructions);
+                    return;
+                } catch (reviewError: any) {
+                    logger.error(`Failed to start review for messageId ${task.messageId}, committing directly: ${reviewError.message}`);
+                }
+            }
+            await this.commit(pendingCommit);
+            logger.info(`Successfully committed and pushed changes for note: ${aiMetadata.title}`);
+
+            // Optional: Notify user on success
+            // bot.sendMessage(task.chatId, `✅ Note "${aiMetadata.title}" saved successfully!`);
+
+        } catch (error: any) {
+            logger.error(`Failed processing task for messageId ${task.messageId}: ${error.message}`, {stack: error.stack});
+
+            // The user is notified by the queue once retries are exhausted.
+            // If note was saved locally but Git failed, the error carries the pending commit so only git is retried.
+            // If asset save failed, note might be incomplete.
+            // Re-throw the error to let the queue know the task failed.
+            throw error;
+        }
     }
+}
 
-    return lines.join('\n');
-}
\ No newline at end of file
+export function getNoteFrontmatterData(task: QueueTask, title: string, hashtags: string[], created: Date = new Date(), summary?: NoteSummary): NoteFrontmatterData {
+    return {
+        title,
+        created,
+        originalDate: new Date(task.messageDate * 1000),
+        source: task.forwardSourceLink,
+        chatId: task.chatId,
+        messageId: task.messageId,
+        author: task.username ? `@${task.username}` : task.userId?.toString(),
+        tags: hashtags,
+        aliases: [title], // Keeps the note linkable by its real title when the filename was sanitized or numbered
+        summary,
+    };
+}
+
+// Placeholders available to note templates and to routing rule folders
+export function buildTemplateContext(task: QueueTask, text: string, assetLinks: string[], data: NoteFrontmatterData, linkSections: string[] = [], relatedLinks: string[] = []): TemplateContext {
+    const created = formatDate(data.created);
+    const source = task.forwardSource;
+    return {
+        title: data.title,
+        text,
+        assets: assetLinks,
+        links: linkSections,
+        related: relatedLinks,
+        summary: data.summary?.tldr,
+        key_points: data.summary?.keyPoints,
+        action_items: data.summary?.actionItems,
+        people: data.summary?.people,
+        organizations: data.summary?.organizations,
+        dates: data.summary?.dates,
+        language: data.summary?.language,
+        source: task.forwardSourceLink,
+        source_channel: source ? (source.username || source.title || String(source.chatId)) : undefined,
+        tags: data.tags.map(tag => `#${normalizeTag(tag)}`).join(' '),
+        tag_list: data.tags.map(normalizeTag),
+        author: data.author,
+        media_types: task.media?.map(media => media.type),
+        created,
+        date: created.slice(0, 10), // YYYY-MM-DD
+        time: created.slice(11, 16), // HH:mm (UTC)
+        original_date: data.originalDate ? formatDate(data.originalDate) : undefined,
+    };
+}
@@ -0,0 +1,68 @@
+import path from 'path';
+import {dataPath} from '../config';
+import {logger} from '../utils/logger';
+import {readJsonFile, writeJsonFileAtomic} from '../utils/jsonFile';
+import {PersistedTask} from './taskTypes';
+
+const journalFile = path.join(dataPath, 'queue-journal.json');
+const deadLetterFile = path.join(dataPath, 'dead-letter.json');
+
+let pendingTasks: Map<string, PersistedTask> | null = null;
+let deadLetterTasks: PersistedTask[] | null = null;
+
+function getPendingMap(): Map<string, PersistedTask> {
+    if (!pendingTasks) {
+        const stored = readJsonFile<PersistedTask[]>(journalFile, []);
+        pendingTasks = new Map(stored.map(entry => [entry.id, entry]));
+    }
+    return pendingTasks;
+}
+
+function getDeadLetterList(): PersistedTask[] {
+    if (!deadLetterTasks) {
+        deadLetterTasks = readJsonFile<PersistedTask[]>(deadLetterFile, []);
+    }
+    return deadLetterTasks;
+}
+
+function flushJournal(): void {
+    writeJsonFileAtomic(journalFile, Array.from(getPendingMap().values()));
+}
+
+export function loadPendingTasks(): PersistedTask[] {
+    return Array.from(getPendingMap().values());
+}
+
+export function savePendingTask(entry: PersistedTask): void {
+    getPendingMap().set(entry.id, entry);
+    flushJournal();
+}
+
+export function removePendingTask(id: string): void {
+    if (getPendingMap().delete(id)) {
+        flushJournal();
+    }
+}
+
+export function moveToDeadLetter(entry: PersistedTask): void {
+    getDeadLetterList().push(entry);
+    writeJsonFileAtomic(deadLetterFile, getDeadLetterList());
+    removePendingTask(entry.id);
+    logger.warn(`[Queue] Task ${entry.id} moved to dead-letter store after ${entry.attempts} attempts.`);
+}
+
+export function getDeadLetterTasks(): PersistedTask[] {
+    return [...getDeadLetterList()];
+}
+
+// Removes a task from the dead-letter store, returning it so it can be re-enqueued
+export function takeDeadLetterTask(id: string): PersistedTask | undefined {
+    const list = getDeadLetterList();
+    const index = list.findIndex(entry => entry.id === id);
+    if (index === -1) {
+        return undefined;
+    }
+    const [entry] = list.splice(index, 1);
+    writeJsonFileAtomic(deadLetterFile, list);
+    return entry;
+}
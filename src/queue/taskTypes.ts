@@ -1,17 +1,68 @@
 export interface MediaInfo {
     fileId: string;
+    fileUniqueId?: string; // Same for every copy of a file, across chats and forwards
     fileName: string; // Original or derived filename
     mimeType?: string;
-    type: 'photo' | 'video' | 'document';
+    type: 'photo' | 'video' | 'document' | 'voice' | 'audio' | 'video_note';
+}
+
+export interface ForwardSource {
+    chatId: number;
+    messageId?: number; // forward_from_message_id (channels only)
+    type: string;
+    username?: string;
+    title?: string;
+}
+
+// Formatting/link entity of the message text, as sent by Telegram (offsets in UTF-16 code units)
+export interface TextEntity {
+    type: string;
+    offset: number;
+    length: number;
+    url?: string; // text_link
+    language?: string; // pre
+    userId?: number; // text_mention
 }
 
 export interface QueueTask {
     chatId: number;
     messageId: number;
     text?: string; // Text or caption
-    media?: MediaInfo;
+    entities?: TextEntity[]; // Entities of the text or caption
+    media?: MediaInfo[]; // Several entries when an album (media group) is merged into one task
+    mediaGroupId?: string;
+    groupMessageIds?: number[]; // All message ids merged into this task (albums only)
+    captionMessageId?: number; // Album item that carries the caption (albums only)
     forwardSourceLink?: string; // Link to original message if forwarded
+    forwardSource?: ForwardSource; // Original chat if forwarded from a channel/group
     userId?: number;
     username?: string;
-    messageDate: number; // Unix timestamp
-}
\ No newline at end of file
+    messageDate: number; // Unix timestamp; of the original post if forwarded (original_date)
+    sentDate?: number; // Unix timestamp the message reached the chat, which dates daily captures; messageDate for older journal entries
+    isEdit?: boolean; // edited_message: update the note created from this message instead of adding one
+    daily?: boolean; // /daily: append to the day's daily note whatever DAILY_NOTE_MODE is
+    targetFolder?: string; // Folder from the group/channel settings, used when no routing rule matches
+    tagPrefix?: string; // From the group/channel settings, prepended to generated tags
+    vaultId?: string; // Vault the note goes to (the sender's or the chat's); the default vault if missing
+}
+
+// Which stage of processing failed; used to pick the retry backoff ('git' covers every sync backend)
+export type FailureClass = 'download' | 'ai' | 'git' | 'unknown';
+
+// Files already written to the vault that still need to be committed
+export interface PendingCommit {
+    filePaths: string[]; // Full paths
+    commitMessage: string;
+}
+
+// A task as stored in the on-disk queue journal / dead-letter store
+export interface PersistedTask {
+    id: string;
+    task: QueueTask;
+    attempts: number; // Number of failed attempts so far
+    enqueuedAt: number; // ms timestamp
+    nextAttemptAt: number; // ms timestamp
+    lastError?: string;
+    failureClass?: FailureClass;
+    pendingCommit?: PendingCommit; // Set once the note is saved, so retries only redo the git step
+}
@@ -0,0 +1,118 @@
+// Checks how the git sync handles conflicts and leftovers, against throwaway repositories: a bare
+// "remote", the bot's clone and a second clone standing in for the user's devices.
+// Usage: npm run check:git-sync
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import {execFileSync} from 'child_process';
+import {GitService} from '../git/gitService';
+import {VaultSettings} from '../vaults/vaultSettings';
+
+const failures: string[] = [];
+
+function git(cwd: string, ...args: string[]): string {
+    return execFileSync('git', ['-c', 'user.name=Check', '-c', 'user.email=check@example.com', ...args], {cwd, encoding: 'utf8', stdio: 'pipe'}).trim();
+}
+
+function check(condition: boolean, description: string): void {
+    console.log(`${condition ? 'ok  ' : 'FAIL'} ${description}`);
+    if (!condition) failures.push(description);
+}
+
+function writeFile(root: string, relativePath: string, content: string): void {
+    fs.mkdirSync(path.dirname(path.join(root, relativePath)), {recursive: true});
+    fs.writeFileSync(path.join(root, relativePath), content);
+}
+
+function readFile(root: string, relativePath: string): string {
+    return fs.readFileSync(path.join(root, relativePath), 'utf8');
+}
+
+// Commits a change in the user's clone and pushes it
+function pushUserChange(userClone: string, relativePath: string, content: string): void {
+    writeFile(userClone, relativePath, content);
+    git(userClone, 'add', '--', relativePath);
+    git(userClone, 'commit', '--quiet', '-m', `User edit of ${relativePath}`);
+    git(userClone, 'push', '--quiet');
+}
+
+async function main(): Promise<void> {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'git-sync-check-'));
+    const remote = path.join(root, 'remote.git');
+    const userClone = path.join(root, 'user');
+    const botClone = path.join(root, 'bot');
+    try {
+        git(root, '-c', 'init.defaultBranch=main', 'init', '--quiet', '--bare', remote);
+        git(root, 'clone', '--quiet', remote, userClone);
+        git(userClone, 'checkout', '--quiet', '-b', 'main');
+        writeFile(userClone, 'Inbox/Note.md', 'original\n');
+        writeFile(userClone, 'Assets/image.txt', 'original\n');
+        git(userClone, 'add', '--all');
+        git(userClone, 'commit', '--quiet', '-m', 'Initial commit');
+        git(userClone, 'push', '--quiet', '-u', 'origin', 'main');
+        git(root, 'clone', '--quiet', remote, botClone);
+        git(botClone, 'config', 'user.name', 'Bot');
+        git(botClone, 'config', 'user.email', 'bot@example.com');
+
+        // Notes are inside botPaths on purpose: they must be protected even then
+        const settings: VaultSettings = {
+            id: 'git-check',
+            path: botClone,
+            notesFolder: 'Inbox',
+            assetsFolder: 'Assets',
+            users: [],
+            git: {botPaths: ['Inbox', 'Assets']},
+            sync: {backend: 'git'},
+            ai: {},
+            dailyNotes: {format: 'YYYY-MM-DD'},
+        };
+        const service = new GitService(settings);
+        const commitBotChange = async (relativePath: string, content: string): Promise<void> => {
+            writeFile(botClone, relativePath, content);
+            await service.pushChanges([path.join(botClone, relativePath)], `Bot edit of ${relativePath}`);
+            await service.flushPendingChanges(); // GIT_COMMIT_STRATEGY batch/scheduled
+        };
+
+        console.log('Conflict in an asset inside botPaths');
+        pushUserChange(userClone, 'Assets/image.txt', 'user\n');
+        await commitBotChange('Assets/image.txt', 'bot\n');
+        git(userClone, 'pull', '--quiet');
+        check(readFile(userClone, 'Assets/image.txt') === 'bot\n', 'the bot\'s version was pushed');
+
+        console.log('Conflict in a note');
+        pushUserChange(userClone, 'Inbox/Note.md', 'user edit\n');
+        let error: any;
+        await commitBotChange('Inbox/Note.md', 'bot edit\n').catch(caught => error = caught);
+        check(/Conflicting changes in Inbox\/Note\.md/.test(error?.message || ''), 'the push failed with a conflict');
+        check(!fs.existsSync(path.join(botClone, '.git', 'rebase-merge')) && !fs.existsSync(path.join(botClone, '.git', 'MERGE_HEAD')), 'the pull was aborted');
+        check(readFile(botClone, 'Inbox/Note.md') === 'bot edit\n', 'the bot\'s edit is kept locally');
+        git(userClone, 'pull', '--quiet');
+        check(readFile(userClone, 'Inbox/Note.md') === 'user edit\n', 'the user\'s edit on the remote is untouched');
+        git(botClone, 'fetch', '--quiet');
+        git(botClone, 'reset', '--quiet', '--hard', '@{u}');
+
+        console.log('Sweeper');
+        const headBefore = git(botClone, 'rev-parse', 'HEAD');
+        writeFile(botClone, 'Inbox/Note.md', 'edited in the bot\'s clone\n');
+        writeFile(botClone, 'Inbox/Draft.md', 'someone else\'s new note\n');
+        const old = new Date(Date.now() - 10 * 60 * 1000); // Past the sweeper's minimum age
+        fs.utimesSync(path.join(botClone, 'Inbox/Note.md'), old, old);
+        fs.utimesSync(path.join(botClone, 'Inbox/Draft.md'), old, old);
+        await service.sweepUncommittedFiles();
+        check(git(botClone, 'rev-parse', 'HEAD') === headBefore, 'nothing was committed');
+        const status = git(botClone, 'status', '--porcelain', '--untracked-files=all');
+        check(status.includes('Inbox/Note.md') && status.includes('Inbox/Draft.md'), 'the uncommitted edits are still there');
+    } finally {
+        fs.rmSync(root, {recursive: true, force: true});
+    }
+}
+
+main()
+    .then(() => {
+        console.log(failures.length === 0 ? 'All checks passed.' : `${failures.length} check(s) failed.`);
+        process.exit(failures.length === 0 ? 0 : 1);
+    })
+    .catch(error => {
+        console.error(error);
+        process.exit(1);
+    });
@@ -0,0 +1,94 @@
+// Rewrites notes created by older bot versions, moving the trailing
+// "Saved At: / From User: / Tags:" block into YAML frontmatter.
+// Usage: npm run migrate:frontmatter -- [--dry-run] [--no-commit]
+import path from 'path';
+import fs from 'fs/promises';
+import {logger} from '../utils/logger';
+import {NoteFrontmatterData, parseFrontmatter, renderNoteWithFrontmatter} from '../obsidian/frontmatter';
+import {getVaults, Vault} from '../vaults/vaultRegistry';
+
+const LEGACY_FOOTER_REGEX = /\n*---\n((?:(?:Saved At|From User|Original Date|Source|Tags): .*(?:\n|$))+)\s*$/;
+
+// Old footers used en-US locale strings in UTC, e.g. "3/29/2025, 10:00:00 AM"
+function parseLegacyDate(value: string): Date | undefined {
+    const date = new Date(`${value.replace(/[  ]/g, ' ')} UTC`);
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+export function convertLegacyNote(content: string, title: string): string | null {
+    if (parseFrontmatter(content).frontmatter) {
+        return null; // Already migrated or written by a newer version
+    }
+    const match = content.match(LEGACY_FOOTER_REGEX);
+    if (!match) {
+        return null;
+    }
+
+    const fields: Record<string, string> = {};
+    for (const line of match[1].split('\n')) {
+        const separator = line.indexOf(': ');
+        if (separator > 0) {
+            fields[line.slice(0, separator)] = line.slice(separator + 2).trim();
+        }
+    }
+
+    const data: NoteFrontmatterData = {
+        title,
+        created: parseLegacyDate(fields['Saved At'] || '') || new Date(),
+        originalDate: parseLegacyDate(fields['Original Date'] || ''),
+        source: fields['Source'],
+        tags: (fields['Tags'] || '').split(/\s+/).filter(Boolean),
+        aliases: [title],
+    };
+    const fromUser = fields['From User'];
+    if (fromUser) {
+        // "@name (ID: 123)" or just "123"
+        const userMatch = fromUser.match(/^(.*?)\s*\(ID: (\d+)\)$/);
+        data.author = userMatch ? userMatch[1] : fromUser;
+    }
+
+    const body = content.slice(0, match.index);
+    return renderNoteWithFrontmatter(data, body);
+}
+
+async function migrateVault(vault: Vault, dryRun: boolean, commit: boolean): Promise<void> {
+    const notesPath = vault.files.toFullPath(vault.settings.notesFolder);
+    const entries = await fs.readdir(notesPath, {withFileTypes: true});
+    const migratedPaths: string[] = [];
+    for (const entry of entries) {
+        if (!entry.isFile() || !entry.name.endsWith('.md')) continue;
+        const fullPath = path.join(notesPath, entry.name);
+        const content = await fs.readFile(fullPath, 'utf8');
+        const converted = convertLegacyNote(content, path.basename(entry.name, '.md'));
+        if (!converted) continue;
+
+        logger.info(`[Migrate] ${dryRun ? 'Would migrate' : 'Migrating'} ${entry.name}`);
+        if (!dryRun) {
+            await fs.writeFile(fullPath, converted, {encoding: 'utf8'});
+        }
+        migratedPaths.push(fullPath);
+    }
+
+    logger.info(`[Migrate] ${migratedPaths.length} note(s) in vault "${vault.settings.id}" ${dryRun ? 'to migrate' : 'migrated'}.`);
+    if (!dryRun && commit && migratedPaths.length > 0) {
+        await vault.sync.pushChanges(migratedPaths, `Migrate ${migratedPaths.length} notes to YAML frontmatter`);
+        await vault.sync.flushPendingChanges(); // The script exits right away, don't leave it to a batch commit
+    }
+}
+
+async function migrate(): Promise<void> {
+    const dryRun = process.argv.includes('--dry-run');
+    const commit = !process.argv.includes('--no-commit');
+    for (const vault of getVaults()) {
+        await migrateVault(vault, dryRun, commit);
+    }
+}
+
+if (require.main === module) {
+    migrate()
+        .then(() => process.exit(0))
+        .catch(error => {
+            logger.error('[Migrate] Frontmatter migration failed:', {error: error.message, stack: error.stack});
+            process.exit(1);
+        });
+}
@@ -1,13 +1,102 @@
+import http from 'http';
 import express from 'express';
 import bodyParser from 'body-parser';
 import { config } from './config';
 import { logger } from './utils/logger';
-import { initializeBot, handleWebhook } from './bot/telegramHandler';
-import { startPeriodicGitPull, stopPeriodicGitPull } from './git/gitService'; // Import git service functions
+import { initializeBot, handleWebhook, removeWebhook, stopBot } from './bot/telegramHandler';
+import { getVaults, Vault } from './vaults/vaultRegistry';
+import { restorePersistedTasks, stopRetryTimers } from './queue/messageQueue';
+import { restorePendingReviews, stopReviewTimers } from './bot/reviewService';
+import { scheduleSearchIndexRefresh } from './obsidian/searchIndex';
+import { startReminders, stopReminders } from './bot/reminderService';
 
 async function startServer() {
   logger.info('Starting server setup...');
+  const vaults = getVaults(); // Validates the vault configuration before anything else starts
 
+  // Initialize Telegram Bot
+  try {
+    await initializeBot(); // This now also attaches the message listener
+    logger.info(config.BOT_MODE === 'polling' ? 'Telegram bot initialized, polling for updates.' : 'Telegram bot initialized and webhook set.');
+  } catch (error: any) {
+    logger.error('Failed to initialize Telegram bot:', { error: error.message, stack: error.stack });
+    process.exit(1); // Exit if bot setup fails
+  }
+
+  // Replay tasks persisted by a previous run (needs the bot for downloads/notifications)
+  restorePersistedTasks();
+  restorePendingReviews();
+  startReminders(); // Scans the vaults for due tasks (REMINDERS)
+
+  // Polling needs no HTTP endpoint; the server then only runs for /health if HTTP_SERVER is set
+  let server: http.Server | null = null;
+  if (config.HTTP_SERVER) {
+    server = startHttpServer(vaults);
+  } else {
+    vaults.forEach(vault => logger.info(`Obsidian Vault "${vault.settings.id}": ${vault.settings.path}`));
+    vaults.forEach(vault => vault.sync.start());
+    vaults.forEach(vault => scheduleSearchIndexRefresh(vault.settings));
+  }
+
+   // Graceful Shutdown Handling
+   process.on('SIGTERM', () => shutdown('SIGTERM'));
+   process.on('SIGINT', () => shutdown('SIGINT')); // Catches Ctrl+C
+
+   function shutdown(signal: string) {
+       logger.warn(`Received ${signal}. Shutting down gracefully...`);
+       stopBot(); // No more updates are fetched in polling mode
+       vaults.forEach(vault => vault.sync.stop()); // Stop interval timers
+       stopRetryTimers(); // Pending retries stay in the journal and are replayed on next start
+       stopReviewTimers(); // Pending reviews are persisted too
+       stopReminders();
+
+       // Changes collected for a batch commit are committed before exiting; if that fails or times out, they are replayed on next start
+       const flushes = vaults.map(vault => vault.sync.flushPendingChanges().catch(err => logger.error(`Final batch commit of vault "${vault.settings.id}" failed:`, err)));
+       Promise.all(flushes).then(() => signal === 'SIGINT' ? removeWebhook() : undefined).then(() => {
+            if (!server) {
+                process.exit(0);
+            }
+            server.close((err) => {
+                if (err) {
+                    logger.error('Error during server close:', err);
+                    process.exit(1);
+                }
+                logger.info('HTTP server closed.');
+                // Optional: Add logic to wait for queue to drain or timeout
+                // checkQueueAndExit();
+                process.exit(0);
+            });
+       });
+
+       // Force shutdown after a timeout if server.close() hangs
+       setTimeout(() => {
+            logger.error('Could not close connections in time, forcing shutdown.');
+            process.exit(1);
+       }, 10000); // 10 seconds timeout
+   }
+
+    // Optional: Function to check queue status before exiting
+    /*
+    function checkQueueAndExit() {
+        const queueLength = getQueueLength(); // Assuming getQueueLength is exported
+        if (queueLength > 0) {
+             logger.warn(`Queue still has ${queueLength} items. Waiting a bit longer...`);
+             // Set another timeout or implement more robust draining logic
+             setTimeout(() => {
+                  logger.warn(`Exiting with ${getQueueLength()} items still in queue.`);
+                  process.exit(0);
+             }, 5000); // Wait 5 more seconds
+        } else {
+             logger.info("Queue is empty. Exiting.");
+             process.exit(0);
+        }
+    }
+    */
+
+}
+
+// Webhook endpoint (webhook mode) and health check
+function startHttpServer(vaults: Vault[]): http.Server {
   const app = express();
 
   // --- Body parser setup remains the same ---
@@ -31,18 +120,11 @@ async function startServer() {
       }
   }));
 
-  // Initialize Telegram Bot
-  try {
-    await initializeBot(); // This now also attaches the message listener
-    logger.info('Telegram bot initialized and webhook set.');
-  } catch (error: any) {
-    logger.error('Failed to initialize Telegram bot or set webhook:', { error: error.message, stack: error.stack });
-    process.exit(1); // Exit if bot setup fails
-  }
-
   // --- Webhook endpoint remains the same ---
   const webhookPath = `/webhook/${config.TELEGRAM_BOT_TOKEN}`;
-  app.post(webhookPath, handleWebhook);
+  if (config.BOT_MODE === 'webhook') {
+    app.post(webhookPath, handleWebhook);
+  }
 
   // --- Health check remains the same ---
   app.get('/health', (req, res) => {
@@ -60,60 +142,18 @@ async function startServer() {
    });
 
 
-  const server = app.listen(config.PORT, () => { // Store server instance
+  return app.listen(config.PORT, () => {
     logger.info(`Server listening on port ${config.PORT}`);
-    logger.info(`Webhook endpoint: ${webhookPath}`);
-    logger.info(`Obsidian Vault Path: ${config.OBSIDIAN_VAULT_PATH}`);
-    logger.info(`Ensure this server is reachable at: ${config.SERVER_URL}`);
-
-    // Start periodic Git pull AFTER server is listening
-    startPeriodicGitPull();
-  });
-
-   // Graceful Shutdown Handling
-   process.on('SIGTERM', () => shutdown('SIGTERM'));
-   process.on('SIGINT', () => shutdown('SIGINT')); // Catches Ctrl+C
-
-   function shutdown(signal: string) {
-       logger.warn(`Received ${signal}. Shutting down gracefully...`);
-       stopPeriodicGitPull(); // Stop interval timer
-
-       server.close((err) => {
-            if (err) {
-                logger.error('Error during server close:', err);
-                process.exit(1);
-            }
-            logger.info('HTTP server closed.');
-            // Optional: Add logic to wait for queue to drain or timeout
-            // checkQueueAndExit();
-            process.exit(0);
-       });
-
-       // Force shutdown after a timeout if server.close() hangs
-       setTimeout(() => {
-            logger.error('Could not close connections in time, forcing shutdown.');
-            process.exit(1);
-       }, 10000); // 10 seconds timeout
-   }
-
-    // Optional: Function to check queue status before exiting
-    /*
-    function checkQueueAndExit() {
-        const queueLength = getQueueLength(); // Assuming getQueueLength is exported
-        if (queueLength > 0) {
-             logger.warn(`Queue still has ${queueLength} items. Waiting a bit longer...`);
-             // Set another timeout or implement more robust draining logic
-             setTimeout(() => {
-                  logger.warn(`Exiting with ${getQueueLength()} items still in queue.`);
-                  process.exit(0);
-             }, 5000); // Wait 5 more seconds
-        } else {
-             logger.info("Queue is empty. Exiting.");
-             process.exit(0);
-        }
+    vaults.forEach(vault => logger.info(`Obsidian Vault "${vault.settings.id}": ${vault.settings.path}`));
+    if (config.BOT_MODE === 'webhook') {
+      logger.info(`Webhook endpoint: ${webhookPath}`);
+      logger.info(`Ensure this server is reachable at: ${config.SERVER_URL}`);
     }
-    */
 
+    // Start syncing (periodic git pull, ...) AFTER server is listening, for every vault
+    vaults.forEach(vault => vault.sync.start());
+    vaults.forEach(vault => scheduleSearchIndexRefresh(vault.settings)); // Picks up changes made while the bot was down
+  });
 }
 
 startServer().catch(error => {
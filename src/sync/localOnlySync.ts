@@ -0,0 +1,34 @@
+import path from 'path';
+import {logger} from '../utils/logger';
+import {VaultSettings} from '../vaults/vaultSettings';
+import {SyncStatus, VaultSync} from './vaultSync';
+
+// For vaults synced by something else (Syncthing, Obsidian Sync, a network share): writing the files is all there is to do
+export class LocalOnlySync implements VaultSync {
+    readonly name = 'none';
+    private readonly syncStatus: SyncStatus = {lastPushAt: null, lastPullAt: null, lastError: null};
+
+    constructor(private readonly settings: VaultSettings) {
+    }
+
+    getSyncStatus(): SyncStatus {
+        return {...this.syncStatus};
+    }
+
+    async pushChanges(filePaths: string[], description: string): Promise<void> {
+        logger.debug(`[Sync:${this.settings.id}] ${description}: ${filePaths.map(filePath => path.basename(filePath)).join(', ')} written, nothing to sync.`);
+    }
+
+    async pullChanges(): Promise<void> {
+    }
+
+    async flushPendingChanges(): Promise<void> {
+    }
+
+    start(): void {
+        logger.info(`[Sync:${this.settings.id}] No sync backend; the vault folder is expected to be synced externally.`);
+    }
+
+    stop(): void {
+    }
+}
@@ -0,0 +1,41 @@
+import {GitService} from '../git/gitService';
+import {VaultSettings} from '../vaults/vaultSettings';
+import {LocalOnlySync} from './localOnlySync';
+import {WebDavSync} from './webdavSync';
+
+export interface SyncStatus {
+    lastPushAt: Date | null;
+    lastPullAt: Date | null;
+    lastError: { message: string, at: Date } | null;
+}
+
+/**
+ * How a vault's changes leave the machine: committed and pushed with git, uploaded to a WebDAV
+ * server, or not at all (the folder is synced by Syncthing, Obsidian Sync and the like).
+ */
+export interface VaultSync {
+    readonly name: string;
+    getSyncStatus(): SyncStatus;
+    // Publishes files the bot wrote or deleted (full paths); throws if they could not be synced, so the task is retried
+    pushChanges(filePaths: string[], description: string): Promise<void>;
+    // Brings in changes made elsewhere, if the backend can
+    pullChanges(): Promise<void>;
+    // Resolves once changes held back for a batch are synced
+    flushPendingChanges(): Promise<void>;
+    start(): void; // Background timers (periodic pull, ...)
+    stop(): void;
+}
+
+export const SYNC_BACKENDS = ['git', 'webdav', 'none', 'filesystem'];
+
+export function createVaultSync(settings: VaultSettings): VaultSync {
+    switch (settings.sync.backend) {
+        case 'webdav':
+            return new WebDavSync(settings);
+        case 'none':
+        case 'filesystem':
+            return new LocalOnlySync(settings);
+        default:
+            return new GitService(settings);
+    }
+}
@@ -0,0 +1,130 @@
+import path from 'path';
+import fs from 'fs/promises';
+import {config} from '../config';
+import {logger} from '../utils/logger';
+import {VaultSettings} from '../vaults/vaultSettings';
+import {SyncStatus, VaultSync} from './vaultSync';
+
+/**
+ * Uploads the files the bot writes to a WebDAV server (Nextcloud, ownCloud, a NAS...) with the
+ * same vault-relative paths, and deletes the ones it removes. Upload only: edits made on the
+ * server are not downloaded, the local folder just has to hold what the bot writes.
+ */
+export class WebDavSync implements VaultSync {
+    readonly name = 'webdav';
+    private readonly baseUrl: string;
+    private readonly authorization?: string;
+    private readonly logPrefix: string;
+    private readonly knownCollections = new Set<string>(); // Folders created (or found) on the server
+    private chain: Promise<void> = Promise.resolve(); // Uploads run one after another
+    private readonly syncStatus: SyncStatus = {lastPushAt: null, lastPullAt: null, lastError: null};
+
+    constructor(private readonly settings: VaultSettings) {
+        const {url, username, password} = settings.sync.webdav || {};
+        if (!url) {
+            throw new Error(`Vault "${settings.id}" uses WebDAV sync without a URL`);
+        }
+        this.baseUrl = url.endsWith('/') ? url : `${url}/`;
+        if (username) {
+            this.authorization = `Basic ${Buffer.from(`${username}:${password || ''}`).toString('base64')}`;
+        }
+        this.logPrefix = `[WebDAV:${settings.id}]`;
+    }
+
+    getSyncStatus(): SyncStatus {
+        return {...this.syncStatus};
+    }
+
+    private toUrl(relativePath: string): string {
+        const encoded = relativePath.split(/[\\/]/).filter(Boolean).map(encodeURIComponent).join('/');
+        return this.baseUrl + encoded + (relativePath.endsWith('/') ? '/' : ''); // Collections keep their trailing slash
+    }
+
+    private async request(method: string, relativePath: string, body?: Buffer): Promise<Response> {
+        const headers: Record<string, string> = {};
+        if (this.authorization) {
+            headers.Authorization = this.authorization;
+        }
+        try {
+            return await fetch(this.toUrl(relativePath), {method, headers, body, signal: AbortSignal.timeout(config.WEBDAV_TIMEOUT_MS)});
+        } catch (error: any) {
+            // A stalled server would otherwise hold up every later upload of the vault
+            if (error.name === 'TimeoutError') {
+                throw new Error(`${method} ${relativePath} timed out after ${config.WEBDAV_TIMEOUT_MS} ms`);
+            }
+            throw error;
+        }
+    }
+
+    // MKCOL every missing parent folder; 405 means it exists already
+    private async ensureCollections(relativeDirectory: string): Promise<void> {
+        const segments = relativeDirectory.split(/[\\/]/).filter(segment => segment && segment !== '.');
+        for (let index = 1; index <= segments.length; index++) {
+            const collection = segments.slice(0, index).join('/');
+            if (this.knownCollections.has(collection)) continue;
+            const response = await this.request('MKCOL', `${collection}/`);
+            if (!response.ok && response.status !== 405) {
+                throw new Error(`MKCOL ${collection} failed: ${response.status} ${response.statusText}`);
+            }
+            this.knownCollections.add(collection);
+        }
+    }
+
+    private async syncFile(fullPath: string): Promise<void> {
+        const relativePath = path.relative(this.settings.path, fullPath);
+        let content: Buffer | null;
+        try {
+            content = await fs.readFile(fullPath);
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') throw error;
+            content = null;
+        }
+        if (content === null) {
+            const response = await this.request('DELETE', relativePath);
+            if (!response.ok && response.status !== 404) {
+                throw new Error(`DELETE ${relativePath} failed: ${response.status} ${response.statusText}`);
+            }
+            logger.info(`${this.logPrefix} Deleted ${relativePath}`);
+            return;
+        }
+        await this.ensureCollections(path.dirname(relativePath));
+        const response = await this.request('PUT', relativePath, content);
+        if (!response.ok) {
+            throw new Error(`PUT ${relativePath} failed: ${response.status} ${response.statusText}`);
+        }
+        logger.info(`${this.logPrefix} Uploaded ${relativePath}`);
+    }
+
+    async pushChanges(filePaths: string[], description: string): Promise<void> {
+        const run = this.chain.then(async () => {
+            logger.info(`${this.logPrefix} ${description}`);
+            try {
+                for (const filePath of filePaths) {
+                    await this.syncFile(filePath);
+                }
+                this.syncStatus.lastPushAt = new Date();
+            } catch (error: any) {
+                logger.error(`${this.logPrefix} Upload failed: ${error.message}`);
+                this.syncStatus.lastError = {message: `Upload failed: ${error.message}`, at: new Date()};
+                this.knownCollections.clear(); // The server may have lost folders too
+                throw new Error(`WebDAV upload failed: ${error.message}`);
+            }
+        });
+        this.chain = run.catch(() => undefined);
+        return run;
+    }
+
+    async pullChanges(): Promise<void> {
+    }
+
+    async flushPendingChanges(): Promise<void> {
+        return this.chain;
+    }
+
+    start(): void {
+        logger.info(`${this.logPrefix} Uploading changes to ${this.baseUrl}`);
+    }
+
+    stop(): void {
+    }
+}
@@ -0,0 +1,51 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import {findDuplicateNote, getMessageFingerprints, recordMessageFingerprints} from '../obsidian/duplicateIndex';
+import {registerSavedNote, removeNoteRecord, SavedNoteRecord} from '../obsidian/noteRegistry';
+import {MediaInfo, QueueTask} from '../queue/taskTypes';
+
+const LONG_TEXT = 'An article about sourdough starters and how to keep them alive';
+
+function buildTask(messageId: number, changes: Partial<QueueTask> = {}): QueueTask {
+    return {chatId: 100, messageId, messageDate: 1760860800, ...changes};
+}
+
+function saveNote(task: QueueTask, vaultId = 'main'): SavedNoteRecord {
+    const record: SavedNoteRecord = {
+        vaultId,
+        chatId: task.chatId,
+        messageIds: [task.messageId],
+        notePath: `Inbox/Note ${task.messageId}.md`,
+        assetPaths: [],
+        assetLinks: [],
+        title: `Note ${task.messageId}`,
+        hashtags: [],
+        bodyHash: '',
+        savedAt: Date.now(),
+    };
+    registerSavedNote(record);
+    recordMessageFingerprints(vaultId, task, record);
+    return record;
+}
+
+test('a repost with different formatting finds the note saved first', () => {
+    const record = saveNote(buildTask(1, {text: LONG_TEXT}));
+    assert.equal(findDuplicateNote('main', buildTask(2, {text: `**${LONG_TEXT.toUpperCase()}!** 🎉`}))?.notePath, record.notePath);
+    assert.equal(findDuplicateNote('other', buildTask(3, {text: LONG_TEXT})), undefined);
+});
+
+test('forwards match by their original post, files by their unique id', () => {
+    const forward = saveNote(buildTask(10, {text: 'short', forwardSource: {chatId: -200, messageId: 7, type: 'channel'}}));
+    assert.equal(findDuplicateNote('main', buildTask(11, {text: 'other', forwardSource: {chatId: -200, messageId: 7, type: 'channel'}}))?.notePath, forward.notePath);
+
+    const media: MediaInfo = {type: 'photo', fileId: 'a', fileUniqueId: 'unique-1', fileName: 'photo.jpg'};
+    const photo = saveNote(buildTask(20, {media: [media]}));
+    assert.equal(findDuplicateNote('main', buildTask(21, {media: [{...media, fileId: 'b'}]}))?.notePath, photo.notePath);
+});
+
+test('short texts are never duplicates, and notes removed with /undo no longer count', () => {
+    assert.deepEqual(getMessageFingerprints(buildTask(30, {text: 'ok'})), []);
+    const record = saveNote(buildTask(31, {text: `${LONG_TEXT} again`}));
+    removeNoteRecord(record);
+    assert.equal(findDuplicateNote('main', buildTask(32, {text: `${LONG_TEXT} again`})), undefined);
+});
@@ -0,0 +1,42 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import {buildFrontmatter, Frontmatter, parseFrontmatter, renderNoteWithFrontmatter, serializeFrontmatter} from '../obsidian/frontmatter';
+
+test('serialized frontmatter parses back to the same values', () => {
+    const frontmatter: Frontmatter = {
+        title: 'Meeting: notes "draft"',
+        created: '2026-10-19T08:00:00Z',
+        telegram_message_id: 42,
+        published: true,
+        tags: ['work', 'project/alpha'],
+        aliases: [],
+        plain: 'yes',
+        number_like: '2026',
+    };
+    const {frontmatter: parsed, body} = parseFrontmatter(`${serializeFrontmatter(frontmatter)}\n\nBody text\n`);
+    assert.deepEqual(parsed, frontmatter);
+    assert.equal(body.trim(), 'Body text');
+});
+
+test('content without frontmatter is all body', () => {
+    assert.deepEqual(parseFrontmatter('Just text\n---\nmore'), {frontmatter: null, body: 'Just text\n---\nmore'});
+});
+
+test('notes get the FRONTMATTER_FIELDS properties, tags without #', () => {
+    const data = {
+        title: 'Note',
+        created: new Date('2026-10-19T08:00:00.123Z'),
+        chatId: 1,
+        messageId: 2,
+        tags: ['#idea', 'work'],
+        summary: {tldr: 'Short', keyPoints: [], actionItems: [], people: ['Ada'], organizations: [], dates: [], language: 'en'},
+    };
+    assert.deepEqual(buildFrontmatter(data), {
+        title: 'Note',
+        created: '2026-10-19T08:00:00Z',
+        telegram_chat_id: 1,
+        telegram_message_id: 2,
+        tags: ['idea', 'work'],
+    });
+    assert.deepEqual(parseFrontmatter(renderNoteWithFrontmatter(data, 'Body')).frontmatter, buildFrontmatter(data));
+});
@@ -0,0 +1,52 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import {config} from '../config';
+import {resolveNoteRoute, resolvePromptRoute, RoutingRule} from '../obsidian/routingService';
+import {QueueTask} from '../queue/taskTypes';
+import {VaultSettings} from '../vaults/vaultSettings';
+
+const vault: VaultSettings = {
+    id: 'main',
+    path: config.OBSIDIAN_VAULT_PATH,
+    notesFolder: 'Inbox',
+    assetsFolder: 'Assets',
+    users: [],
+    git: {},
+    sync: {backend: 'none'},
+    ai: {},
+    dailyNotes: {format: 'YYYY-MM-DD'},
+};
+
+const rules: RoutingRule[] = [
+    {name: 'recipes', match: {hashtags: ['#Recipe']}, folder: 'Kitchen', template: 'Templates/Recipe'},
+    {name: 'channel', match: {sourceChannel: ['news_channel'], mediaType: ['text']}, folder: 'Sources/{{source_channel}}'},
+    {name: 'voice', match: {mediaType: ['voice'], sender: ['@alice']}, folder: '../Voice:memos', prompt: 'Prompts/Voice'},
+];
+fs.writeFileSync(path.join(vault.path, config.ROUTING_RULES_PATH), JSON.stringify(rules));
+
+function buildTask(changes: Partial<QueueTask> = {}): QueueTask {
+    return {chatId: 100, messageId: 1, messageDate: 1760860800, ...changes};
+}
+
+test('hashtag rules match case-insensitively, with or without #', async () => {
+    const route = await resolveNoteRoute(vault, buildTask(), ['#recipe', '#dinner'], {});
+    assert.deepEqual(route, {ruleName: 'recipes', folder: 'Kitchen', template: 'Templates/Recipe', prompt: undefined});
+});
+
+test('all conditions of a rule must hold', async () => {
+    const forward = buildTask({forwardSource: {chatId: -200, type: 'channel', username: 'News_Channel'}});
+    assert.equal((await resolveNoteRoute(vault, forward, [], {source_channel: 'News'})).folder, 'Sources/News');
+    const withPhoto = {...forward, media: [{type: 'photo' as const, fileId: 'a', fileName: 'photo.jpg'}]};
+    assert.deepEqual(await resolveNoteRoute(vault, withPhoto, [], {}), {folder: 'Inbox'});
+});
+
+test('rendered folders stay inside the vault', async () => {
+    const voice = buildTask({username: 'alice', media: [{type: 'voice', fileId: 'a', fileName: 'voice.ogg'}]});
+    assert.equal((await resolveNoteRoute(vault, voice, [], {})).folder, 'Voice-memos');
+});
+
+test('before the AI call, hashtag rules never match and the chat folder is the fallback', async () => {
+    assert.deepEqual(await resolvePromptRoute(vault, buildTask({targetFolder: 'Group'}), {}), {folder: 'Group'});
+});
@@ -0,0 +1,22 @@
+// Loaded before every spec (npm test): a throwaway vault and DATA_DIR, and the settings config.ts
+// insists on, so the specs never touch a real vault or the bot's state
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'obsidian-bot-test-'));
+fs.mkdirSync(path.join(root, 'vault'));
+process.on('exit', () => fs.rmSync(root, {recursive: true, force: true}));
+
+Object.assign(process.env, {
+    TELEGRAM_BOT_TOKEN: 'test-token',
+    SERVER_URL: 'https://example.com/webhook/test-token',
+    ALLOWED_USER_IDS: '1',
+    OBSIDIAN_VAULT_PATH: path.join(root, 'vault'),
+    NOTES_FOLDER_NAME: 'Inbox',
+    ASSETS_FOLDER_NAME: 'Assets',
+    DATA_DIR: path.join(root, 'data'),
+    AI_PROVIDER: 'none',
+    ROUTING_RULES_PATH: 'routing-rules.json',
+    LOG_LEVEL: 'error',
+});
@@ -0,0 +1,23 @@
+import {test} from 'node:test';
+import assert from 'node:assert/strict';
+import {DEFAULT_NOTE_TEMPLATE, renderTemplate} from '../obsidian/templateService';
+
+test('substitutes variables and renders if/else, unless and each blocks', () => {
+    const template = '# {{title}}\n{{#if tags}}Tags: {{tags}}{{else}}No tags{{/if}}\n{{#unless source}}Direct{{/unless}}\n{{#each items}}\n- {{this}}\n{{/each}}';
+    assert.equal(renderTemplate(template, {title: 'Note', tags: ['a', 'b'], items: ['one', 'two']}), '# Note\nTags: a, b\nDirect\n- one\n- two');
+    assert.equal(renderTemplate(template, {title: 'Note', tags: [], source: 'x', items: []}), '# Note\nNo tags');
+});
+
+test('leaves template syntax inside inserted values alone', () => {
+    const rendered = renderTemplate(DEFAULT_NOTE_TEMPLATE, {
+        text: 'Body mentioning {{summary}}',
+        links: ['Page titled {{text}} {{#if text}}yes{{/if}}'],
+        related: ['[[Other]]'],
+    });
+    assert.equal(rendered, 'Body mentioning {{summary}}\n\nPage titled {{text}} {{#if text}}yes{{/if}}\n\n## Related\n- [[Other]]');
+});
+
+test('the default template puts the summary above the text', () => {
+    const rendered = renderTemplate(DEFAULT_NOTE_TEMPLATE, {summary: 'Short', key_points: ['Point'], action_items: [], text: 'Body'});
+    assert.equal(rendered, '## TL;DR\nShort\n\n## Key Points\n- Point\n\nBody');
+});
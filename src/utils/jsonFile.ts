@@ -0,0 +1,31 @@
+import fs from 'fs';
+import {logger} from './logger';
+
+// Reads a JSON state file, returning `fallback` if it does not exist yet
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+    if (!fs.existsSync(filePath)) {
+        return fallback;
+    }
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+    } catch (error: any) {
+        // Keep the unreadable file around for manual recovery instead of overwriting it
+        const backupPath = `${filePath}.corrupt-${Date.now()}`;
+        logger.error(`Failed to read ${filePath}, moving it to ${backupPath}: ${error.message}`);
+        fs.renameSync(filePath, backupPath);
+        return fallback;
+    }
+}
+
+// Write to a temp file, fsync and rename, so a crash never leaves a half-written file
+export function writeJsonFileAtomic(filePath: string, data: unknown): void {
+    const tmpPath = `${filePath}.tmp`;
+    const fd = fs.openSync(tmpPath, 'w');
+    try {
+        fs.writeSync(fd, JSON.stringify(data, null, 2));
+        fs.fsyncSync(fd);
+    } finally {
+        fs.closeSync(fd);
+    }
+    fs.renameSync(tmpPath, filePath);
+}
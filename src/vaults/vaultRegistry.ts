@@ -0,0 +1,55 @@
+import {logger} from '../utils/logger';
+import {VaultService} from '../obsidian/vaultService';
+import {TaskProcessor} from '../queue/taskProcessor';
+import {createVaultSync, VaultSync} from '../sync/vaultSync';
+import {loadVaultSettings, VaultSettings} from './vaultSettings';
+
+// Everything that works on one vault; each vault has its own files, sync backend and processor
+export interface Vault {
+    settings: VaultSettings;
+    files: VaultService;
+    sync: VaultSync;
+    processor: TaskProcessor;
+}
+
+let vaults: Vault[] | null = null;
+
+function createVault(settings: VaultSettings): Vault {
+    const vault = {settings} as Vault;
+    vault.files = new VaultService(settings);
+    vault.sync = createVaultSync(settings);
+    vault.processor = new TaskProcessor(vault);
+    return vault;
+}
+
+// Vaults are loaded on first use, so scripts that don't need them don't validate them
+export function getVaults(): Vault[] {
+    if (!vaults) {
+        vaults = loadVaultSettings().map(createVault);
+        vaults.forEach(vault => logger.info(`Vault "${vault.settings.id}": ${vault.settings.path} (${vault.settings.users.length} user(s))`));
+    }
+    return vaults;
+}
+
+/**
+ * Looks up a vault by id. Tasks and records written before multi-vault support carry no id
+ * and belong to the first (in single-vault setups, the only) vault.
+ */
+export function getVault(id?: string): Vault {
+    const all = getVaults();
+    if (!id) {
+        return all[0];
+    }
+    const vault = all.find(candidate => candidate.settings.id === id);
+    if (!vault) {
+        throw new Error(`Unknown vault "${id}"`);
+    }
+    return vault;
+}
+
+export function findVaultForUser(userId: number | string | undefined): Vault | undefined {
+    if (userId === undefined) {
+        return undefined;
+    }
+    return getVaults().find(vault => vault.settings.users.includes(String(userId)));
+}
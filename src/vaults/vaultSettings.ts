@@ -0,0 +1,214 @@
+import path from 'path';
+import fs from 'fs';
+import {config} from '../config';
+import {SYNC_BACKENDS} from '../sync/vaultSync';
+
+// Per-vault overrides of the AI_* environment variables
+export interface VaultAiSettings {
+    provider?: string; // openai | openai-compatible | anthropic | none
+    model?: string;
+    baseUrl?: string;
+    apiKey?: string;
+    supportsImages?: boolean;
+    embeddingModel?: string; // For semantic search; defaults to EMBEDDING_MODEL
+}
+
+export interface VaultGitSettings {
+    remote?: string; // Defaults to the branch's upstream
+    branch?: string;
+    pullIntervalMs?: number; // Defaults to GIT_PULL_INTERVAL_MS, 0 disables
+    sweepIntervalMs?: number; // Defaults to GIT_SWEEP_INTERVAL_MS, 0 disables
+    botPaths?: string[]; // Vault-relative folders only the bot writes to, whose conflicts take the bot's version (except notes); defaults to GIT_BOT_PATHS
+}
+
+export interface VaultSyncSettings {
+    backend: string; // git | webdav | none (alias filesystem); defaults to SYNC_BACKEND
+    webdav?: { url?: string; username?: string; password?: string }; // Defaults to the WEBDAV_* variables
+}
+
+// Where the vault's Daily Notes (or Periodic Notes) plugin keeps daily notes; defaults to the DAILY_NOTE_* variables
+export interface VaultDailyNoteSettings {
+    folder?: string; // Vault-relative
+    format: string; // moment.js file name format, may contain '/'
+    template?: string; // Vault-relative template for new daily notes
+}
+
+export interface VaultSettings {
+    id: string;
+    path: string; // Absolute vault root
+    notesFolder: string; // Vault-relative
+    assetsFolder: string; // Vault-relative
+    users: string[]; // Telegram user ids writing into this vault
+    git: VaultGitSettings;
+    sync: VaultSyncSettings;
+    ai: VaultAiSettings;
+    dailyNotes: VaultDailyNoteSettings;
+    language?: string; // ISO-639-1; note titles and transcripts in this language instead of the content's
+}
+
+/**
+ * Shape of the VAULTS_CONFIG_PATH file. Omitted folders, git and AI settings fall back to the
+ * environment variables.
+ *
+ * Example:
+ * { "vaults": [
+ *     { "id": "alice", "path": "/srv/vaults/alice", "users": [111111111], "language": "de",
+ *       "git": { "remote": "origin", "branch": "main" }, "ai": { "provider": "anthropic" },
+ *       "dailyNotes": { "folder": "Journal", "format": "YYYY/MM/YYYY-MM-DD", "template": "Templates/Daily" } },
+ *     { "id": "team", "path": "/srv/vaults/team", "notesFolder": "Inbox", "users": [222222222, 333333333],
+ *       "sync": { "backend": "webdav", "webdav": { "url": "https://cloud.example.com/remote.php/dav/files/team/Vault" } } }
+ * ] }
+ */
+interface VaultsFile {
+    vaults: (Partial<Omit<VaultSettings, 'users' | 'dailyNotes'>> & { users?: (string | number)[], dailyNotes?: Partial<VaultDailyNoteSettings> })[];
+}
+
+const AI_PROVIDERS = ['openai', 'openai-compatible', 'anthropic', 'none'];
+
+function fail(message: string): never {
+    console.error(`FATAL ERROR: ${message}`);
+    process.exit(1);
+}
+
+function ensureDirectory(directory: string, description: string): void {
+    if (!fs.existsSync(directory)) {
+        console.warn(`${description} does not exist, creating: ${directory}`);
+        fs.mkdirSync(directory, {recursive: true});
+    }
+}
+
+function validate(settings: VaultSettings): VaultSettings {
+    if (!fs.existsSync(settings.path) || !fs.statSync(settings.path).isDirectory()) {
+        fail(`Obsidian vault path of vault "${settings.id}" not found or is not a directory: ${settings.path}`);
+    }
+    // Ensure assets and notes directories exist within the vault path
+    ensureDirectory(path.join(settings.path, settings.notesFolder), 'Notes directory');
+    ensureDirectory(path.join(settings.path, settings.assetsFolder), 'Assets directory');
+
+    if (!SYNC_BACKENDS.includes(settings.sync.backend)) {
+        fail(`Sync backend of vault "${settings.id}" must be one of ${SYNC_BACKENDS.join(', ')} (got '${settings.sync.backend}').`);
+    }
+    if (settings.sync.backend === 'webdav' && !settings.sync.webdav?.url) {
+        fail(`Vault "${settings.id}" syncs with WebDAV but has no URL (set "sync.webdav.url" or WEBDAV_URL).`);
+    }
+
+    // Same checks as config.ts does for the AI_* variables
+    const provider = settings.ai.provider;
+    if (provider) {
+        if (!AI_PROVIDERS.includes(provider)) {
+            fail(`AI provider of vault "${settings.id}" must be one of ${AI_PROVIDERS.join(', ')} (got '${provider}').`);
+        }
+        if (provider === 'openai' && !settings.ai.apiKey && !config.OPENAI_API_KEY) {
+            fail(`Vault "${settings.id}" uses openai but has no "apiKey" and OPENAI_API_KEY is not set.`);
+        }
+        if (provider === 'openai-compatible' && !settings.ai.baseUrl && !(config.AI_PROVIDER === provider && config.AI_BASE_URL)) {
+            fail(`Vault "${settings.id}" uses openai-compatible but has no "baseUrl".`);
+        }
+        if (provider === 'anthropic' && !settings.ai.apiKey && !config.ANTHROPIC_API_KEY) {
+            fail(`Vault "${settings.id}" uses anthropic but has no "apiKey" and ANTHROPIC_API_KEY is not set.`);
+        }
+    }
+    return settings;
+}
+
+function defaultGitSettings(): VaultGitSettings {
+    return {
+        pullIntervalMs: config.GIT_PULL_INTERVAL_MS,
+        sweepIntervalMs: config.GIT_SWEEP_INTERVAL_MS,
+        botPaths: config.GIT_BOT_PATHS,
+    };
+}
+
+function buildSyncSettings(overrides?: Partial<VaultSyncSettings>): VaultSyncSettings {
+    return {
+        backend: (overrides?.backend || config.SYNC_BACKEND).toLowerCase(),
+        webdav: {
+            url: config.WEBDAV_URL || undefined,
+            username: config.WEBDAV_USERNAME || undefined,
+            password: config.WEBDAV_PASSWORD || undefined,
+            ...overrides?.webdav,
+        },
+    };
+}
+
+function buildDailyNoteSettings(overrides?: Partial<VaultDailyNoteSettings>): VaultDailyNoteSettings {
+    return {
+        folder: config.DAILY_NOTE_FOLDER || undefined,
+        template: config.DAILY_NOTE_TEMPLATE || undefined,
+        ...overrides,
+        format: overrides?.format || config.DAILY_NOTE_FORMAT,
+    };
+}
+
+// The single vault configured through OBSIDIAN_VAULT_PATH & co.
+function loadEnvVault(): VaultSettings {
+    return {
+        id: 'default',
+        path: path.resolve(config.OBSIDIAN_VAULT_PATH),
+        notesFolder: config.NOTES_FOLDER_NAME,
+        assetsFolder: config.ASSETS_FOLDER_NAME,
+        users: config.ALLOWED_USER_IDS,
+        git: defaultGitSettings(),
+        sync: buildSyncSettings(),
+        ai: {},
+        dailyNotes: buildDailyNoteSettings(),
+    };
+}
+
+function loadVaultsFile(filePath: string): VaultSettings[] {
+    let parsed: VaultsFile;
+    try {
+        parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error: any) {
+        fail(`Could not read vaults config ${filePath}: ${error.message}`);
+    }
+    if (!parsed || !Array.isArray(parsed.vaults) || parsed.vaults.length === 0) {
+        fail(`Vaults config ${filePath} must contain a non-empty "vaults" array.`);
+    }
+
+    const seenIds = new Set<string>();
+    const seenUsers = new Map<string, string>();
+    return parsed.vaults.map((entry, index) => {
+        const id = entry.id || `vault${index + 1}`;
+        if (seenIds.has(id)) {
+            fail(`Duplicate vault id "${id}" in ${filePath}.`);
+        }
+        seenIds.add(id);
+        if (!entry.path) {
+            fail(`Vault "${id}" in ${filePath} has no "path".`);
+        }
+        const notesFolder = entry.notesFolder || config.NOTES_FOLDER_NAME;
+        const assetsFolder = entry.assetsFolder || config.ASSETS_FOLDER_NAME;
+        if (!notesFolder || !assetsFolder) {
+            fail(`Vault "${id}" needs "notesFolder" and "assetsFolder" (or NOTES_FOLDER_NAME/ASSETS_FOLDER_NAME).`);
+        }
+        const users = (entry.users || []).map(user => String(user).trim());
+        for (const user of users) {
+            // A user's private messages must go to exactly one vault
+            if (seenUsers.has(user)) {
+                fail(`User ${user} is assigned to both vault "${seenUsers.get(user)}" and "${id}".`);
+            }
+            seenUsers.set(user, id);
+        }
+        return {
+            id,
+            path: path.resolve(path.dirname(filePath), entry.path),
+            notesFolder,
+            assetsFolder,
+            users,
+            git: {...defaultGitSettings(), ...entry.git},
+            sync: buildSyncSettings(entry.sync),
+            ai: entry.ai || {},
+            dailyNotes: buildDailyNoteSettings(entry.dailyNotes),
+            language: entry.language,
+        };
+    });
+}
+
+// Reads the vault definitions; exits on invalid configuration like config.ts does
+export function loadVaultSettings(): VaultSettings[] {
+    const vaults = config.VAULTS_CONFIG_PATH
+        ? loadVaultsFile(path.resolve(config.VAULTS_CONFIG_PATH))
+        : [loadEnvVault()];
+    return vaults.map(validate);
+}
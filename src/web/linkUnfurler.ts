@@ -0,0 +1,222 @@
+import path from 'path';
+import {parseHTML} from 'linkedom';
+import {Readability} from '@mozilla/readability';
+import TurndownService from 'turndown';
+import {config} from '../config';
+import {logger} from '../utils/logger';
+import {TextEntity} from '../queue/taskTypes';
+import {FetchedPage, getPageFetcher} from './pageFetcher';
+
+export interface LinkImage {
+    buffer: Buffer;
+    filename: string;
+}
+
+// What we learned about a linked page; only `url` is guaranteed
+export interface UnfurledLink {
+    url: string;
+    title?: string;
+    author?: string;
+    publishedAt?: string;
+    siteName?: string;
+    description?: string;
+    markdown?: string; // Main content of the page
+    image?: LinkImage; // og:image, or the resource itself if the link points at an image
+}
+
+const URL_PATTERN = /https?:\/\/[^\s<>"'`]+/gi;
+
+const turndown = new TurndownService({headingStyle: 'atx', codeBlockStyle: 'fenced', bulletListMarker: '-', emDelimiter: '*'});
+
+// Drops punctuation that ends a sentence rather than the URL; keeps ')' when it closes a '(' inside the URL
+function trimUrl(url: string): string {
+    let trimmed = url.replace(/[.,;:!?'"]+$/, '');
+    while (trimmed.endsWith(')') && (trimmed.match(/\(/g) || []).length < (trimmed.match(/\)/g) || []).length) {
+        trimmed = trimmed.slice(0, -1).replace(/[.,;:!?'"]+$/, '');
+    }
+    return trimmed;
+}
+
+/**
+ * URLs of a message in order of appearance: `url` and `text_link` entities (whose target is not
+ * visible in the text) plus anything URL-shaped in the text itself.
+ */
+export function extractUrls(text: string | undefined, entities: TextEntity[] = []): string[] {
+    const urls: string[] = [];
+    for (const entity of [...entities].sort((a, b) => a.offset - b.offset)) {
+        if (entity.type === 'text_link' && entity.url) {
+            urls.push(entity.url);
+        } else if (entity.type === 'url' && text) {
+            // Offsets are UTF-16 code units, like JS string indices
+            const value = text.slice(entity.offset, entity.offset + entity.length);
+            urls.push(/^[a-z][a-z\d+.-]*:\/\//i.test(value) ? value : `https://${value}`);
+        }
+    }
+    for (const match of (text || '').match(URL_PATTERN) || []) {
+        urls.push(trimUrl(match));
+    }
+    return Array.from(new Set(urls.filter(url => /^https?:\/\//i.test(url))));
+}
+
+function decodeBody(page: FetchedPage): string {
+    try {
+        return new TextDecoder(page.charset || 'utf-8').decode(page.body);
+    } catch {
+        return page.body.toString('utf8');
+    }
+}
+
+function metaContent(document: Document, ...selectors: string[]): string | undefined {
+    for (const selector of selectors) {
+        const value = document.querySelector(selector)?.getAttribute('content')?.trim();
+        if (value) return value;
+    }
+    return undefined;
+}
+
+function absolutize(value: string | null | undefined, baseUrl: string): string | undefined {
+    if (!value) return undefined;
+    try {
+        return new URL(value, baseUrl).toString();
+    } catch {
+        return undefined;
+    }
+}
+
+function imageExtension(contentType: string, url: string): string {
+    const fromType = contentType.match(/^image\/([a-z0-9.+-]+)/)?.[1];
+    if (fromType) {
+        return fromType === 'jpeg' ? 'jpg' : fromType.replace(/\+xml$/, '');
+    }
+    return path.extname(new URL(url).pathname).slice(1) || 'jpg';
+}
+
+async function fetchImage(url: string): Promise<LinkImage | undefined> {
+    try {
+        const page = await getPageFetcher().fetch(url);
+        if (!page.contentType.startsWith('image/')) {
+            logger.debug(`Skipping link image ${url}: content type ${page.contentType}`);
+            return undefined;
+        }
+        const host = new URL(page.url).hostname.replace(/^www\./, '');
+        return {buffer: page.body, filename: `link_${host}.${imageExtension(page.contentType, page.url)}`};
+    } catch (error: any) {
+        logger.warn(`Failed to download link image ${url}: ${error.message}`);
+        return undefined;
+    }
+}
+
+function truncateMarkdown(markdown: string): string {
+    if (config.LINK_CONTENT_MAX_CHARS <= 0 || markdown.length <= config.LINK_CONTENT_MAX_CHARS) {
+        return markdown;
+    }
+    // Cut at a paragraph boundary so no formatting is left open
+    const cut = markdown.lastIndexOf('\n\n', config.LINK_CONTENT_MAX_CHARS);
+    return `${markdown.slice(0, cut > 0 ? cut : config.LINK_CONTENT_MAX_CHARS).trimEnd()}\n\n*…*`;
+}
+
+async function unfurlHtml(requestedUrl: string, page: FetchedPage): Promise<UnfurledLink> {
+    const {document} = parseHTML(decodeBody(page));
+    const baseUrl = page.url;
+
+    // Read metadata first: Readability rewrites the document
+    const link: UnfurledLink = {
+        url: requestedUrl,
+        title: metaContent(document, 'meta[property="og:title"]', 'meta[name="twitter:title"]'),
+        author: metaContent(document, 'meta[name="author"]', 'meta[property="article:author"]', 'meta[name="parsely-author"]'),
+        publishedAt: metaContent(document, 'meta[property="article:published_time"]', 'meta[name="date"]', 'meta[itemprop="datePublished"]', 'meta[name="parsely-pub-date"]')
+            || document.querySelector('time[datetime]')?.getAttribute('datetime') || undefined,
+        siteName: metaContent(document, 'meta[property="og:site_name"]'),
+        description: metaContent(document, 'meta[property="og:description"]', 'meta[name="description"]', 'meta[name="twitter:description"]'),
+    };
+    const imageUrl = absolutize(metaContent(document, 'meta[property="og:image"]', 'meta[property="og:image:url"]', 'meta[name="twitter:image"]'), baseUrl);
+    const documentTitle = document.querySelector('title')?.textContent?.trim();
+
+    // Relative links and images would be dead once the text lives in the vault
+    document.querySelectorAll('a[href]').forEach(element => {
+        const href = absolutize(element.getAttribute('href'), baseUrl);
+        if (href) element.setAttribute('href', href);
+    });
+    document.querySelectorAll('img[src]').forEach(element => {
+        const src = absolutize(element.getAttribute('src'), baseUrl);
+        if (src) element.setAttribute('src', src);
+    });
+
+    try {
+        const article = new Readability(document as unknown as Document).parse();
+        if (article) {
+            link.title = link.title || article.title || undefined;
+            link.author = link.author || article.byline || undefined;
+            link.publishedAt = link.publishedAt || article.publishedTime || undefined;
+            link.siteName = link.siteName || article.siteName || undefined;
+            link.description = link.description || article.excerpt || undefined;
+            if (article.content) {
+                link.markdown = truncateMarkdown(turndown.turndown(article.content).trim()) || undefined;
+            }
+        }
+    } catch (error: any) {
+        logger.warn(`Readability failed for ${requestedUrl}: ${error.message}`);
+    }
+    link.title = link.title || documentTitle;
+
+    if (imageUrl && config.LINK_SAVE_IMAGES) {
+        link.image = await fetchImage(imageUrl);
+    }
+    return link;
+}
+
+async function unfurlLink(url: string): Promise<UnfurledLink> {
+    const page = await getPageFetcher().fetch(url);
+    if (page.contentType === 'text/html' || page.contentType === 'application/xhtml+xml') {
+        return unfurlHtml(url, page);
+    }
+    const filename = decodeURIComponent(path.basename(new URL(page.url).pathname)) || undefined;
+    if (page.contentType.startsWith('image/') && config.LINK_SAVE_IMAGES) {
+        const host = new URL(page.url).hostname.replace(/^www\./, '');
+        return {url, title: filename, image: {buffer: page.body, filename: `link_${host}.${imageExtension(page.contentType, page.url)}`}};
+    }
+    // PDFs and other files: nothing to extract, keep the link with its file name
+    return {url, title: filename};
+}
+
+// Unfurls up to LINK_MAX_LINKS URLs; links that fail to load are skipped (the URL stays in the message text)
+export async function unfurlLinks(urls: string[]): Promise<UnfurledLink[]> {
+    const links: UnfurledLink[] = [];
+    for (const url of urls.slice(0, config.LINK_MAX_LINKS)) {
+        try {
+            logger.info(`Unfurling link: ${url}`);
+            const link = await unfurlLink(url);
+            logger.info(`Unfurled ${url}: "${link.title || 'untitled'}"${link.markdown ? ` (${link.markdown.length} characters)` : ''}`);
+            links.push(link);
+        } catch (error: any) {
+            logger.warn(`Failed to unfurl ${url}: ${error.message}`);
+        }
+    }
+    return links;
+}
+
+// Short plain-text summary of the links for the AI prompt; `maxContentChars` of each article, 0 for all of it
+export function describeLinksForAI(links: UnfurledLink[], maxContentChars = 1500): string {
+    return links.map(link => [
+        `Linked page: ${link.title || link.url}${link.siteName ? ` (${link.siteName})` : ''}`,
+        link.description,
+        maxContentChars > 0 ? link.markdown?.substring(0, maxContentChars) : link.markdown,
+    ].filter(Boolean).join('\n')).join('\n\n');
+}
+
+function formatPublishedDate(value: string): string {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date.toISOString().slice(0, 10);
+}
+
+// Markdown section appended to the note for one link; `imageLink` is the embed of the saved image, if any
+export function renderLinkSection(link: UnfurledLink, imageLink?: string): string {
+    const title = (link.title || link.url).replace(/[\[\]]/g, '');
+    const details = [link.author, link.siteName, link.publishedAt ? formatPublishedDate(link.publishedAt) : undefined].filter(Boolean);
+    return [
+        `## [${title}](${link.url})`,
+        details.length > 0 ? `*${details.join(' · ')}*` : undefined,
+        imageLink,
+        link.markdown || link.description,
+    ].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,145 @@
+import {lookup} from 'dns/promises';
+import {BlockList, isIP, isIPv4} from 'net';
+import {config} from '../config';
+
+export interface FetchedPage {
+    url: string; // Final URL after redirects
+    contentType: string; // Lowercased media type without parameters, e.g. 'text/html'
+    charset?: string;
+    body: Buffer;
+}
+
+// Fetches web resources for link unfurling; swap it out (setPageFetcher) to run without network access
+export interface PageFetcher {
+    name: string;
+    fetch(url: string): Promise<FetchedPage>;
+}
+
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local and other non-public ranges: links must not reach the bot's own network
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8], ['64:ff9b::', 96], ['::ffff:0:0', 96]] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+function isBlockedAddress(address: string): boolean {
+    const mappedIPv4 = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1]; // IPv4-mapped IPv6
+    if (mappedIPv4 || isIPv4(address)) {
+        return blockedAddresses.check(mappedIPv4 || address, 'ipv4');
+    }
+    return blockedAddresses.check(address, 'ipv6');
+}
+
+// Rejects URLs that aren't http(s) or whose host resolves to a non-public address
+async function assertPublicUrl(url: URL): Promise<void> {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error(`Unsupported protocol ${url.protocol}`);
+    }
+    const hostname = url.hostname.replace(/^\[|]$/g, '');
+    const addresses = isIP(hostname) ? [{address: hostname}] : await lookup(hostname, {all: true});
+    const blocked = addresses.find(({address}) => isBlockedAddress(address));
+    if (blocked) {
+        throw new Error(`${url.hostname} resolves to the non-public address ${blocked.address}`);
+    }
+}
+
+// Reads the body up to LINK_MAX_BYTES, then gives up without downloading the rest
+async function readLimitedBody(response: Response): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    if (!response.body) {
+        return Buffer.alloc(0);
+    }
+    const reader = response.body.getReader();
+    for (;;) {
+        const {done, value} = await reader.read();
+        if (done) break;
+        size += value.length;
+        if (size > config.LINK_MAX_BYTES) {
+            await reader.cancel().catch(() => undefined);
+            throw new Error(`Response too large (more than ${config.LINK_MAX_BYTES} bytes)`);
+        }
+        chunks.push(Buffer.from(value));
+    }
+    return Buffer.concat(chunks);
+}
+
+class HttpPageFetcher implements PageFetcher {
+    name = 'http';
+
+    async fetch(url: string): Promise<FetchedPage> {
+        const signal = AbortSignal.timeout(config.LINK_FETCH_TIMEOUT_MS);
+        let currentUrl = new URL(url);
+        let response: Response;
+        // Redirects are followed by hand, so every hop is checked before it is requested
+        for (let redirects = 0; ; redirects++) {
+            await assertPublicUrl(currentUrl);
+            response = await fetch(currentUrl, {
+                redirect: 'manual',
+                signal,
+                headers: {
+                    'user-agent': config.LINK_USER_AGENT,
+                    'accept': 'text/html,application/xhtml+xml,image/*;q=0.8,*/*;q=0.5',
+                },
+            });
+            const location = response.headers.get('location');
+            if (response.status < 300 || response.status >= 400 || !location) break;
+            await response.body?.cancel().catch(() => undefined);
+            if (redirects >= MAX_REDIRECTS) {
+                throw new Error('Too many redirects');
+            }
+            currentUrl = new URL(location, currentUrl);
+        }
+        if (!response.ok) {
+            await response.body?.cancel().catch(() => undefined);
+            throw new Error(`HTTP ${response.status} ${response.statusText}`);
+        }
+        const declaredLength = Number(response.headers.get('content-length'));
+        if (declaredLength > config.LINK_MAX_BYTES) {
+            await response.body?.cancel().catch(() => undefined);
+            throw new Error(`Response too large (${declaredLength} bytes)`);
+        }
+        const body = await readLimitedBody(response);
+        const [mediaType, ...parameters] = (response.headers.get('content-type') || '').split(';');
+        const charset = parameters.map(parameter => parameter.trim().match(/^charset=["']?([^"']+)/i)?.[1]).find(Boolean);
+        return {url: currentUrl.toString(), contentType: mediaType.trim().toLowerCase(), charset, body};
+    }
+}
+
+// Serves fixed responses keyed by URL; for tests and offline runs
+export class StaticPageFetcher implements PageFetcher {
+    name = 'static';
+
+    constructor(private readonly pages: Record<string, { contentType?: string, body: string | Buffer }>) {
+    }
+
+    async fetch(url: string): Promise<FetchedPage> {
+        const page = this.pages[url];
+        if (!page) {
+            throw new Error(`No static page for ${url}`);
+        }
+        return {
+            url,
+            contentType: page.contentType || 'text/html',
+            body: Buffer.isBuffer(page.body) ? page.body : Buffer.from(page.body, 'utf8'),
+        };
+    }
+}
+
+let fetcher: PageFetcher | undefined;
+
+export function getPageFetcher(): PageFetcher {
+    if (!fetcher) {
+        fetcher = new HttpPageFetcher();
+    }
+    return fetcher;
+}
+
+export function setPageFetcher(customFetcher: PageFetcher): void {
+    fetcher = customFetcher;
+}